@@ -26,6 +26,8 @@ import { ProfilePage } from "./pages/ProfilePage";
 import { AuthorProfilePage } from "./pages/AuthorProfilePage";
 import { ActiveWritersPage } from "./pages/ActiveWritersPage";
 import { RemovedWritersPage } from "./pages/RemovedWritersPage";
+import { ReviewQueuePage } from "./pages/ReviewQueuePage";
+import { TrashPage } from "./pages/TrashPage";
 import { OfflineIndicator } from "./components/OfflineIndicator";
 import { GlobalUploadNotifications } from "./components/GlobalUploadNotifications";
 import {
@@ -155,7 +157,7 @@ function AppContent({
               }
             />
             <Route
-              path="article/:id"
+              path="article/:slug"
               element={
                 <UserRoute>
                   <ArticleView />
@@ -214,6 +216,14 @@ function AppContent({
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="trash"
+              element={
+                <ProtectedRoute requiredRoles={["infowriter", "admin"]}>
+                  <TrashPage />
+                </ProtectedRoute>
+              }
+            />
 
             {/* Admin only routes */}
             <Route
@@ -244,6 +254,14 @@ function AppContent({
                 </AdminRoute>
               }
             />
+            <Route
+              path="admin/review-queue"
+              element={
+                <AdminRoute>
+                  <ReviewQueuePage />
+                </AdminRoute>
+              }
+            />
 
 
             <Route path="*" element={<Navigate to="/dashboard" replace />} />
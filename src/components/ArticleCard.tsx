@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo } from "react";
 import { Link } from "react-router-dom";
 import {
   Tag,
@@ -11,16 +11,25 @@ import {
   MoreVertical,
   EyeOff,
   Send,
+  Users,
+  Layers,
+  BookOpen,
 } from "lucide-react";
 import { format } from "date-fns";
 import { SaveArticleButton } from "./SaveArticleButton";
 import { LikeButton } from "./LikeButton";
 import { useAuth } from "../hooks/useAuth";
-import { Article, deleteArticleByRole, updateArticle } from "../lib/articles";
+import {
+  Article,
+  deleteArticleByRole,
+  getArticlePath,
+  updateArticle,
+} from "../lib/articles";
 import { UserProfile } from "../lib/auth";
 import { toast } from "react-hot-toast";
 import { onSnapshot, doc } from "firebase/firestore";
 import { firestore } from "../lib/firebase";
+import { estimateReadingTime } from "../utils/writingStats";
 
 interface ArticleCardProps {
   article: Article;
@@ -65,6 +74,7 @@ export const ArticleCard: React.FC<ArticleCardProps> = ({
             createdAt: data.createdAt?.toDate(),
             updatedAt: data.updatedAt?.toDate(),
             publishedAt: data.publishedAt?.toDate(),
+            scheduledFor: data.scheduledFor?.toDate(),
           } as Article;
           setArticle(updatedArticle);
         }
@@ -82,6 +92,12 @@ export const ArticleCard: React.FC<ArticleCardProps> = ({
     return () => unsubscribe();
   }, [initialArticle.id]);
 
+  // Articles saved before reading time was stored fall back to an estimate
+  const readingTime = useMemo(
+    () => article.readingTime ?? estimateReadingTime(article.content || ""),
+    [article.readingTime, article.content]
+  );
+
   // Close dropdown when clicking outside
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -161,6 +177,10 @@ export const ArticleCard: React.FC<ArticleCardProps> = ({
         return "bg-green-100 text-green-700";
       case "draft":
         return "bg-yellow-100 text-yellow-700";
+      case "scheduled":
+        return "bg-blue-100 text-blue-700";
+      case "in_review":
+        return "bg-indigo-100 text-indigo-700";
       case "unpublished":
         return "bg-gray-100 text-gray-700";
       default:
@@ -170,7 +190,7 @@ export const ArticleCard: React.FC<ArticleCardProps> = ({
 
   const canEdit = () => {
     if (!userProfile) return false;
-    return canEditArticle(article.authorId, article.status);
+    return canEditArticle(article.authorId, article.status, article.coAuthorIds);
   };
 
   const canDelete = () => {
@@ -189,16 +209,13 @@ export const ArticleCard: React.FC<ArticleCardProps> = ({
         userProfile.uid,
         article.authorId,
         authorProfile?.role,
-        "Article removed by administrator"
+        userProfile.uid === article.authorId
+          ? "Article deleted by author"
+          : "Article removed by administrator",
+        userProfile.displayName
       );
 
-      // Different success messages based on deletion type
-      const isOwnArticle = userProfile.uid === article.authorId;
-      const successMessage = isOwnArticle
-        ? "Article deleted successfully"
-        : "Article unpublished successfully";
-
-      toast.success(successMessage);
+      toast.success("Article moved to trash");
       setShowDeleteConfirm(false);
       // Optionally trigger a refresh of the parent component
       window.location.reload();
@@ -293,7 +310,7 @@ export const ArticleCard: React.FC<ArticleCardProps> = ({
         e.currentTarget.style.border = '1px solid #e5e7eb';
       }}
     >
-      <Link to={`/article/${article.id}`} className="flex-1 flex flex-col">
+      <Link to={getArticlePath(article)} className="flex-1 flex flex-col">
         {/* Cover Image - Only show if exists */}
         {article.coverImage && (
           <div
@@ -331,11 +348,21 @@ export const ArticleCard: React.FC<ArticleCardProps> = ({
                 article.status
               )}`}
             >
-              {article.status}
+              {article.status === "in_review" ? "in review" : article.status}
             </span>
           )}
         </div>
 
+        {/* Series Membership */}
+        {article.seriesId && article.seriesTitle && (
+          <div className="flex items-center mb-3 min-w-0">
+            <span className="inline-flex items-center max-w-full px-2 py-1 bg-indigo-50 text-indigo-700 text-xs font-medium rounded-full">
+              <Layers className="h-3 w-3 mr-1 flex-shrink-0" />
+              <span className="truncate">Series: {article.seriesTitle}</span>
+            </span>
+          </div>
+        )}
+
         {/* Author Information - Fixed Height */}
         <div className="flex items-center space-x-3 mb-3 min-h-[2.5rem]">
           <Link
@@ -381,6 +408,28 @@ export const ArticleCard: React.FC<ArticleCardProps> = ({
               )}
             </div>
           </Link>
+
+          {/* Co-authors */}
+          {article.coAuthors && article.coAuthors.length > 0 && (
+            <div className="flex items-center text-xs text-gray-500 min-w-0">
+              <Users className="h-3 w-3 mr-1 flex-shrink-0" />
+              <span className="truncate">
+                with{" "}
+                {article.coAuthors.map((coAuthor, index) => (
+                  <React.Fragment key={coAuthor.uid}>
+                    {index > 0 && ", "}
+                    <Link
+                      to={`/author/${coAuthor.uid}`}
+                      className="hover:text-blue-600 transition-colors"
+                      onClick={(e) => e.stopPropagation()} // Prevent card click when clicking co-author
+                    >
+                      {coAuthor.displayName}
+                    </Link>
+                  </React.Fragment>
+                ))}
+              </span>
+            </div>
+          )}
         </div>
 
         {/* Content Preview - Flexible Height based on image presence */}
@@ -399,6 +448,12 @@ export const ArticleCard: React.FC<ArticleCardProps> = ({
         <div className="flex items-center text-xs text-gray-500 mb-3">
           <Clock className="h-3 w-3 mr-1" />
           <span>Updated: {format(article.updatedAt, "dd/MM/yyyy")}</span>
+          {readingTime > 0 && (
+            <>
+              <BookOpen className="h-3 w-3 ml-3 mr-1" />
+              <span>{readingTime} min read</span>
+            </>
+          )}
         </div>
 
         {/* Category - Fixed Height */}
@@ -0,0 +1,121 @@
+// src/components/ArticleContent.tsx
+import React, { useEffect, useRef } from "react";
+import { createRoot, Root } from "react-dom/client";
+import { renderMermaidDiagrams } from "../lib/tiptap/utils/mermaidRenderer";
+import { EmbeddedArticle, ArticleEmbedMode } from "./EmbeddedArticle";
+import {
+  getArticleLinkStatuses,
+  getArticleLinkStatusMessage,
+} from "../lib/articles";
+import { TaskProgress } from "../lib/taskProgress";
+
+interface ArticleContentProps {
+  html: string; // Already processed with processArticleContent
+  className?: string;
+  style?: React.CSSProperties;
+  onClick?: (e: React.MouseEvent<HTMLDivElement>) => void;
+  hydrateEmbeds?: boolean; // Transcluded sections don't embed further articles
+  taskProgress?: TaskProgress | null; // Enables checklists with the reader's ticks
+}
+
+// Renders processed article HTML and brings its dynamic parts to life:
+// Mermaid diagrams and embedded articles are drawn once the HTML is in the page,
+// and links to articles readers can no longer open are marked as unavailable
+export const ArticleContent: React.FC<ArticleContentProps> = ({
+  html,
+  className,
+  style,
+  onClick,
+  hydrateEmbeds = true,
+  taskProgress = null,
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    renderMermaidDiagrams(container);
+
+    const roots: Root[] = [];
+    if (hydrateEmbeds) {
+      container
+        .querySelectorAll<HTMLElement>("div[data-article-embed]")
+        .forEach((element) => {
+          const articleId = element.getAttribute("data-article-id");
+          if (!articleId) return;
+
+          const root = createRoot(element);
+          root.render(
+            <EmbeddedArticle
+              articleId={articleId}
+              mode={
+                (element.getAttribute("data-embed-mode") as ArticleEmbedMode) ||
+                "card"
+              }
+              sectionId={element.getAttribute("data-section-id")}
+            />
+          );
+          roots.push(root);
+        });
+    }
+
+    let cancelled = false;
+    const articleLinks = Array.from(
+      container.querySelectorAll<HTMLAnchorElement>("a[data-article-link]")
+    );
+    if (articleLinks.length > 0) {
+      getArticleLinkStatuses(
+        articleLinks.map((link) => link.getAttribute("data-article-link") || "")
+      ).then((statuses) => {
+        if (cancelled) return;
+
+        articleLinks.forEach((link) => {
+          const status = statuses[link.getAttribute("data-article-link") || ""];
+          if (!status || status === "available") return;
+
+          link.classList.add("article-link-unavailable");
+          link.title = getArticleLinkStatusMessage(status);
+          link.removeAttribute("href");
+          link.setAttribute("aria-disabled", "true");
+        });
+      });
+    }
+
+    return () => {
+      cancelled = true;
+      // Unmount after the current render to avoid unmounting mid-render
+      setTimeout(() => roots.forEach((root) => root.unmount()));
+    };
+  }, [html, hydrateEmbeds]);
+
+  // Checklists stay read-only unless the reader's progress is known
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    container
+      .querySelectorAll<HTMLInputElement>("input[data-task-checkbox]")
+      .forEach((checkbox) => {
+        const item = checkbox.closest<HTMLElement>('li[data-type="taskItem"]');
+        const taskId = item?.getAttribute("data-task-id");
+        if (!item || !taskId) return;
+
+        const checked =
+          taskProgress?.[taskId] ?? item.getAttribute("data-checked") === "true";
+        checkbox.checked = checked;
+        checkbox.disabled = !taskProgress;
+        item.classList.toggle("task-item-checked", checked);
+      });
+  }, [html, taskProgress]);
+
+  return (
+    <div
+      ref={containerRef}
+      className={className}
+      style={style}
+      onClick={onClick}
+      dangerouslySetInnerHTML={{ __html: html }}
+    />
+  );
+};
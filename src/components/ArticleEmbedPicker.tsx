@@ -0,0 +1,222 @@
+// src/components/ArticleEmbedPicker.tsx
+import React, { useState, useEffect, useMemo } from "react";
+import {
+  FileSymlink,
+  X,
+  Loader2,
+  Search,
+  ArrowLeft,
+  FileText,
+  Hash,
+  User,
+} from "lucide-react";
+import toast from "react-hot-toast";
+import { Article, getArticles } from "../lib/articles";
+import { processArticleContent } from "../lib/tiptap/utils/contentProcessor";
+import { getHeadingOutline } from "../lib/tiptap/utils/headingProcessor";
+import { ArticleEmbedAttributes } from "../lib/tiptap/extensions/ArticleEmbedExtension";
+
+interface ArticleEmbedPickerProps {
+  excludeArticleId?: string; // The article being edited can't embed itself
+  onSelect: (attributes: ArticleEmbedAttributes) => void;
+  onClose: () => void;
+}
+
+export const ArticleEmbedPicker: React.FC<ArticleEmbedPickerProps> = ({
+  excludeArticleId,
+  onSelect,
+  onClose,
+}) => {
+  const [articles, setArticles] = useState<Article[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [selectedArticle, setSelectedArticle] = useState<Article | null>(null);
+
+  useEffect(() => {
+    const loadArticles = async () => {
+      try {
+        const published = await getArticles({ status: "published", limit: 100 });
+        setArticles(published.filter((article) => article.id !== excludeArticleId));
+      } catch (error) {
+        console.error("Error loading articles:", error);
+        toast.error("Failed to load articles");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadArticles();
+  }, [excludeArticleId]);
+
+  const filteredArticles = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+    if (!query) return articles;
+
+    return articles.filter(
+      (article) =>
+        article.title.toLowerCase().includes(query) ||
+        article.authorName.toLowerCase().includes(query) ||
+        article.tags.some((tag) => tag.toLowerCase().includes(query))
+    );
+  }, [articles, searchQuery]);
+
+  const headings = useMemo(
+    () =>
+      selectedArticle
+        ? getHeadingOutline(processArticleContent(selectedArticle.content))
+        : [],
+    [selectedArticle]
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-blue-600 to-purple-600 px-6 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <div className="bg-white/20 p-2 rounded-lg">
+                <FileSymlink className="h-5 w-5 text-white" />
+              </div>
+              <div>
+                <h2 className="text-lg font-semibold text-white">
+                  Embed Article
+                </h2>
+                <p className="text-blue-100 text-sm">
+                  {selectedArticle
+                    ? "Show it as a card or pull in one of its sections"
+                    : "Choose a published article to embed"}
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-white/80 hover:text-white p-1 rounded-lg hover:bg-white/10 transition-colors"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-6">
+          {selectedArticle ? (
+            <div className="space-y-4">
+              <button
+                onClick={() => setSelectedArticle(null)}
+                className="flex items-center text-sm text-blue-600 hover:text-blue-800"
+              >
+                <ArrowLeft className="h-4 w-4 mr-1" />
+                Back to articles
+              </button>
+
+              <button
+                onClick={() =>
+                  onSelect({ articleId: selectedArticle.id, mode: "card" })
+                }
+                className="w-full flex items-start text-left p-4 border border-gray-200 rounded-xl hover:border-blue-300 hover:shadow-sm transition-all"
+              >
+                <FileText className="h-5 w-5 mr-3 mt-0.5 text-blue-600 flex-shrink-0" />
+                <div>
+                  <p className="font-medium text-gray-900">Preview card</p>
+                  <p className="text-sm text-gray-600">
+                    Title, excerpt, cover image and author of "
+                    {selectedArticle.title}"
+                  </p>
+                </div>
+              </button>
+
+              <div>
+                <h3 className="text-sm font-semibold text-gray-900 mb-2">
+                  Or transclude a section
+                </h3>
+                {headings.length === 0 ? (
+                  <p className="text-sm text-gray-500">
+                    This article has no headings to embed.
+                  </p>
+                ) : (
+                  <div className="border border-gray-200 rounded-xl divide-y divide-gray-100">
+                    {headings.map((heading) => (
+                      <button
+                        key={heading.id}
+                        onClick={() =>
+                          onSelect({
+                            articleId: selectedArticle.id,
+                            mode: "section",
+                            sectionId: heading.id,
+                          })
+                        }
+                        className="w-full flex items-center text-left px-4 py-2 text-sm text-gray-700 hover:bg-blue-50"
+                        style={{ paddingLeft: `${heading.level}rem` }}
+                      >
+                        <Hash className="h-3.5 w-3.5 mr-2 text-gray-400 flex-shrink-0" />
+                        <span className="truncate">{heading.text}</span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          ) : (
+            <>
+              <div className="relative mb-4">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+                <input
+                  type="text"
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  placeholder="Search by title, author or tag..."
+                  className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+                  autoFocus
+                />
+              </div>
+
+              {loading ? (
+                <div className="flex items-center justify-center py-12">
+                  <Loader2 className="h-6 w-6 animate-spin text-blue-600" />
+                </div>
+              ) : filteredArticles.length === 0 ? (
+                <div className="text-center text-gray-500 text-sm border border-dashed border-gray-300 rounded-xl p-8">
+                  No published articles match your search.
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  {filteredArticles.map((article) => (
+                    <button
+                      key={article.id}
+                      onClick={() => setSelectedArticle(article)}
+                      className="w-full text-left p-3 border border-gray-200 rounded-xl hover:border-blue-300 hover:shadow-sm transition-all"
+                    >
+                      <p className="font-medium text-gray-900 line-clamp-1">
+                        {article.title}
+                      </p>
+                      {article.excerpt && (
+                        <p className="text-sm text-gray-600 mt-1 line-clamp-1">
+                          {article.excerpt}
+                        </p>
+                      )}
+                      <p className="flex items-center text-xs text-gray-500 mt-1">
+                        <User className="h-3 w-3 mr-1" />
+                        {article.authorName}
+                      </p>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="bg-gray-50 px-6 py-4 flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,190 @@
+// src/components/ArticleLinkPicker.tsx
+import React, { useState, useEffect, useMemo } from "react";
+import { Link as LinkIcon, X, Loader2, Search, Globe, User, Unlink } from "lucide-react";
+import toast from "react-hot-toast";
+import { Article, getArticles } from "../lib/articles";
+
+interface ArticleLinkPickerProps {
+  initialUrl?: string; // The link being edited, if any
+  excludeArticleId?: string; // The article being edited
+  onSelectUrl: (url: string) => void;
+  onSelectArticle: (article: Article) => void;
+  onRemove?: () => void;
+  onClose: () => void;
+}
+
+export const ArticleLinkPicker: React.FC<ArticleLinkPickerProps> = ({
+  initialUrl = "",
+  excludeArticleId,
+  onSelectUrl,
+  onSelectArticle,
+  onRemove,
+  onClose,
+}) => {
+  const [articles, setArticles] = useState<Article[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [url, setUrl] = useState(initialUrl);
+
+  useEffect(() => {
+    const loadArticles = async () => {
+      try {
+        const published = await getArticles({ status: "published", limit: 100 });
+        setArticles(published.filter((article) => article.id !== excludeArticleId));
+      } catch (error) {
+        console.error("Error loading articles:", error);
+        toast.error("Failed to load articles");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadArticles();
+  }, [excludeArticleId]);
+
+  const filteredArticles = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+    if (!query) return articles;
+
+    return articles.filter(
+      (article) =>
+        article.title.toLowerCase().includes(query) ||
+        article.authorName.toLowerCase().includes(query) ||
+        article.tags.some((tag) => tag.toLowerCase().includes(query))
+    );
+  }, [articles, searchQuery]);
+
+  const handleUrlSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmedUrl = url.trim();
+    if (trimmedUrl) {
+      onSelectUrl(trimmedUrl);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-blue-600 to-purple-600 px-6 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <div className="bg-white/20 p-2 rounded-lg">
+                <LinkIcon className="h-5 w-5 text-white" />
+              </div>
+              <div>
+                <h2 className="text-lg font-semibold text-white">Add Link</h2>
+                <p className="text-blue-100 text-sm">
+                  Link to another article or enter a web address
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-white/80 hover:text-white p-1 rounded-lg hover:bg-white/10 transition-colors"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          <form onSubmit={handleUrlSubmit}>
+            <h3 className="text-sm font-semibold text-gray-900 mb-2">Web address</h3>
+            <div className="flex items-center space-x-2">
+              <div className="relative flex-1">
+                <Globe className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+                <input
+                  type="text"
+                  value={url}
+                  onChange={(e) => setUrl(e.target.value)}
+                  placeholder="https://..."
+                  className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+                />
+              </div>
+              <button
+                type="submit"
+                disabled={!url.trim()}
+                className="px-4 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+              >
+                Apply
+              </button>
+            </div>
+          </form>
+
+          <div>
+            <h3 className="text-sm font-semibold text-gray-900 mb-2">
+              InfoNest articles
+            </h3>
+            <div className="relative mb-4">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+              <input
+                type="text"
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                placeholder="Search by title, author or tag..."
+                className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+                autoFocus
+              />
+            </div>
+
+            {loading ? (
+              <div className="flex items-center justify-center py-12">
+                <Loader2 className="h-6 w-6 animate-spin text-blue-600" />
+              </div>
+            ) : filteredArticles.length === 0 ? (
+              <div className="text-center text-gray-500 text-sm border border-dashed border-gray-300 rounded-xl p-8">
+                No published articles match your search.
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {filteredArticles.map((article) => (
+                  <button
+                    key={article.id}
+                    onClick={() => onSelectArticle(article)}
+                    className="w-full text-left p-3 border border-gray-200 rounded-xl hover:border-blue-300 hover:shadow-sm transition-all"
+                  >
+                    <p className="font-medium text-gray-900 line-clamp-1">
+                      {article.title}
+                    </p>
+                    {article.excerpt && (
+                      <p className="text-sm text-gray-600 mt-1 line-clamp-1">
+                        {article.excerpt}
+                      </p>
+                    )}
+                    <p className="flex items-center text-xs text-gray-500 mt-1">
+                      <User className="h-3 w-3 mr-1" />
+                      {article.authorName}
+                    </p>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="bg-gray-50 px-6 py-4 flex justify-between">
+          {onRemove ? (
+            <button
+              onClick={onRemove}
+              className="flex items-center px-4 py-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+            >
+              <Unlink className="h-4 w-4 mr-2" />
+              Remove link
+            </button>
+          ) : (
+            <span />
+          )}
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,153 @@
+// src/components/CoAuthorManager.tsx
+import React, { useState, useEffect } from "react";
+import { Users, Search, X, UserPlus } from "lucide-react";
+import toast from "react-hot-toast";
+import { getInfoWriters, getAdminUsers, UserProfile } from "../lib/auth";
+import { ArticleCoAuthor } from "../lib/articles";
+
+interface CoAuthorManagerProps {
+  coAuthors: ArticleCoAuthor[];
+  primaryAuthorId: string;
+  onChange: (coAuthors: ArticleCoAuthor[]) => void;
+  maxCoAuthors?: number;
+}
+
+export const CoAuthorManager: React.FC<CoAuthorManagerProps> = ({
+  coAuthors,
+  primaryAuthorId,
+  onChange,
+  maxCoAuthors = 5,
+}) => {
+  const [writers, setWriters] = useState<UserProfile[]>([]);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [loading, setLoading] = useState(true);
+
+  // Only InfoWriters and admins can write articles, so only they can co-author
+  useEffect(() => {
+    const loadWriters = async () => {
+      try {
+        const [infoWriters, admins] = await Promise.all([
+          getInfoWriters(),
+          getAdminUsers(),
+        ]);
+        setWriters([...infoWriters, ...admins]);
+      } catch (error) {
+        console.error("Error loading writers:", error);
+        toast.error("Failed to load writers");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadWriters();
+  }, []);
+
+  const query = searchQuery.trim().toLowerCase();
+  const suggestions = query
+    ? writers
+        .filter(
+          (writer) =>
+            writer.uid !== primaryAuthorId &&
+            !coAuthors.some((coAuthor) => coAuthor.uid === writer.uid) &&
+            ((writer.displayName || "").toLowerCase().includes(query) ||
+              writer.email.toLowerCase().includes(query))
+        )
+        .slice(0, 5)
+    : [];
+
+  const addCoAuthor = (writer: UserProfile) => {
+    if (coAuthors.length >= maxCoAuthors) {
+      toast.error(`An article can have at most ${maxCoAuthors} co-authors`);
+      return;
+    }
+
+    onChange([
+      ...coAuthors,
+      { uid: writer.uid, displayName: writer.displayName || writer.email },
+    ]);
+    setSearchQuery("");
+  };
+
+  const removeCoAuthor = (uid: string) => {
+    onChange(coAuthors.filter((coAuthor) => coAuthor.uid !== uid));
+  };
+
+  return (
+    <div className="bg-white rounded-2xl p-6 border border-gray-200">
+      <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+        <Users className="h-5 w-5 mr-2" />
+        Co-authors
+      </h3>
+
+      <p className="text-sm text-gray-500 mb-3">
+        Co-authors can edit this article. Only you can change this list.
+      </p>
+
+      {/* Current co-authors */}
+      {coAuthors.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-3">
+          {coAuthors.map((coAuthor) => (
+            <span
+              key={coAuthor.uid}
+              className="inline-flex items-center space-x-1 px-3 py-1 bg-blue-100 text-blue-800 text-sm rounded-full"
+            >
+              <span>{coAuthor.displayName}</span>
+              <button
+                type="button"
+                onClick={() => removeCoAuthor(coAuthor.uid)}
+                className="hover:text-blue-600"
+                title="Remove co-author"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      {/* Writer search */}
+      {coAuthors.length < maxCoAuthors && (
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <input
+            type="text"
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            placeholder={loading ? "Loading writers..." : "Search writers by name or email"}
+            disabled={loading}
+            className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm disabled:opacity-50"
+          />
+
+          {query && (
+            <div className="absolute left-0 right-0 mt-1 bg-white border border-gray-200 rounded-lg shadow-lg z-10">
+              {suggestions.length === 0 ? (
+                <p className="px-4 py-2 text-sm text-gray-500">
+                  No matching writers
+                </p>
+              ) : (
+                suggestions.map((writer) => (
+                  <button
+                    key={writer.uid}
+                    type="button"
+                    onClick={() => addCoAuthor(writer)}
+                    className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-blue-50 flex items-center space-x-2"
+                  >
+                    <UserPlus className="h-4 w-4 text-blue-600" />
+                    <span className="font-medium">
+                      {writer.displayName || writer.email}
+                    </span>
+                    {writer.displayName && (
+                      <span className="text-gray-500 truncate">
+                        {writer.email}
+                      </span>
+                    )}
+                  </button>
+                ))
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,119 @@
+// src/components/EmbeddedArticle.tsx
+import React, { useState, useEffect, useMemo } from "react";
+import { FileText, Loader2, EyeOff, User, ExternalLink } from "lucide-react";
+import { Article, getArticlePath, subscribeToArticle } from "../lib/articles";
+import { processArticleContent } from "../lib/tiptap/utils/contentProcessor";
+import { extractSection } from "../lib/tiptap/utils/headingProcessor";
+import { ArticleContent } from "./ArticleContent";
+
+export type ArticleEmbedMode = "card" | "section";
+
+interface EmbeddedArticleProps {
+  articleId: string;
+  mode: ArticleEmbedMode;
+  sectionId?: string | null;
+}
+
+// Embeds render outside the router, so links use the hash URL directly
+const getArticleHref = (article: Article, sectionId?: string | null) =>
+  `#${getArticlePath(article)}${sectionId ? `?section=${encodeURIComponent(sectionId)}` : ""}`;
+
+export const EmbeddedArticle: React.FC<EmbeddedArticleProps> = ({
+  articleId,
+  mode,
+  sectionId,
+}) => {
+  const [article, setArticle] = useState<Article | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  // Live subscription keeps the embed in sync with the source article
+  useEffect(() => {
+    setLoading(true);
+    const unsubscribe = subscribeToArticle(articleId, (sourceArticle) => {
+      setArticle(sourceArticle);
+      setLoading(false);
+    });
+
+    return () => unsubscribe();
+  }, [articleId]);
+
+  const sourceContent = article?.content;
+  const sectionHtml = useMemo(() => {
+    if (mode !== "section" || !sectionId || !sourceContent) return null;
+    return extractSection(processArticleContent(sourceContent), sectionId);
+  }, [mode, sectionId, sourceContent]);
+
+  if (loading) {
+    return (
+      <div className="article-embed flex items-center justify-center py-6 text-gray-400">
+        <Loader2 className="h-5 w-5 animate-spin" />
+      </div>
+    );
+  }
+
+  // Deleted, unpublished or unreadable sources degrade to a notice
+  if (!article || article.status !== "published") {
+    return (
+      <div className="article-embed flex items-center space-x-3 p-4 bg-gray-50 border border-dashed border-gray-300 rounded-xl text-sm text-gray-500">
+        <EyeOff className="h-5 w-5 flex-shrink-0" />
+        <span>
+          {article?.title ? `"${article.title}"` : "The embedded article"} is no
+          longer available.
+        </span>
+      </div>
+    );
+  }
+
+  if (mode === "section" && sectionHtml) {
+    return (
+      <div className="article-embed border-l-4 border-indigo-200 pl-4">
+        <ArticleContent html={sectionHtml} hydrateEmbeds={false} />
+        <a
+          href={getArticleHref(article, sectionId)}
+          className="inline-flex items-center text-xs text-indigo-600 hover:text-indigo-800 no-underline"
+        >
+          <ExternalLink className="h-3 w-3 mr-1" />
+          From "{article.title}"
+        </a>
+      </div>
+    );
+  }
+
+  return (
+    <a
+      href={getArticleHref(article)}
+      className="article-embed flex items-stretch bg-white border border-gray-200 rounded-xl overflow-hidden hover:border-blue-300 hover:shadow-md transition-all no-underline"
+    >
+      {article.coverImage ? (
+        <img
+          src={article.coverImage}
+          alt=""
+          className="w-32 sm:w-40 object-cover flex-shrink-0 !m-0"
+        />
+      ) : (
+        <div className="w-24 flex-shrink-0 bg-gradient-to-br from-blue-100 to-purple-100 flex items-center justify-center">
+          <FileText className="h-8 w-8 text-blue-500" />
+        </div>
+      )}
+      <div className="p-4 min-w-0">
+        <p className="font-semibold text-gray-900 !m-0 line-clamp-1">
+          {article.title}
+        </p>
+        {article.excerpt && (
+          <p className="text-sm text-gray-600 !mt-1 !mb-0 line-clamp-2">
+            {article.excerpt}
+          </p>
+        )}
+        <p className="flex items-center text-xs text-gray-500 !mt-2 !mb-0">
+          <User className="h-3 w-3 mr-1" />
+          {article.authorName}
+          {mode === "section" && (
+            <span className="ml-2 text-amber-600">
+              · The embedded section no longer exists
+            </span>
+          )}
+        </p>
+      </div>
+    </a>
+  );
+};
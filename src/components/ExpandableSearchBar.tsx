@@ -1,6 +1,11 @@
 import React, { useState, useRef, useEffect, useCallback } from "react";
 import { Search, X, Clock, Tag, ArrowRight } from "lucide-react";
-import { getPublishedArticles, getUserArticles, Article } from "../lib/articles";
+import {
+  getPublishedArticles,
+  getUserArticles,
+  getArticlePath,
+  Article,
+} from "../lib/articles";
 import { Link } from "react-router-dom";
 import { useAuth } from "../hooks/useAuth";
 import { formatDistanceToNow } from "date-fns";
@@ -472,7 +477,7 @@ export const ExpandableSearchBar: React.FC<ExpandableSearchBarProps> = ({
                     {results.map((article) => (
                       <Link
                         key={article.id}
-                        to={`/article/${article.id}`}
+                        to={getArticlePath(article)}
                         onClick={() => handleResultClick(article)}
                         className="block p-3 hover:bg-gray-50 rounded-lg transition-colors group"
                       >
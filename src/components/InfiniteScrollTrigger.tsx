@@ -0,0 +1,51 @@
+// src/components/InfiniteScrollTrigger.tsx
+import React, { useEffect, useRef } from "react";
+import { Loader2 } from "lucide-react";
+
+interface InfiniteScrollTriggerProps {
+  hasMore: boolean;
+  loading: boolean;
+  onLoadMore: () => void;
+  rootMargin?: string;
+}
+
+export const InfiniteScrollTrigger: React.FC<InfiniteScrollTriggerProps> = ({
+  hasMore,
+  loading,
+  onLoadMore,
+  rootMargin = "400px",
+}) => {
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  // Re-observe after every load so a sentinel that is still visible
+  // (e.g. when a page did not fill the screen) triggers the next page
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || loading) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0]?.isIntersecting) {
+          onLoadMore();
+        }
+      },
+      { rootMargin }
+    );
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, loading, onLoadMore, rootMargin]);
+
+  if (!hasMore && !loading) return null;
+
+  return (
+    <div ref={sentinelRef} className="flex items-center justify-center py-8">
+      {loading && (
+        <div className="flex items-center space-x-2 text-gray-600">
+          <Loader2 className="h-5 w-5 animate-spin text-blue-600" />
+          <span className="text-sm">Loading more articles...</span>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,5 +1,14 @@
 import React, { useState, useRef, useEffect, useContext } from "react";
-import { Bell, Check, CheckCheck, X, Award, AlertCircle } from "lucide-react";
+import {
+  Bell,
+  Check,
+  CheckCheck,
+  X,
+  Award,
+  AlertCircle,
+  ClipboardCheck,
+  MessageSquare,
+} from "lucide-react";
 import { useNotifications, NotificationContext } from "../contexts/NotificationContext";
 import { formatDistanceToNow } from "date-fns";
 import { AppNotification } from "../lib/notifications";
@@ -82,6 +91,13 @@ export const NotificationDropdown: React.FC = () => {
         return <AlertCircle className="h-5 w-5 text-red-600" />;
       case "writer_privileges_restored":
         return <Award className="h-5 w-5 text-green-600" />;
+      case "article_review_submitted":
+      case "article_review_requested":
+        return <ClipboardCheck className="h-5 w-5 text-indigo-600" />;
+      case "article_approved":
+        return <ClipboardCheck className="h-5 w-5 text-green-600" />;
+      case "article_changes_requested":
+        return <MessageSquare className="h-5 w-5 text-yellow-600" />;
       default:
         return <Bell className="h-5 w-5 text-gray-600" />;
     }
@@ -99,6 +115,13 @@ export const NotificationDropdown: React.FC = () => {
         return "bg-red-50 border-l-4 border-red-500";
       case "writer_privileges_restored":
         return "bg-green-50 border-l-4 border-green-500";
+      case "article_review_submitted":
+      case "article_review_requested":
+        return "bg-indigo-50 border-l-4 border-indigo-500";
+      case "article_approved":
+        return "bg-green-50 border-l-4 border-green-500";
+      case "article_changes_requested":
+        return "bg-yellow-50 border-l-4 border-yellow-500";
       default:
         return "bg-white border-l-4 border-gray-300";
     }
@@ -0,0 +1,335 @@
+// src/components/RevisionHistory.tsx
+import React, { useState, useEffect, useMemo } from "react";
+import { History, RotateCcw, X, Clock, User, Columns, AlignLeft } from "lucide-react";
+import { formatDistanceToNow, format } from "date-fns";
+import { diffWords, Change } from "diff";
+import toast from "react-hot-toast";
+import { ArticleRevision, getArticleRevisions } from "../lib/articleRevisions";
+import { htmlToPlainTextLines } from "../utils/htmlUtils";
+
+interface RevisionHistoryProps {
+  articleId: string;
+  onRestore: (revision: ArticleRevision) => void;
+  onClose: () => void;
+}
+
+type DiffMode = "inline" | "side-by-side";
+
+const renderChanges = (changes: Change[], side?: "left" | "right") =>
+  changes.map((change, index) => {
+    if (change.added) {
+      if (side === "left") return null;
+      return (
+        <ins
+          key={index}
+          className="bg-green-100 text-green-800 no-underline rounded px-0.5"
+        >
+          {change.value}
+        </ins>
+      );
+    }
+    if (change.removed) {
+      if (side === "right") return null;
+      return (
+        <del key={index} className="bg-red-100 text-red-800 rounded px-0.5">
+          {change.value}
+        </del>
+      );
+    }
+    return <span key={index}>{change.value}</span>;
+  });
+
+export const RevisionHistory: React.FC<RevisionHistoryProps> = ({
+  articleId,
+  onRestore,
+  onClose,
+}) => {
+  const [revisions, setRevisions] = useState<ArticleRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [baseId, setBaseId] = useState<string>("");
+  const [compareId, setCompareId] = useState<string>("");
+  const [diffMode, setDiffMode] = useState<DiffMode>("inline");
+
+  useEffect(() => {
+    const loadRevisions = async () => {
+      setLoading(true);
+      try {
+        const loaded = await getArticleRevisions(articleId);
+        setRevisions(loaded);
+
+        // Default to comparing the latest revision with the one before it
+        if (loaded.length > 0) {
+          setCompareId(loaded[0].id);
+          setBaseId(loaded[Math.min(1, loaded.length - 1)].id);
+        }
+      } catch (error) {
+        console.error("Error loading revision history:", error);
+        toast.error("Failed to load revision history");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadRevisions();
+  }, [articleId]);
+
+  const baseRevision = revisions.find((revision) => revision.id === baseId);
+  const compareRevision = revisions.find((revision) => revision.id === compareId);
+
+  const contentChanges = useMemo(() => {
+    if (!baseRevision || !compareRevision) return [];
+    return diffWords(
+      htmlToPlainTextLines(baseRevision.content),
+      htmlToPlainTextLines(compareRevision.content)
+    );
+  }, [baseRevision, compareRevision]);
+
+  const titleChanges = useMemo(() => {
+    if (!baseRevision || !compareRevision) return [];
+    return diffWords(baseRevision.title, compareRevision.title);
+  }, [baseRevision, compareRevision]);
+
+  const excerptChanges = useMemo(() => {
+    if (!baseRevision || !compareRevision) return [];
+    return diffWords(baseRevision.excerpt, compareRevision.excerpt);
+  }, [baseRevision, compareRevision]);
+
+  const listChanges = (before: string[], after: string[]) => ({
+    added: after.filter((item) => !before.includes(item)),
+    removed: before.filter((item) => !after.includes(item)),
+  });
+
+  const tagChanges =
+    baseRevision && compareRevision
+      ? listChanges(baseRevision.tags, compareRevision.tags)
+      : { added: [], removed: [] };
+  const categoryChanges =
+    baseRevision && compareRevision
+      ? listChanges(baseRevision.categories, compareRevision.categories)
+      : { added: [], removed: [] };
+
+  const revisionLabel = (revision: ArticleRevision, index: number) =>
+    `#${revisions.length - index} · ${format(revision.createdAt, "dd/MM/yyyy HH:mm")}`;
+
+  const renderListChanges = (
+    label: string,
+    changes: { added: string[]; removed: string[] }
+  ) => {
+    if (changes.added.length === 0 && changes.removed.length === 0) return null;
+
+    return (
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="font-medium text-gray-700">{label}:</span>
+        {changes.removed.map((item) => (
+          <del key={`removed-${item}`} className="px-2 py-0.5 bg-red-100 text-red-800 rounded-full">
+            {item}
+          </del>
+        ))}
+        {changes.added.map((item) => (
+          <ins key={`added-${item}`} className="px-2 py-0.5 bg-green-100 text-green-800 rounded-full no-underline">
+            {item}
+          </ins>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-6xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-blue-600 to-purple-600 px-6 py-4 flex-shrink-0">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <div className="bg-white/20 p-2 rounded-lg">
+                <History className="h-5 w-5 text-white" />
+              </div>
+              <div>
+                <h2 className="text-lg font-semibold text-white">
+                  Revision History
+                </h2>
+                <p className="text-blue-100 text-sm">
+                  {revisions.length} saved revision{revisions.length !== 1 ? "s" : ""}
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-white/80 hover:text-white p-1 rounded-lg hover:bg-white/10 transition-colors"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-16">
+            <div className="animate-spin h-8 w-8 border-2 border-blue-500 border-t-transparent rounded-full" />
+          </div>
+        ) : revisions.length === 0 ? (
+          <div className="text-center py-16 px-6">
+            <History className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">
+              No revisions yet
+            </h3>
+            <p className="text-gray-600">
+              A revision is recorded every time you save this article.
+            </p>
+          </div>
+        ) : (
+          <div className="flex flex-1 min-h-0">
+            {/* Revision List */}
+            <div className="w-72 border-r border-gray-200 overflow-y-auto flex-shrink-0">
+              {revisions.map((revision) => (
+                <div
+                  key={revision.id}
+                  className={`p-4 border-b border-gray-100 ${
+                    revision.id === compareId
+                      ? "bg-blue-50"
+                      : revision.id === baseId
+                      ? "bg-gray-50"
+                      : ""
+                  }`}
+                >
+                  <p className="font-medium text-gray-900 line-clamp-1">
+                    {revision.title || "Untitled"}
+                  </p>
+                  <div className="flex items-center space-x-1 mt-1 text-xs text-gray-500">
+                    <Clock className="h-3 w-3" />
+                    <span>
+                      {formatDistanceToNow(revision.createdAt, { addSuffix: true })}
+                    </span>
+                  </div>
+                  <div className="flex items-center space-x-1 mt-1 text-xs text-gray-500">
+                    <User className="h-3 w-3" />
+                    <span>{revision.editorName}</span>
+                    <span>•</span>
+                    <span className="capitalize">{revision.status}</span>
+                  </div>
+                  <div className="flex items-center space-x-2 mt-2">
+                    <button
+                      onClick={() => setBaseId(revision.id)}
+                      className={`text-xs px-2 py-1 rounded-md border transition-colors ${
+                        revision.id === baseId
+                          ? "bg-gray-700 text-white border-gray-700"
+                          : "text-gray-600 border-gray-300 hover:bg-gray-100"
+                      }`}
+                    >
+                      Base
+                    </button>
+                    <button
+                      onClick={() => setCompareId(revision.id)}
+                      className={`text-xs px-2 py-1 rounded-md border transition-colors ${
+                        revision.id === compareId
+                          ? "bg-blue-600 text-white border-blue-600"
+                          : "text-blue-600 border-blue-300 hover:bg-blue-50"
+                      }`}
+                    >
+                      Compare
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {/* Diff View */}
+            <div className="flex-1 flex flex-col min-w-0">
+              <div className="px-6 py-3 border-b border-gray-200 flex items-center justify-between flex-shrink-0">
+                <div className="text-sm text-gray-600">
+                  {baseRevision && compareRevision && (
+                    <>
+                      <span className="font-medium text-gray-700">
+                        {revisionLabel(baseRevision, revisions.indexOf(baseRevision))}
+                      </span>
+                      <span className="mx-2">→</span>
+                      <span className="font-medium text-blue-700">
+                        {revisionLabel(compareRevision, revisions.indexOf(compareRevision))}
+                      </span>
+                    </>
+                  )}
+                </div>
+                <div className="flex space-x-1 bg-gray-100 rounded-lg p-1">
+                  <button
+                    onClick={() => setDiffMode("inline")}
+                    className={`flex items-center space-x-1 py-1 px-3 rounded-md text-sm font-medium transition-colors ${
+                      diffMode === "inline"
+                        ? "bg-white text-gray-900 shadow-sm"
+                        : "text-gray-600 hover:text-gray-900"
+                    }`}
+                  >
+                    <AlignLeft className="h-4 w-4" />
+                    <span>Inline</span>
+                  </button>
+                  <button
+                    onClick={() => setDiffMode("side-by-side")}
+                    className={`flex items-center space-x-1 py-1 px-3 rounded-md text-sm font-medium transition-colors ${
+                      diffMode === "side-by-side"
+                        ? "bg-white text-gray-900 shadow-sm"
+                        : "text-gray-600 hover:text-gray-900"
+                    }`}
+                  >
+                    <Columns className="h-4 w-4" />
+                    <span>Side by side</span>
+                  </button>
+                </div>
+              </div>
+
+              <div className="flex-1 overflow-y-auto p-6 space-y-4">
+                {/* Metadata changes */}
+                <div className="space-y-2">
+                  <div className="text-sm">
+                    <span className="font-medium text-gray-700">Title: </span>
+                    {renderChanges(titleChanges)}
+                  </div>
+                  {excerptChanges.some((change) => change.added || change.removed) && (
+                    <div className="text-sm">
+                      <span className="font-medium text-gray-700">Excerpt: </span>
+                      {renderChanges(excerptChanges)}
+                    </div>
+                  )}
+                  {renderListChanges("Categories", categoryChanges)}
+                  {renderListChanges("Tags", tagChanges)}
+                </div>
+
+                {/* Content diff */}
+                {diffMode === "inline" ? (
+                  <div className="bg-gray-50 rounded-lg p-4 text-sm text-gray-800 whitespace-pre-wrap leading-relaxed">
+                    {renderChanges(contentChanges)}
+                  </div>
+                ) : (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="bg-gray-50 rounded-lg p-4 text-sm text-gray-800 whitespace-pre-wrap leading-relaxed">
+                      {renderChanges(contentChanges, "left")}
+                    </div>
+                    <div className="bg-gray-50 rounded-lg p-4 text-sm text-gray-800 whitespace-pre-wrap leading-relaxed">
+                      {renderChanges(contentChanges, "right")}
+                    </div>
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Footer */}
+        <div className="bg-gray-50 px-6 py-4 flex items-center justify-end space-x-3 flex-shrink-0">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-600 hover:text-gray-800 transition-colors"
+          >
+            Close
+          </button>
+          {compareRevision && (
+            <button
+              onClick={() => onRestore(compareRevision)}
+              className="flex items-center space-x-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              <RotateCcw className="h-4 w-4" />
+              <span>Restore as Draft</span>
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
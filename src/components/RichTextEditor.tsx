@@ -1,22 +1,25 @@
 import React, { useState, useRef, useEffect } from "react";
-import { useEditor, EditorContent } from "@tiptap/react";
+import { useEditor, EditorContent, ChainedCommands } from "@tiptap/react";
 import StarterKit from "@tiptap/starter-kit";
 import Image from "@tiptap/extension-image";
-import Link from "@tiptap/extension-link";
-import CodeBlockLowlight from "@tiptap/extension-code-block-lowlight";
 import ListItem from "@tiptap/extension-list-item";
 import BulletList from "@tiptap/extension-bullet-list";
 import OrderedList from "@tiptap/extension-ordered-list";
+import TaskList from "@tiptap/extension-task-list";
+import Table from "@tiptap/extension-table";
+import TableRow from "@tiptap/extension-table-row";
+import TableHeader from "@tiptap/extension-table-header";
+import TableCell from "@tiptap/extension-table-cell";
 
 import TextStyle from "@tiptap/extension-text-style";
 import { Color } from "@tiptap/extension-color";
-import { createLowlight } from "lowlight";
 import {
   Bold,
   Italic,
   Underline,
   List,
   ListOrdered,
+  ListChecks,
   Quote,
   Code,
   Link as LinkIcon,
@@ -26,16 +29,58 @@ import {
   Upload,
   Type,
   Palette,
+  Table2,
+  BetweenHorizontalStart,
+  BetweenHorizontalEnd,
+  BetweenVerticalStart,
+  BetweenVerticalEnd,
+  Rows,
+  Columns,
+  TableCellsMerge,
+  TableCellsSplit,
+  PanelTop,
+  Trash2,
+  MessageSquareWarning,
+  Sigma,
+  Superscript,
+  TextSearch,
+  Images,
+  FunctionSquare,
+  Workflow,
+  FileSymlink,
 } from "lucide-react";
 import { FileUploadButton } from "./FileUpload";
 import { useAuth } from "../hooks/useAuth";
-import { UploadResult } from "../lib/fileUpload";
+import { UploadResult, validateFile } from "../lib/fileUpload";
+import { resumableUploadManager } from "../lib/resumableUpload";
 import toast from "react-hot-toast";
 import { ResumableFileUploadButton } from "./ResumableFileUpload";
 import { CustomImageExtension } from "../lib/tiptap/extensions/CustomImageExtension";
-import { ImageGridManager } from "./extensions/ImageGridManager";
-
-const lowlight = createLowlight();
+import { CalloutExtension } from "../lib/tiptap/extensions/CalloutExtension";
+import { SlashCommandExtension } from "../lib/tiptap/extensions/SlashCommandExtension";
+import { MathInline, MathBlock } from "../lib/tiptap/extensions/MathExtension";
+import { FootnoteExtension } from "../lib/tiptap/extensions/FootnoteExtension";
+import { MermaidExtension } from "../lib/tiptap/extensions/MermaidExtension";
+import { CodeBlockExtension } from "../lib/tiptap/extensions/CodeBlockExtension";
+import { ImageUploadExtension } from "../lib/tiptap/extensions/ImageUploadExtension";
+import { SearchReplaceExtension } from "../lib/tiptap/extensions/SearchReplaceExtension";
+import { ImageGalleryExtension } from "../lib/tiptap/extensions/ImageGalleryExtension";
+import { ArticleLinkExtension } from "../lib/tiptap/extensions/ArticleLinkExtension";
+import { TaskItemExtension } from "../lib/tiptap/extensions/TaskItemExtension";
+import { FindReplacePanel } from "../lib/tiptap/components/FindReplacePanel";
+import {
+  ArticleEmbedExtension,
+  ArticleEmbedAttributes,
+} from "../lib/tiptap/extensions/ArticleEmbedExtension";
+import { lowlight } from "../lib/tiptap/utils/lowlight";
+import {
+  createSlashCommandItems,
+  filterSlashCommandItems,
+} from "../lib/tiptap/extensions/slashCommandItems";
+import { renderSlashCommandMenu } from "../lib/tiptap/extensions/slashCommandRenderer";
+import { ArticleEmbedPicker } from "./ArticleEmbedPicker";
+import { ArticleLinkPicker } from "./ArticleLinkPicker";
+import { Article } from "../lib/articles";
 
 interface RichTextEditorProps {
   content: string;
@@ -53,7 +98,49 @@ export const RichTextEditor: React.FC<RichTextEditorProps> = ({
   const { userProfile } = useAuth();
   const [isUploading, setIsUploading] = useState(false);
   const [showColorPicker, setShowColorPicker] = useState(false);
-  const gridManagerRef = useRef<ImageGridManager | null>(null);
+  const [showEmbedPicker, setShowEmbedPicker] = useState(false);
+  const [showLinkPicker, setShowLinkPicker] = useState(false);
+  const [showFindReplace, setShowFindReplace] = useState(false);
+  const uploadButtonRef = useRef<HTMLDivElement>(null);
+
+  // The editor keeps the options it was created with, so pasted and dropped
+  // image uploads read the current user and article through a ref
+  const pasteUploadRef = useRef({ userId: userProfile?.uid, articleId });
+  pasteUploadRef.current = { userId: userProfile?.uid, articleId };
+
+  // Pasted and dropped images use the same resumable pipeline as uploads
+  // started from the toolbar
+  const uploadPastedImage = (
+    file: File,
+    onProgress: (percentage: number) => void
+  ): Promise<string> =>
+    new Promise((resolve, reject) => {
+      const { userId, articleId: currentArticleId } = pasteUploadRef.current;
+      if (!userId) {
+        reject(new Error("Please login to upload files"));
+        return;
+      }
+
+      const validation = validateFile(file);
+      if (!validation.isValid) {
+        reject(new Error(validation.error || "Invalid file"));
+        return;
+      }
+
+      resumableUploadManager
+        .addUpload(
+          file,
+          userId,
+          "articles",
+          (progress) => onProgress(progress.percentage),
+          (result) =>
+            result instanceof Error ? reject(result) : resolve(result.url),
+          currentArticleId
+            ? { articleId: currentArticleId, type: "article", targetField: "content" }
+            : undefined
+        )
+        .catch(reject);
+    });
 
   // Predefined colors like MS Word
   const textColors = [
@@ -82,7 +169,7 @@ export const RichTextEditor: React.FC<RichTextEditorProps> = ({
         bulletList: false,
         orderedList: false,
         listItem: false,
-        // Disable the default codeBlock to avoid conflicts with CodeBlockLowlight
+        // Disable the default codeBlock to avoid conflicts with CodeBlockExtension
         codeBlock: false,
       }),
       TextStyle,
@@ -111,35 +198,82 @@ export const RichTextEditor: React.FC<RichTextEditorProps> = ({
         keepMarks: true,
         keepAttributes: true,
       }),
+      TaskList.configure({
+        HTMLAttributes: {
+          class: "task-list",
+        },
+      }),
+      TaskItemExtension.configure({
+        nested: true,
+      }),
       // Use custom image extension instead of default Image extension
       CustomImageExtension.configure({
         inline: false,
-        allowBase64: true,
+        allowBase64: false,
         HTMLAttributes: {
           class: "custom-image",
         },
       }),
-      Link.configure({
+      ArticleLinkExtension.configure({
         openOnClick: false,
         HTMLAttributes: {
           class: "text-blue-600 hover:text-blue-800 underline",
         },
       }),
-      CodeBlockLowlight.configure({
+      CodeBlockExtension.configure({
         lowlight,
         HTMLAttributes: {
           class: "bg-gray-100 rounded-lg p-4 font-mono text-sm",
         },
       }),
+      Table.configure({
+        resizable: false,
+        HTMLAttributes: {
+          class: "article-table",
+        },
+      }),
+      TableRow,
+      TableHeader,
+      TableCell,
+      CalloutExtension,
+      MathInline,
+      MathBlock,
+      FootnoteExtension,
+      MermaidExtension,
+      ArticleEmbedExtension,
+      ImageUploadExtension.configure({
+        uploadImage: uploadPastedImage,
+        onUploadError: (file, error) =>
+          toast.error(`Failed to upload ${file.name}: ${error.message}`),
+      }),
+      ImageGalleryExtension.configure({
+        uploadImage: uploadPastedImage,
+      }),
+      SearchReplaceExtension.configure({
+        onOpen: () => setShowFindReplace(true),
+      }),
+      SlashCommandExtension.configure({
+        suggestion: {
+          items: ({ query }) =>
+            filterSlashCommandItems(
+              createSlashCommandItems({
+                // Reuse the toolbar's upload button and its upload handling
+                onUploadImage: () =>
+                  uploadButtonRef.current
+                    ?.querySelector<HTMLInputElement>('input[type="file"]')
+                    ?.click(),
+                onEmbedArticle: () => setShowEmbedPicker(true),
+              }),
+              query
+            ),
+          render: renderSlashCommandMenu,
+        },
+      }),
     ],
     content,
     onUpdate: ({ editor }) => {
       onChange(editor.getHTML());
     },
-    onCreate: ({ editor }) => {
-      // Initialize grid manager when editor is created
-      gridManagerRef.current = new ImageGridManager(editor);
-    },
     editorProps: {
       attributes: {
         class: "prose prose-lg max-w-none focus:outline-none min-h-[400px] p-6",
@@ -227,6 +361,16 @@ export const RichTextEditor: React.FC<RichTextEditorProps> = ({
     return null;
   }
 
+  // Indent and outdent the innermost list item, which may be a checklist item
+  const listItemType = (() => {
+    const { $from } = editor.state.selection;
+    for (let depth = $from.depth; depth > 0; depth--) {
+      const { name } = $from.node(depth).type;
+      if (name === "listItem" || name === "taskItem") return name;
+    }
+    return "listItem";
+  })();
+
   const addImage = () => {
     const url = window.prompt("Enter image URL:");
     if (url) {
@@ -238,11 +382,49 @@ export const RichTextEditor: React.FC<RichTextEditorProps> = ({
     }
   };
 
-  const addLink = () => {
-    const url = window.prompt("Enter URL:");
-    if (url) {
-      editor.chain().focus().setLink({ href: url }).run();
+  const handleLinkUrl = (url: string) => {
+    if (editor.state.selection.empty && !editor.isActive("link")) {
+      // Nothing to link yet, so the address becomes the link text
+      editor
+        .chain()
+        .focus()
+        .insertContent({
+          type: "text",
+          text: url,
+          marks: [{ type: "link", attrs: { href: url } }],
+        })
+        .run();
+    } else {
+      // Replace any article reference the link had
+      editor
+        .chain()
+        .focus()
+        .extendMarkRange("link")
+        .unsetLink()
+        .setLink({ href: url })
+        .run();
     }
+    setShowLinkPicker(false);
+  };
+
+  const handleLinkArticle = (linkedArticle: Article) => {
+    editor
+      .chain()
+      .focus()
+      .extendMarkRange("link")
+      .setArticleLink({ articleId: linkedArticle.id, text: linkedArticle.title })
+      .run();
+    setShowLinkPicker(false);
+  };
+
+  const handleRemoveLink = () => {
+    editor.chain().focus().extendMarkRange("link").unsetLink().run();
+    setShowLinkPicker(false);
+  };
+
+  const handleEmbedArticle = (attributes: ArticleEmbedAttributes) => {
+    editor.chain().focus().insertArticleEmbed(attributes).run();
+    setShowEmbedPicker(false);
   };
 
   const handleFileUpload = (result: UploadResult) => {
@@ -284,19 +466,82 @@ export const RichTextEditor: React.FC<RichTextEditorProps> = ({
       // Single image - use normal upload
       handleFileUpload(imageResults[0]);
     } else {
-      // Multiple images - create grid
-      const images = imageResults.map((result) => ({
-        src: result.url,
-        alt: result.name || "",
-        title: result.name || "",
-      }));
-
-      if (gridManagerRef.current) {
-        gridManagerRef.current.createGrid(images);
-      }
+      // Multiple images - create a gallery
+      editor
+        .chain()
+        .focus()
+        .insertImageGallery({
+          images: imageResults.map((result) => ({
+            src: result.url,
+            alt: result.name || "",
+          })),
+        })
+        .run();
     }
   };
 
+  // Row, column and cell commands shown while the cursor is inside a table
+  const tableControls: {
+    title: string;
+    icon: typeof Table2;
+    command: (chain: ChainedCommands) => ChainedCommands;
+    danger?: boolean;
+  }[] = [
+    {
+      title: "Add Row Above",
+      icon: BetweenHorizontalStart,
+      command: (chain) => chain.addRowBefore(),
+    },
+    {
+      title: "Add Row Below",
+      icon: BetweenHorizontalEnd,
+      command: (chain) => chain.addRowAfter(),
+    },
+    {
+      title: "Delete Row",
+      icon: Rows,
+      command: (chain) => chain.deleteRow(),
+      danger: true,
+    },
+    {
+      title: "Add Column Before",
+      icon: BetweenVerticalStart,
+      command: (chain) => chain.addColumnBefore(),
+    },
+    {
+      title: "Add Column After",
+      icon: BetweenVerticalEnd,
+      command: (chain) => chain.addColumnAfter(),
+    },
+    {
+      title: "Delete Column",
+      icon: Columns,
+      command: (chain) => chain.deleteColumn(),
+      danger: true,
+    },
+    {
+      title: "Merge Cells",
+      icon: TableCellsMerge,
+      command: (chain) => chain.mergeCells(),
+    },
+    {
+      title: "Split Cell",
+      icon: TableCellsSplit,
+      command: (chain) => chain.splitCell(),
+    },
+    {
+      title: "Toggle Header Row",
+      icon: PanelTop,
+      command: (chain) => chain.toggleHeaderRow(),
+    },
+    {
+      title: "Delete Table",
+      icon: Trash2,
+      command: (chain) => chain.deleteTable(),
+      danger: true,
+    },
+  ];
+
   const applyTextColor = (color: string) => {
     editor.chain().focus().setColor(color).run();
     setShowColorPicker(false);
@@ -369,39 +614,7 @@ export const RichTextEditor: React.FC<RichTextEditorProps> = ({
           object-fit: cover;
         }
 
-        /* Image Grid Layouts */
-        .image-grid-item {
-          display: inline-block;
-          margin: 4px;
-          border-radius: 8px;
-          vertical-align: top;
-        }
-
-        /* 2-image grid */
-        .image-grid-item:nth-child(2n) {
-          width: calc(50% - 8px);
-        }
-
-        /* 3-image grid */
-        .image-grid-item:nth-child(3n) {
-          width: calc(33.333% - 8px);
-        }
-
-        /* 4+ image grid */
-        .image-grid-item:nth-child(4n) {
-          width: calc(25% - 8px);
-        }
-
-        /* Grid container */
-        .image-grid-container {
-          display: flex;
-          flex-wrap: wrap;
-          gap: 8px;
-          margin: 16px 0;
-          justify-content: center;
-        }
-
-        /* Responsive grid adjustments */
+        /* Responsive image adjustments */
         @media (max-width: 768px) {
           .image-outset {
             max-width: 100%;
@@ -415,17 +628,6 @@ export const RichTextEditor: React.FC<RichTextEditorProps> = ({
             margin-right: 0;
             padding: 0;
           }
-
-          .image-grid-item:nth-child(n) {
-            width: calc(50% - 8px);
-          }
-        }
-
-        @media (max-width: 480px) {
-          .image-grid-item:nth-child(n) {
-            width: 100%;
-            margin: 4px 0;
-          }
         }
 
         /* Hover and selection states */
@@ -530,6 +732,29 @@ export const RichTextEditor: React.FC<RichTextEditorProps> = ({
         .ProseMirror ol ol ol {
           list-style-type: lower-roman !important;
         }
+        /* Checklists: the checkbox replaces the list marker */
+        .ProseMirror ul[data-type="taskList"] {
+          list-style-type: none !important;
+          padding-left: 4px !important;
+        }
+        .ProseMirror li[data-type="taskItem"] {
+          display: flex !important;
+          align-items: flex-start !important;
+          gap: 8px !important;
+          padding-left: 0 !important;
+        }
+        .ProseMirror li[data-type="taskItem"] > label {
+          flex: none;
+          margin-top: 1px;
+        }
+        .ProseMirror li[data-type="taskItem"] > div {
+          flex: 1 1 auto;
+          min-width: 0;
+        }
+        .ProseMirror li[data-checked="true"] > div > p {
+          color: #6b7280;
+          text-decoration: line-through;
+        }
         /* Prevent list jumping and ensure stable positioning */
         .ProseMirror ul, .ProseMirror ol {
           transform: translateZ(0) !important;
@@ -722,16 +947,30 @@ export const RichTextEditor: React.FC<RichTextEditorProps> = ({
           <ListOrdered className="h-4 w-4" />
         </button>
 
+        <button
+          onClick={() => editor.chain().focus().toggleTaskList().run()}
+          className={`p-2 rounded-lg hover:bg-gray-100 ${
+            editor.isActive("taskList")
+              ? "bg-blue-100 text-blue-700"
+              : "text-gray-600"
+          }`}
+          title="Checklist"
+        >
+          <ListChecks className="h-4 w-4" />
+        </button>
+
         {/* List Indentation Controls */}
-        {(editor.isActive("bulletList") || editor.isActive("orderedList")) && (
+        {(editor.isActive("bulletList") ||
+          editor.isActive("orderedList") ||
+          editor.isActive("taskList")) && (
           <>
             <button
               onClick={() =>
-                editor.chain().focus().sinkListItem("listItem").run()
+                editor.chain().focus().sinkListItem(listItemType).run()
               }
-              disabled={!editor.can().sinkListItem("listItem")}
+              disabled={!editor.can().sinkListItem(listItemType)}
               className={`p-2 rounded-lg hover:bg-gray-100 text-gray-600 ${
-                !editor.can().sinkListItem("listItem")
+                !editor.can().sinkListItem(listItemType)
                   ? "opacity-50 cursor-not-allowed"
                   : ""
               }`}
@@ -742,11 +981,11 @@ export const RichTextEditor: React.FC<RichTextEditorProps> = ({
 
             <button
               onClick={() =>
-                editor.chain().focus().liftListItem("listItem").run()
+                editor.chain().focus().liftListItem(listItemType).run()
               }
-              disabled={!editor.can().liftListItem("listItem")}
+              disabled={!editor.can().liftListItem(listItemType)}
               className={`p-2 rounded-lg hover:bg-gray-100 text-gray-600 ${
-                !editor.can().liftListItem("listItem")
+                !editor.can().liftListItem(listItemType)
                   ? "opacity-50 cursor-not-allowed"
                   : ""
               }`}
@@ -769,6 +1008,18 @@ export const RichTextEditor: React.FC<RichTextEditorProps> = ({
           <Quote className="h-4 w-4" />
         </button>
 
+        <button
+          onClick={() => editor.chain().focus().toggleCallout().run()}
+          className={`p-2 rounded-lg hover:bg-gray-100 ${
+            editor.isActive("callout")
+              ? "bg-blue-100 text-blue-700"
+              : "text-gray-600"
+          }`}
+          title={editor.isActive("callout") ? "Remove Callout" : "Callout"}
+        >
+          <MessageSquareWarning className="h-4 w-4" />
+        </button>
+
         <button
           onClick={() => editor.chain().focus().toggleCodeBlock().run()}
           className={`p-2 rounded-lg hover:bg-gray-100 ${
@@ -781,11 +1032,112 @@ export const RichTextEditor: React.FC<RichTextEditorProps> = ({
           <Code className="h-4 w-4" />
         </button>
 
+        <button
+          onClick={() =>
+            editor
+              .chain()
+              .focus()
+              .insertTable({ rows: 3, cols: 3, withHeaderRow: true })
+              .run()
+          }
+          disabled={editor.isActive("table")}
+          className={`p-2 rounded-lg hover:bg-gray-100 disabled:opacity-50 ${
+            editor.isActive("table")
+              ? "bg-blue-100 text-blue-700"
+              : "text-gray-600"
+          }`}
+          title="Insert Table"
+        >
+          <Table2 className="h-4 w-4" />
+        </button>
+
+        {/* Table Controls */}
+        {editor.isActive("table") &&
+          tableControls.map(({ title, icon: Icon, command, danger }) => (
+            <button
+              key={title}
+              onClick={() => command(editor.chain().focus()).run()}
+              disabled={!command(editor.can().chain().focus()).run()}
+              className={`p-2 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed ${
+                danger
+                  ? "text-red-600 hover:bg-red-50"
+                  : "text-gray-600 hover:bg-gray-100"
+              }`}
+              title={title}
+            >
+              <Icon className="h-4 w-4" />
+            </button>
+          ))}
+
+        <button
+          onClick={() => editor.chain().focus().insertMathInline().run()}
+          className={`p-2 rounded-lg hover:bg-gray-100 ${
+            editor.isActive("mathInline")
+              ? "bg-blue-100 text-blue-700"
+              : "text-gray-600"
+          }`}
+          title="Inline Formula (or type $x^2$)"
+        >
+          <Sigma className="h-4 w-4" />
+        </button>
+
+        <button
+          onClick={() => editor.chain().focus().insertMathBlock().run()}
+          className={`p-2 rounded-lg hover:bg-gray-100 ${
+            editor.isActive("mathBlock")
+              ? "bg-blue-100 text-blue-700"
+              : "text-gray-600"
+          }`}
+          title="Block Formula (or type $$ and a space)"
+        >
+          <FunctionSquare className="h-4 w-4" />
+        </button>
+
+        <button
+          onClick={() => editor.chain().focus().insertMermaidDiagram().run()}
+          className={`p-2 rounded-lg hover:bg-gray-100 ${
+            editor.isActive("mermaidDiagram")
+              ? "bg-blue-100 text-blue-700"
+              : "text-gray-600"
+          }`}
+          title="Diagram (Mermaid)"
+        >
+          <Workflow className="h-4 w-4" />
+        </button>
+
+        <button
+          onClick={() => editor.chain().focus().insertFootnote().run()}
+          className={`p-2 rounded-lg hover:bg-gray-100 ${
+            editor.isActive("footnote")
+              ? "bg-blue-100 text-blue-700"
+              : "text-gray-600"
+          }`}
+          title="Footnote"
+        >
+          <Superscript className="h-4 w-4" />
+        </button>
+
+        <button
+          onClick={() => setShowEmbedPicker(true)}
+          className={`p-2 rounded-lg hover:bg-gray-100 ${
+            editor.isActive("articleEmbed")
+              ? "bg-blue-100 text-blue-700"
+              : "text-gray-600"
+          }`}
+          title="Embed Article"
+        >
+          <FileSymlink className="h-4 w-4" />
+        </button>
+
         <div className="w-px h-6 bg-gray-300 mx-1" />
 
         <button
-          onClick={addLink}
-          className="p-2 rounded-lg hover:bg-gray-100 text-gray-600"
+          onClick={() => setShowLinkPicker(true)}
+          className={`p-2 rounded-lg hover:bg-gray-100 ${
+            editor.isActive("link")
+              ? "bg-blue-100 text-blue-700"
+              : "text-gray-600"
+          }`}
           title="Add Link"
         >
           <LinkIcon className="h-4 w-4" />
@@ -799,19 +1151,33 @@ export const RichTextEditor: React.FC<RichTextEditorProps> = ({
           <ImageIcon className="h-4 w-4" />
         </button>
 
+        <button
+          onClick={() => editor.chain().focus().insertImageGallery().run()}
+          className={`p-2 rounded-lg hover:bg-gray-100 ${
+            editor.isActive("imageGallery")
+              ? "bg-blue-100 text-blue-700"
+              : "text-gray-600"
+          }`}
+          title="Image Gallery"
+        >
+          <Images className="h-4 w-4" />
+        </button>
+
         <div className="w-px h-6 bg-gray-300 mx-1" />
 
-        <FileUploadButton
-          onUploadComplete={handleFileUpload}
-          onUploadError={handleUploadError}
-          accept="image/*,.pdf,.txt,.doc,.docx"
-          folder="articles"
-          className="p-2 rounded-lg hover:bg-gray-100 text-gray-600"
-          useResumable={true}
-          articleId={articleId}
-        >
-          <Upload className="h-4 w-4" title="Upload File" />
-        </FileUploadButton>
+        <div ref={uploadButtonRef} className="contents">
+          <FileUploadButton
+            onUploadComplete={handleFileUpload}
+            onUploadError={handleUploadError}
+            accept="image/*,.pdf,.txt,.doc,.docx"
+            folder="articles"
+            className="p-2 rounded-lg hover:bg-gray-100 text-gray-600"
+            useResumable={true}
+            articleId={articleId}
+          >
+            <Upload className="h-4 w-4" title="Upload File" />
+          </FileUploadButton>
+        </div>
 
         <div className="w-px h-6 bg-gray-300 mx-1" />
 
@@ -832,8 +1198,25 @@ export const RichTextEditor: React.FC<RichTextEditorProps> = ({
         >
           <Redo className="h-4 w-4" />
         </button>
+
+        <button
+          onClick={() => setShowFindReplace((show) => !show)}
+          className={`p-2 rounded-lg hover:bg-gray-100 ${
+            showFindReplace ? "bg-blue-100 text-blue-700" : "text-gray-600"
+          }`}
+          title="Find and Replace (Ctrl+F)"
+        >
+          <TextSearch className="h-4 w-4" />
+        </button>
       </div>
 
+      {showFindReplace && (
+        <FindReplacePanel
+          editor={editor}
+          onClose={() => setShowFindReplace(false)}
+        />
+      )}
+
       {/* Scrollable Editor Content */}
       <div
         className="flex-1 overflow-y-auto p-4"
@@ -845,6 +1228,29 @@ export const RichTextEditor: React.FC<RichTextEditorProps> = ({
           style={{ fontSize: "16px", lineHeight: "18.4px" }}
         />
       </div>
+
+      {showEmbedPicker && (
+        <ArticleEmbedPicker
+          excludeArticleId={articleId}
+          onSelect={handleEmbedArticle}
+          onClose={() => setShowEmbedPicker(false)}
+        />
+      )}
+
+      {showLinkPicker && (
+        <ArticleLinkPicker
+          initialUrl={
+            editor.getAttributes("link").articleId
+              ? ""
+              : editor.getAttributes("link").href
+          }
+          excludeArticleId={articleId}
+          onSelectUrl={handleLinkUrl}
+          onSelectArticle={handleLinkArticle}
+          onRemove={editor.isActive("link") ? handleRemoveLink : undefined}
+          onClose={() => setShowLinkPicker(false)}
+        />
+      )}
     </div>
   );
 };
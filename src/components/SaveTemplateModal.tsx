@@ -0,0 +1,184 @@
+// src/components/SaveTemplateModal.tsx
+import React, { useState } from "react";
+import { LayoutTemplate, X, Loader2, Save } from "lucide-react";
+import toast from "react-hot-toast";
+import { createTemplate } from "../lib/templates";
+
+interface SaveTemplateModalProps {
+  article: {
+    title: string;
+    content: string;
+    excerpt: string;
+    categories: string[];
+    tags: string[];
+  };
+  authorId: string;
+  authorName: string;
+  isAdmin: boolean;
+  onClose: () => void;
+}
+
+export const SaveTemplateModal: React.FC<SaveTemplateModalProps> = ({
+  article,
+  authorId,
+  authorName,
+  isAdmin,
+  onClose,
+}) => {
+  const [name, setName] = useState(article.title);
+  const [description, setDescription] = useState("");
+  const [titlePattern, setTitlePattern] = useState(article.title);
+  const [isOrganizationWide, setIsOrganizationWide] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await createTemplate(
+        {
+          name,
+          description,
+          titlePattern,
+          content: article.content,
+          excerpt: article.excerpt,
+          categories: article.categories,
+          tags: article.tags,
+          scope: isAdmin && isOrganizationWide ? "organization" : "personal",
+        },
+        authorId,
+        authorName
+      );
+      toast.success(`Template "${name.trim()}" saved`);
+      onClose();
+    } catch (error) {
+      console.error("Error saving template:", error);
+      toast.error("Failed to save template");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-lg w-full overflow-hidden">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-blue-600 to-purple-600 px-6 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <div className="bg-white/20 p-2 rounded-lg">
+                <LayoutTemplate className="h-5 w-5 text-white" />
+              </div>
+              <div>
+                <h2 className="text-lg font-semibold text-white">
+                  Save as Template
+                </h2>
+                <p className="text-blue-100 text-sm">
+                  Reuse this article's structure for new articles
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-white/80 hover:text-white p-1 rounded-lg hover:bg-white/10 transition-colors"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+        </div>
+
+        {/* Form */}
+        <div className="p-6 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Template name
+            </label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. How-to guide"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+              autoFocus
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Description
+            </label>
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="When should writers use this template? (optional)"
+              rows={2}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Default title
+            </label>
+            <input
+              type="text"
+              value={titlePattern}
+              onChange={(e) => setTitlePattern(e.target.value)}
+              placeholder="e.g. Release Notes {date}"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Use {"{date}"}, {"{year}"} or {"{author}"} to fill in the
+              current date, year or writer's name.
+            </p>
+          </div>
+
+          <p className="text-sm text-gray-600">
+            The content, excerpt, categories and tags are saved with the
+            template. Cover images and attachments are not.
+          </p>
+
+          {isAdmin && (
+            <label className="flex items-start space-x-3 p-3 bg-indigo-50 rounded-lg cursor-pointer">
+              <input
+                type="checkbox"
+                checked={isOrganizationWide}
+                onChange={(e) => setIsOrganizationWide(e.target.checked)}
+                className="mt-1 h-4 w-4 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500"
+              />
+              <span>
+                <span className="block text-sm font-medium text-gray-900">
+                  Organization template
+                </span>
+                <span className="block text-sm text-gray-600">
+                  Every writer can start new articles from this template.
+                </span>
+              </span>
+            </label>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="bg-gray-50 px-6 py-4 flex justify-end space-x-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving || !name.trim()}
+            className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white hover:bg-blue-700 rounded-lg transition-colors disabled:opacity-50"
+          >
+            {saving ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <Save className="h-4 w-4" />
+            )}
+            <span>Save Template</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,111 @@
+// src/components/SchedulePublishModal.tsx
+import React, { useState } from "react";
+import { CalendarClock, X } from "lucide-react";
+import { format } from "date-fns";
+
+interface SchedulePublishModalProps {
+  initialDate?: Date;
+  saving?: boolean;
+  onConfirm: (scheduledFor: Date) => void;
+  onClose: () => void;
+}
+
+// Format a date for a datetime-local input (local time, minute precision)
+const toInputValue = (date: Date) => format(date, "yyyy-MM-dd'T'HH:mm");
+
+export const SchedulePublishModal: React.FC<SchedulePublishModalProps> = ({
+  initialDate,
+  saving = false,
+  onConfirm,
+  onClose,
+}) => {
+  const [value, setValue] = useState(() =>
+    toInputValue(initialDate || new Date(Date.now() + 60 * 60 * 1000))
+  );
+  const [error, setError] = useState("");
+
+  const handleConfirm = () => {
+    const scheduledFor = new Date(value);
+
+    if (!value || isNaN(scheduledFor.getTime())) {
+      setError("Please choose a date and time");
+      return;
+    }
+    if (scheduledFor.getTime() <= Date.now()) {
+      setError("The scheduled time must be in the future");
+      return;
+    }
+
+    setError("");
+    onConfirm(scheduledFor);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full overflow-hidden">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-blue-600 to-purple-600 px-6 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <div className="bg-white/20 p-2 rounded-lg">
+                <CalendarClock className="h-5 w-5 text-white" />
+              </div>
+              <div>
+                <h2 className="text-lg font-semibold text-white">
+                  Schedule Publication
+                </h2>
+                <p className="text-blue-100 text-sm">
+                  The article goes live automatically at this time
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-white/80 hover:text-white p-1 rounded-lg hover:bg-white/10 transition-colors"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="p-6">
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Publish on
+          </label>
+          <input
+            type="datetime-local"
+            value={value}
+            min={toInputValue(new Date())}
+            onChange={(e) => {
+              setValue(e.target.value);
+              setError("");
+            }}
+            className={`w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+              error ? "border-red-300" : "border-gray-300"
+            }`}
+          />
+          {error && <p className="text-red-600 text-sm mt-2">{error}</p>}
+        </div>
+
+        {/* Footer */}
+        <div className="bg-gray-50 px-6 py-4 flex items-center justify-end space-x-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-600 hover:text-gray-800 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleConfirm}
+            disabled={saving}
+            className="flex items-center space-x-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            <CalendarClock className="h-4 w-4" />
+            <span>{saving ? "Scheduling..." : "Schedule"}</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
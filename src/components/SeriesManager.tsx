@@ -0,0 +1,458 @@
+// src/components/SeriesManager.tsx
+import React, { useState, useEffect, useCallback, useRef } from "react";
+import {
+  Layers,
+  X,
+  Plus,
+  ArrowUp,
+  ArrowDown,
+  Trash2,
+  Save,
+  Loader2,
+} from "lucide-react";
+import toast from "react-hot-toast";
+import { Article } from "../lib/articles";
+import {
+  ArticleSeries,
+  createSeries,
+  getUserSeries,
+  getSeriesArticles,
+  updateSeriesDetails,
+  reorderSeriesArticles,
+  removeArticleFromSeries,
+  deleteSeries,
+} from "../lib/series";
+
+interface SeriesManagerProps {
+  authorId: string;
+  authorName: string;
+  initialSeriesId?: string;
+  onClose: () => void;
+  onChange?: () => void; // Called after any series or membership change
+}
+
+export const SeriesManager: React.FC<SeriesManagerProps> = ({
+  authorId,
+  authorName,
+  initialSeriesId,
+  onClose,
+  onChange,
+}) => {
+  const [seriesList, setSeriesList] = useState<ArticleSeries[]>([]);
+  const [selectedId, setSelectedId] = useState<string | undefined>(
+    initialSeriesId
+  );
+  const [parts, setParts] = useState<Article[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingParts, setLoadingParts] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  // New series form
+  const [newTitle, setNewTitle] = useState("");
+  const [newDescription, setNewDescription] = useState("");
+
+  // Selected series details form
+  const [editTitle, setEditTitle] = useState("");
+  const [editDescription, setEditDescription] = useState("");
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const selectedSeries = seriesList.find((series) => series.id === selectedId);
+
+  // Latest list for the parts loader, which should only rerun on selection
+  const seriesListRef = useRef(seriesList);
+  seriesListRef.current = seriesList;
+
+  const loadSeriesList = useCallback(async () => {
+    try {
+      const list = await getUserSeries(authorId);
+      setSeriesList(list);
+      setSelectedId((current) => current ?? list[0]?.id);
+    } catch (error) {
+      console.error("Error loading series:", error);
+      toast.error("Failed to load series");
+    } finally {
+      setLoading(false);
+    }
+  }, [authorId]);
+
+  useEffect(() => {
+    loadSeriesList();
+  }, [loadSeriesList]);
+
+  // Load every part (any status) of the selected series
+  useEffect(() => {
+    setConfirmDelete(false);
+    const series = seriesListRef.current.find((s) => s.id === selectedId);
+    if (!series) {
+      setParts([]);
+      return;
+    }
+
+    setEditTitle(series.title);
+    setEditDescription(series.description);
+    setLoadingParts(true);
+
+    getSeriesArticles(series, false)
+      .then(setParts)
+      .catch(() => toast.error("Failed to load series articles"))
+      .finally(() => setLoadingParts(false));
+  }, [selectedId, loading]);
+
+  const replaceSeries = (updated: ArticleSeries) => {
+    setSeriesList((prev) =>
+      prev.map((series) => (series.id === updated.id ? updated : series))
+    );
+  };
+
+  const handleCreate = async () => {
+    if (!newTitle.trim()) {
+      toast.error("Series title is required");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const id = await createSeries(newTitle, newDescription, authorId, authorName);
+      setNewTitle("");
+      setNewDescription("");
+      await loadSeriesList();
+      setSelectedId(id);
+      onChange?.();
+      toast.success("Series created");
+    } catch (error) {
+      console.error("Error creating series:", error);
+      toast.error("Failed to create series");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveDetails = async () => {
+    if (!selectedSeries) return;
+
+    setSaving(true);
+    try {
+      await updateSeriesDetails(selectedSeries, {
+        title: editTitle,
+        description: editDescription,
+      });
+      replaceSeries({
+        ...selectedSeries,
+        title: editTitle.trim(),
+        description: editDescription.trim(),
+      });
+      onChange?.();
+      toast.success("Series updated");
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to update series"
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    if (!selectedSeries) return;
+
+    const target = index + direction;
+    if (target < 0 || target >= parts.length) return;
+
+    const reordered = [...parts];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    const articleIds = reordered.map((part) => part.id);
+
+    setParts(reordered);
+    try {
+      await reorderSeriesArticles(selectedSeries.id, articleIds);
+      replaceSeries({ ...selectedSeries, articleIds });
+      onChange?.();
+    } catch (error) {
+      console.error("Error reordering series:", error);
+      setParts(parts);
+      toast.error("Failed to reorder series");
+    }
+  };
+
+  const handleRemovePart = async (part: Article) => {
+    if (!selectedSeries) return;
+
+    setSaving(true);
+    try {
+      await removeArticleFromSeries(selectedSeries.id, part.id);
+      setParts((prev) => prev.filter((p) => p.id !== part.id));
+      replaceSeries({
+        ...selectedSeries,
+        articleIds: selectedSeries.articleIds.filter((id) => id !== part.id),
+      });
+      onChange?.();
+      toast.success(`"${part.title}" removed from the series`);
+    } catch (error) {
+      console.error("Error removing article from series:", error);
+      toast.error("Failed to remove article from series");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selectedSeries) return;
+
+    setSaving(true);
+    try {
+      await deleteSeries(selectedSeries);
+      setSeriesList((prev) => prev.filter((s) => s.id !== selectedSeries.id));
+      setSelectedId(undefined);
+      onChange?.();
+      toast.success("Series deleted. Its articles were kept.");
+    } catch (error) {
+      console.error("Error deleting series:", error);
+      toast.error("Failed to delete series");
+    } finally {
+      setSaving(false);
+      setConfirmDelete(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-4xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-blue-600 to-purple-600 px-6 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <div className="bg-white/20 p-2 rounded-lg">
+                <Layers className="h-5 w-5 text-white" />
+              </div>
+              <div>
+                <h2 className="text-lg font-semibold text-white">
+                  Manage Series
+                </h2>
+                <p className="text-blue-100 text-sm">
+                  Group articles into ordered, multi-part series
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-white/80 hover:text-white p-1 rounded-lg hover:bg-white/10 transition-colors"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-6">
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="h-6 w-6 animate-spin text-blue-600" />
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              {/* Series List & Create Form */}
+              <div className="space-y-4">
+                <div className="space-y-1">
+                  {seriesList.length === 0 ? (
+                    <p className="text-sm text-gray-500">
+                      You haven't created any series yet.
+                    </p>
+                  ) : (
+                    seriesList.map((series) => (
+                      <button
+                        key={series.id}
+                        onClick={() => setSelectedId(series.id)}
+                        className={`w-full text-left px-3 py-2 rounded-lg text-sm transition-colors ${
+                          series.id === selectedId
+                            ? "bg-indigo-50 text-indigo-800 font-medium"
+                            : "text-gray-700 hover:bg-gray-50"
+                        }`}
+                      >
+                        <span className="block truncate">{series.title}</span>
+                        <span className="text-xs text-gray-500">
+                          {series.articleIds.length}{" "}
+                          {series.articleIds.length === 1 ? "part" : "parts"}
+                        </span>
+                      </button>
+                    ))
+                  )}
+                </div>
+
+                <div className="border-t border-gray-200 pt-4 space-y-2">
+                  <p className="text-sm font-medium text-gray-700">New series</p>
+                  <input
+                    type="text"
+                    value={newTitle}
+                    onChange={(e) => setNewTitle(e.target.value)}
+                    placeholder="Series title"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+                  />
+                  <textarea
+                    value={newDescription}
+                    onChange={(e) => setNewDescription(e.target.value)}
+                    placeholder="Short description (optional)"
+                    rows={2}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+                  />
+                  <button
+                    onClick={handleCreate}
+                    disabled={saving || !newTitle.trim()}
+                    className="w-full flex items-center justify-center space-x-2 px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 text-sm"
+                  >
+                    <Plus className="h-4 w-4" />
+                    <span>Create Series</span>
+                  </button>
+                </div>
+              </div>
+
+              {/* Selected Series */}
+              <div className="md:col-span-2">
+                {!selectedSeries ? (
+                  <div className="h-full flex items-center justify-center text-center text-gray-500 text-sm border border-dashed border-gray-300 rounded-xl p-8">
+                    Select or create a series to manage its parts.
+                  </div>
+                ) : (
+                  <div className="space-y-4">
+                    <div className="space-y-2">
+                      <input
+                        type="text"
+                        value={editTitle}
+                        onChange={(e) => setEditTitle(e.target.value)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent font-medium"
+                      />
+                      <textarea
+                        value={editDescription}
+                        onChange={(e) => setEditDescription(e.target.value)}
+                        placeholder="Short description (optional)"
+                        rows={2}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+                      />
+                      <div className="flex items-center justify-between">
+                        {confirmDelete ? (
+                          <div className="flex items-center space-x-2">
+                            <span className="text-sm text-red-600">
+                              Delete this series?
+                            </span>
+                            <button
+                              onClick={handleDelete}
+                              disabled={saving}
+                              className="px-3 py-1 bg-red-600 text-white rounded text-xs hover:bg-red-700 disabled:opacity-50"
+                            >
+                              Confirm
+                            </button>
+                            <button
+                              onClick={() => setConfirmDelete(false)}
+                              className="px-3 py-1 bg-gray-200 text-gray-700 rounded text-xs hover:bg-gray-300"
+                            >
+                              Cancel
+                            </button>
+                          </div>
+                        ) : (
+                          <button
+                            onClick={() => setConfirmDelete(true)}
+                            className="flex items-center space-x-1 text-sm text-red-600 hover:text-red-800"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                            <span>Delete series</span>
+                          </button>
+                        )}
+                        <button
+                          onClick={handleSaveDetails}
+                          disabled={
+                            saving ||
+                            !editTitle.trim() ||
+                            (editTitle.trim() === selectedSeries.title &&
+                              editDescription.trim() === selectedSeries.description)
+                          }
+                          className="flex items-center space-x-2 px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 text-sm"
+                        >
+                          <Save className="h-4 w-4" />
+                          <span>Save Details</span>
+                        </button>
+                      </div>
+                    </div>
+
+                    {/* Ordered Parts */}
+                    <div className="border-t border-gray-200 pt-4">
+                      <h3 className="text-sm font-semibold text-gray-900 mb-2">
+                        Reading order
+                      </h3>
+                      {loadingParts ? (
+                        <div className="flex items-center justify-center py-6">
+                          <Loader2 className="h-5 w-5 animate-spin text-blue-600" />
+                        </div>
+                      ) : parts.length === 0 ? (
+                        <p className="text-sm text-gray-500">
+                          No articles yet. Add an article to this series from
+                          the article editor.
+                        </p>
+                      ) : (
+                        <ol className="space-y-2">
+                          {parts.map((part, index) => (
+                            <li
+                              key={part.id}
+                              className="flex items-center space-x-3 p-3 bg-gray-50 rounded-lg"
+                            >
+                              <span className="w-6 text-sm font-medium text-gray-500">
+                                {index + 1}.
+                              </span>
+                              <div className="flex-1 min-w-0">
+                                <p className="text-sm font-medium text-gray-900 truncate">
+                                  {part.title}
+                                </p>
+                                {part.status !== "published" && (
+                                  <p className="text-xs text-gray-500 capitalize">
+                                    {part.status.replace("_", " ")} · hidden
+                                    from readers until published
+                                  </p>
+                                )}
+                              </div>
+                              <button
+                                onClick={() => handleMove(index, -1)}
+                                disabled={index === 0}
+                                className="p-1 text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                                title="Move up"
+                              >
+                                <ArrowUp className="h-4 w-4" />
+                              </button>
+                              <button
+                                onClick={() => handleMove(index, 1)}
+                                disabled={index === parts.length - 1}
+                                className="p-1 text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                                title="Move down"
+                              >
+                                <ArrowDown className="h-4 w-4" />
+                              </button>
+                              <button
+                                onClick={() => handleRemovePart(part)}
+                                disabled={saving}
+                                className="p-1 text-gray-400 hover:text-red-600 disabled:opacity-30"
+                                title="Remove from series"
+                              >
+                                <X className="h-4 w-4" />
+                              </button>
+                            </li>
+                          ))}
+                        </ol>
+                      )}
+                    </div>
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="bg-gray-50 px-6 py-4 flex items-center justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-600 hover:text-gray-800 transition-colors"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
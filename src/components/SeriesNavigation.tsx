@@ -0,0 +1,110 @@
+// src/components/SeriesNavigation.tsx
+import React from "react";
+import { Link } from "react-router-dom";
+import { Layers, ChevronLeft, ChevronRight } from "lucide-react";
+import { Article, getArticlePath } from "../lib/articles";
+import { ArticleSeries, SeriesPosition } from "../lib/series";
+
+interface SeriesNavigationProps {
+  series: ArticleSeries;
+  articles: Article[]; // Published parts in reading order
+  currentArticleId: string;
+  position: SeriesPosition | null;
+}
+
+export const SeriesNavigation: React.FC<SeriesNavigationProps> = ({
+  series,
+  articles,
+  currentArticleId,
+  position,
+}) => {
+  if (articles.length === 0) return null;
+
+  return (
+    <div className="bg-indigo-50/60 border border-indigo-100 rounded-2xl p-6">
+      {/* Header */}
+      <div className="flex items-start justify-between mb-4">
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-wide text-indigo-600 flex items-center">
+            <Layers className="h-4 w-4 mr-1" />
+            Series
+          </p>
+          <h3 className="text-lg font-semibold text-gray-900 mt-1">
+            {series.title}
+          </h3>
+          {series.description && (
+            <p className="text-sm text-gray-600 mt-1">{series.description}</p>
+          )}
+        </div>
+        {position && (
+          <span className="flex-shrink-0 ml-4 px-3 py-1 bg-indigo-100 text-indigo-800 text-sm font-medium rounded-full">
+            Part {position.index + 1} of {position.total}
+          </span>
+        )}
+      </div>
+
+      {/* Table of Contents */}
+      <ol className="space-y-1 mb-4">
+        {articles.map((part, index) => {
+          const isCurrent = part.id === currentArticleId;
+          return (
+            <li key={part.id}>
+              {isCurrent ? (
+                <div className="flex items-center px-3 py-2 rounded-lg bg-white border border-indigo-200 text-sm font-medium text-indigo-900">
+                  <span className="w-6 text-indigo-600">{index + 1}.</span>
+                  <span className="truncate">{part.title}</span>
+                </div>
+              ) : (
+                <Link
+                  to={getArticlePath(part)}
+                  className="flex items-center px-3 py-2 rounded-lg text-sm text-gray-700 hover:bg-white hover:text-indigo-700 transition-colors"
+                >
+                  <span className="w-6 text-gray-400">{index + 1}.</span>
+                  <span className="truncate">{part.title}</span>
+                </Link>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+
+      {/* Previous / Next */}
+      {position && (position.previous || position.next) && (
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            {position.previous && (
+              <Link
+                to={getArticlePath(position.previous)}
+                className="flex items-center h-full p-3 bg-white border border-gray-200 rounded-lg hover:border-indigo-300 hover:shadow-sm transition-all group"
+              >
+                <ChevronLeft className="h-5 w-5 text-gray-400 group-hover:text-indigo-600 flex-shrink-0" />
+                <div className="ml-2 min-w-0">
+                  <p className="text-xs text-gray-500">Previous</p>
+                  <p className="text-sm font-medium text-gray-900 truncate">
+                    {position.previous.title}
+                  </p>
+                </div>
+              </Link>
+            )}
+          </div>
+          <div>
+            {position.next && (
+              <Link
+                to={getArticlePath(position.next)}
+                className="flex items-center justify-end h-full p-3 bg-white border border-gray-200 rounded-lg hover:border-indigo-300 hover:shadow-sm transition-all group text-right"
+              >
+                <div className="mr-2 min-w-0">
+                  <p className="text-xs text-gray-500">Next</p>
+                  <p className="text-sm font-medium text-gray-900 truncate">
+                    {position.next.title}
+                  </p>
+                </div>
+                <ChevronRight className="h-5 w-5 text-gray-400 group-hover:text-indigo-600 flex-shrink-0" />
+              </Link>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
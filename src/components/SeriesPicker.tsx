@@ -0,0 +1,107 @@
+// src/components/SeriesPicker.tsx
+import React, { useState, useEffect, useCallback, useRef } from "react";
+import { Layers, Settings2 } from "lucide-react";
+import toast from "react-hot-toast";
+import { ArticleSeries, getUserSeries } from "../lib/series";
+import { SeriesManager } from "./SeriesManager";
+
+interface SeriesPickerProps {
+  articleId?: string; // Unset for articles that have not been saved yet
+  seriesId?: string;
+  authorId: string;
+  authorName: string;
+  onChange: (seriesId: string | undefined) => void;
+}
+
+export const SeriesPicker: React.FC<SeriesPickerProps> = ({
+  articleId,
+  seriesId,
+  authorId,
+  authorName,
+  onChange,
+}) => {
+  const [seriesList, setSeriesList] = useState<ArticleSeries[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showManager, setShowManager] = useState(false);
+
+  // Read the latest selection without reloading the list on every change
+  const selectionRef = useRef({ seriesId, onChange });
+  selectionRef.current = { seriesId, onChange };
+
+  const loadSeries = useCallback(async () => {
+    try {
+      const list = await getUserSeries(authorId);
+      setSeriesList(list);
+
+      // The selected series may have been deleted from Manage Series
+      const { seriesId: selectedId, onChange: notify } = selectionRef.current;
+      if (selectedId && !list.some((series) => series.id === selectedId)) {
+        notify(undefined);
+      }
+    } catch (error) {
+      console.error("Error loading series:", error);
+      toast.error("Failed to load series");
+    } finally {
+      setLoading(false);
+    }
+  }, [authorId]);
+
+  useEffect(() => {
+    loadSeries();
+  }, [loadSeries]);
+
+  const selectedSeries = seriesList.find((series) => series.id === seriesId);
+
+  return (
+    <div className="bg-white rounded-2xl p-6 border border-gray-200">
+      <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+        <Layers className="h-5 w-5 mr-2" />
+        Series
+      </h3>
+
+      <select
+        value={seriesId || ""}
+        onChange={(e) => onChange(e.target.value || undefined)}
+        disabled={loading}
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm disabled:opacity-50"
+      >
+        <option value="">Not part of a series</option>
+        {seriesList.map((series) => (
+          <option key={series.id} value={series.id}>
+            {series.title}
+          </option>
+        ))}
+      </select>
+
+      {selectedSeries && (
+        <p className="text-sm text-gray-500 mt-2">
+          {articleId && selectedSeries.articleIds.includes(articleId)
+            ? `Part ${selectedSeries.articleIds.indexOf(articleId) + 1} of ${
+                selectedSeries.articleIds.length
+              }. `
+            : `Saved as part ${selectedSeries.articleIds.length + 1}. `}
+          Change the order from Manage Series.
+        </p>
+      )}
+
+      <button
+        type="button"
+        onClick={() => setShowManager(true)}
+        className="mt-3 flex items-center space-x-2 text-sm text-blue-600 hover:text-blue-800"
+      >
+        <Settings2 className="h-4 w-4" />
+        <span>Manage Series</span>
+      </button>
+
+      {showManager && (
+        <SeriesManager
+          authorId={authorId}
+          authorName={authorName}
+          initialSeriesId={seriesId}
+          onClose={() => setShowManager(false)}
+          onChange={loadSeries}
+        />
+      )}
+    </div>
+  );
+};
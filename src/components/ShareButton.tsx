@@ -8,11 +8,13 @@ import {
   shareToLinkedIn,
   shareViaEmail,
   copyToClipboard,
+  getArticleShareUrl,
 } from "../lib/articles";
 import { useAuth } from "../hooks/useAuth";
 
 interface ShareButtonProps {
   articleId: string;
+  articleSlug?: string; // Preferred over the ID for readable links; must be reserved
   articleTitle: string;
   articleUrl?: string;
   className?: string;
@@ -22,6 +24,7 @@ interface ShareButtonProps {
 
 export const ShareButton: React.FC<ShareButtonProps> = ({
   articleId,
+  articleSlug,
   articleTitle,
   articleUrl,
   className = "",
@@ -32,7 +35,12 @@ export const ShareButton: React.FC<ShareButtonProps> = ({
   const [isOpen, setIsOpen] = useState(false);
   const [copied, setCopied] = useState(false);
 
-  const url = articleUrl || `${window.location.origin}/article/${articleId}`;
+  const url =
+    articleUrl || getArticleShareUrl({
+      id: articleId,
+      slug: articleSlug || "",
+      slugReserved: !!articleSlug,
+    });
 
   const handleShare = async (method: "copy" | "twitter" | "facebook" | "linkedin" | "email") => {
     try {
@@ -0,0 +1,56 @@
+// src/components/TableOfContents.tsx
+import React from "react";
+import { ListTree } from "lucide-react";
+import { HeadingOutlineItem } from "../lib/tiptap/utils/headingProcessor";
+
+interface TableOfContentsProps {
+  headings: HeadingOutlineItem[];
+  activeId: string | null;
+  onSelect: (id: string) => void;
+  className?: string;
+}
+
+export const TableOfContents: React.FC<TableOfContentsProps> = ({
+  headings,
+  activeId,
+  onSelect,
+  className = "",
+}) => {
+  if (headings.length === 0) return null;
+
+  // Indent relative to the highest heading level used in the article
+  const topLevel = Math.min(...headings.map((heading) => heading.level));
+
+  return (
+    <nav
+      aria-label="Table of contents"
+      className={`bg-white/90 backdrop-blur-sm rounded-2xl p-5 border border-gray-200 ${className}`}
+    >
+      <h3 className="text-sm font-semibold text-gray-900 mb-3 flex items-center uppercase tracking-wide">
+        <ListTree className="h-4 w-4 mr-2 text-blue-600" />
+        On this page
+      </h3>
+      <ul className="space-y-1 border-l border-gray-200">
+        {headings.map((heading) => {
+          const isActive = heading.id === activeId;
+          return (
+            <li key={heading.id}>
+              <button
+                onClick={() => onSelect(heading.id)}
+                className={`block w-full text-left text-sm py-1 pr-2 -ml-px border-l-2 transition-colors ${
+                  isActive
+                    ? "border-blue-600 text-blue-700 font-medium"
+                    : "border-transparent text-gray-600 hover:text-gray-900 hover:border-gray-300"
+                }`}
+                style={{ paddingLeft: `${0.75 + (heading.level - topLevel) * 0.75}rem` }}
+                aria-current={isActive ? "location" : undefined}
+              >
+                {heading.text}
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </nav>
+  );
+};
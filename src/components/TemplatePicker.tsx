@@ -0,0 +1,199 @@
+// src/components/TemplatePicker.tsx
+import React, { useState, useEffect } from "react";
+import {
+  LayoutTemplate,
+  X,
+  Loader2,
+  Trash2,
+  Building2,
+  User,
+  Folder,
+  Tag,
+} from "lucide-react";
+import toast from "react-hot-toast";
+import {
+  ArticleTemplate,
+  getAvailableTemplates,
+  deleteTemplate,
+} from "../lib/templates";
+
+interface TemplatePickerProps {
+  userId: string;
+  isAdmin: boolean;
+  onSelect: (template: ArticleTemplate) => void;
+  onClose: () => void;
+}
+
+export const TemplatePicker: React.FC<TemplatePickerProps> = ({
+  userId,
+  isAdmin,
+  onSelect,
+  onClose,
+}) => {
+  const [templates, setTemplates] = useState<ArticleTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadTemplates = async () => {
+      try {
+        setTemplates(await getAvailableTemplates(userId));
+      } catch (error) {
+        console.error("Error loading templates:", error);
+        toast.error("Failed to load templates");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadTemplates();
+  }, [userId]);
+
+  const handleDelete = async (template: ArticleTemplate) => {
+    setDeletingId(template.id);
+    try {
+      await deleteTemplate(template.id);
+      setTemplates((prev) => prev.filter((t) => t.id !== template.id));
+      toast.success(`Template "${template.name}" deleted`);
+    } catch (error) {
+      console.error("Error deleting template:", error);
+      toast.error("Failed to delete template");
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  const sections: { title: string; icon: typeof User; items: ArticleTemplate[] }[] = [
+    {
+      title: "Organization templates",
+      icon: Building2,
+      items: templates.filter((t) => t.scope === "organization"),
+    },
+    {
+      title: "My templates",
+      icon: User,
+      items: templates.filter((t) => t.scope === "personal"),
+    },
+  ];
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-3xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-blue-600 to-purple-600 px-6 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <div className="bg-white/20 p-2 rounded-lg">
+                <LayoutTemplate className="h-5 w-5 text-white" />
+              </div>
+              <div>
+                <h2 className="text-lg font-semibold text-white">
+                  Start from Template
+                </h2>
+                <p className="text-blue-100 text-sm">
+                  Prefill the title, categories, tags and content
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-white/80 hover:text-white p-1 rounded-lg hover:bg-white/10 transition-colors"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-6">
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="h-6 w-6 animate-spin text-blue-600" />
+            </div>
+          ) : templates.length === 0 ? (
+            <div className="text-center text-gray-500 text-sm border border-dashed border-gray-300 rounded-xl p-8">
+              No templates yet. Open any article in the editor and use "Save
+              as Template" to create one.
+            </div>
+          ) : (
+            <div className="space-y-6">
+              {sections
+                .filter((section) => section.items.length > 0)
+                .map((section) => (
+                  <div key={section.title}>
+                    <h3 className="text-sm font-semibold text-gray-900 mb-2 flex items-center">
+                      <section.icon className="h-4 w-4 mr-2 text-gray-500" />
+                      {section.title}
+                    </h3>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                      {section.items.map((template) => (
+                        <div
+                          key={template.id}
+                          className="relative border border-gray-200 rounded-xl hover:border-blue-300 hover:shadow-sm transition-all"
+                        >
+                          <button
+                            onClick={() => onSelect(template)}
+                            className="w-full text-left p-4"
+                          >
+                            <p className="font-medium text-gray-900 pr-6">
+                              {template.name}
+                            </p>
+                            {template.description && (
+                              <p className="text-sm text-gray-600 mt-1 line-clamp-2">
+                                {template.description}
+                              </p>
+                            )}
+                            <div className="flex flex-wrap items-center gap-x-3 gap-y-1 mt-2 text-xs text-gray-500">
+                              {template.categories.length > 0 && (
+                                <span className="flex items-center">
+                                  <Folder className="h-3 w-3 mr-1" />
+                                  {template.categories.join(", ")}
+                                </span>
+                              )}
+                              {template.tags.length > 0 && (
+                                <span className="flex items-center">
+                                  <Tag className="h-3 w-3 mr-1" />
+                                  {template.tags.join(", ")}
+                                </span>
+                              )}
+                              {template.scope === "organization" && (
+                                <span>By {template.authorName}</span>
+                              )}
+                            </div>
+                          </button>
+                          {(template.authorId === userId || isAdmin) && (
+                            <button
+                              onClick={() => handleDelete(template)}
+                              disabled={deletingId === template.id}
+                              className="absolute top-3 right-3 p-1 text-gray-400 hover:text-red-600 disabled:opacity-50"
+                              title="Delete template"
+                            >
+                              {deletingId === template.id ? (
+                                <Loader2 className="h-4 w-4 animate-spin" />
+                              ) : (
+                                <Trash2 className="h-4 w-4" />
+                              )}
+                            </button>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="bg-gray-50 px-6 py-4 flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            Start from Scratch
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
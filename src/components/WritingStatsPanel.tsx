@@ -0,0 +1,131 @@
+// src/components/WritingStatsPanel.tsx
+import React, { useDeferredValue, useMemo } from "react";
+import { BarChart3, AlertTriangle, CheckCircle } from "lucide-react";
+import { getWritingStats } from "../utils/writingStats";
+
+interface WritingStatsPanelProps {
+  content: string;
+  className?: string;
+}
+
+// Show only the first few warnings so the sidebar stays short
+const MAX_VISIBLE_ISSUES = 5;
+
+const readabilityColor = (score: number): string => {
+  if (score >= 60) return "text-green-600";
+  if (score >= 30) return "text-yellow-600";
+  return "text-red-600";
+};
+
+export const WritingStatsPanel: React.FC<WritingStatsPanelProps> = ({
+  content,
+  className = "",
+}) => {
+  // Typing stays responsive; stats catch up once the editor is idle
+  const deferredContent = useDeferredValue(content);
+  const stats = useMemo(
+    () => getWritingStats(deferredContent),
+    [deferredContent]
+  );
+
+  const statTiles = [
+    { label: "Words", value: stats.words.toLocaleString() },
+    { label: "Characters", value: stats.characters.toLocaleString() },
+    {
+      label: "Reading time",
+      value: stats.readingTime > 0 ? `${stats.readingTime} min` : "—",
+    },
+    { label: "Paragraphs", value: stats.paragraphs.toLocaleString() },
+  ];
+
+  return (
+    <div className={`bg-white rounded-2xl p-6 border border-gray-200 ${className}`}>
+      <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+        <BarChart3 className="h-5 w-5 mr-2" />
+        Writing Stats
+      </h3>
+
+      <div className="grid grid-cols-2 gap-3 mb-4">
+        {statTiles.map((tile) => (
+          <div key={tile.label} className="bg-gray-50 rounded-lg p-3">
+            <p className="text-xs text-gray-500">{tile.label}</p>
+            <p className="text-lg font-semibold text-gray-900">{tile.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="mb-4">
+        <p className="text-sm font-medium text-gray-700 mb-1">Readability</p>
+        {stats.readability ? (
+          <p className="text-sm">
+            <span
+              className={`font-semibold ${readabilityColor(stats.readability.score)}`}
+            >
+              {stats.readability.score}
+            </span>
+            <span className="text-gray-600"> / 100 · {stats.readability.label}</span>
+          </p>
+        ) : (
+          <p className="text-xs text-gray-500">
+            Write a few more sentences to get a readability score.
+          </p>
+        )}
+      </div>
+
+      <div className="mb-4">
+        <p className="text-sm font-medium text-gray-700 mb-1">Heading structure</p>
+        {stats.headings.length > 0 ? (
+          <ul className="space-y-1 max-h-40 overflow-y-auto">
+            {stats.headings.map((heading, index) => (
+              <li
+                key={index}
+                className="text-xs text-gray-600 truncate"
+                style={{ paddingLeft: `${(heading.level - 1) * 0.75}rem` }}
+                title={heading.text}
+              >
+                <span className="text-gray-400 mr-1">H{heading.level}</span>
+                {heading.text}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-xs text-gray-500">
+            Add headings to give longer articles a clear structure.
+          </p>
+        )}
+      </div>
+
+      <div>
+        <p className="text-sm font-medium text-gray-700 mb-1">Suggestions</p>
+        {stats.issues.length > 0 ? (
+          <ul className="space-y-2">
+            {stats.issues.slice(0, MAX_VISIBLE_ISSUES).map((issue, index) => (
+              <li
+                key={index}
+                className="flex items-start text-xs bg-yellow-50 border border-yellow-200 rounded-lg p-2"
+              >
+                <AlertTriangle className="h-3.5 w-3.5 text-yellow-600 mr-2 mt-0.5 flex-shrink-0" />
+                <div className="min-w-0">
+                  <p className="text-yellow-800">{issue.message}</p>
+                  <p className="text-yellow-700 italic truncate">
+                    “{issue.excerpt}”
+                  </p>
+                </div>
+              </li>
+            ))}
+            {stats.issues.length > MAX_VISIBLE_ISSUES && (
+              <li className="text-xs text-gray-500">
+                and {stats.issues.length - MAX_VISIBLE_ISSUES} more
+              </li>
+            )}
+          </ul>
+        ) : (
+          <p className="flex items-center text-xs text-green-700">
+            <CheckCircle className="h-3.5 w-3.5 mr-1" />
+            No long paragraphs or sentences found.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
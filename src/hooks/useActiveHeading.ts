@@ -0,0 +1,54 @@
+import { useEffect, useState } from 'react';
+
+// Distance from the top of the viewport at which a heading becomes active,
+// leaving room for the fixed navigation bar
+const ACTIVE_OFFSET_PX = 120;
+
+/**
+ * Tracks which heading the reader is currently looking at: the last heading
+ * that has scrolled past the top of the viewport.
+ */
+export const useActiveHeading = (headingIds: string[]): string | null => {
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const idsKey = headingIds.join('|');
+
+  useEffect(() => {
+    const ids = idsKey ? idsKey.split('|') : [];
+    if (ids.length === 0) {
+      setActiveId(null);
+      return;
+    }
+
+    let frame = 0;
+    const updateActiveHeading = () => {
+      frame = 0;
+      let current: string | null = ids[0];
+      for (const id of ids) {
+        const element = document.getElementById(id);
+        if (element && element.getBoundingClientRect().top <= ACTIVE_OFFSET_PX) {
+          current = id;
+        }
+      }
+      setActiveId(current);
+    };
+
+    // Throttle to one update per animation frame
+    const handleScroll = () => {
+      if (!frame) {
+        frame = window.requestAnimationFrame(updateActiveHeading);
+      }
+    };
+
+    updateActiveHeading();
+    window.addEventListener('scroll', handleScroll, { passive: true });
+    window.addEventListener('resize', handleScroll);
+
+    return () => {
+      window.removeEventListener('scroll', handleScroll);
+      window.removeEventListener('resize', handleScroll);
+      if (frame) window.cancelAnimationFrame(frame);
+    };
+  }, [idsKey]);
+
+  return activeId;
+};
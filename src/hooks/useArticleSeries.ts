@@ -0,0 +1,67 @@
+import { useEffect, useState } from 'react';
+import { Article } from '../lib/articles';
+import {
+  ArticleSeries,
+  SeriesPosition,
+  getSeries,
+  getSeriesArticles,
+  getSeriesPosition,
+} from '../lib/series';
+
+interface ArticleSeriesResult {
+  series: ArticleSeries | null;
+  articles: Article[]; // Published parts in reading order
+  position: SeriesPosition | null; // Null when the article is not a listed part
+  loading: boolean;
+}
+
+/**
+ * Loads the series an article belongs to, its published parts and the
+ * article's position within them.
+ */
+export const useArticleSeries = (
+  articleId?: string,
+  seriesId?: string
+): ArticleSeriesResult => {
+  const [series, setSeries] = useState<ArticleSeries | null>(null);
+  const [articles, setArticles] = useState<Article[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    setSeries(null);
+    setArticles([]);
+    if (!seriesId) return;
+
+    let cancelled = false;
+    setLoading(true);
+
+    const loadSeries = async () => {
+      try {
+        const loadedSeries = await getSeries(seriesId);
+        if (!loadedSeries) return;
+
+        const parts = await getSeriesArticles(loadedSeries);
+        if (cancelled) return;
+
+        setSeries(loadedSeries);
+        setArticles(parts);
+      } catch (error) {
+        console.error('Error loading article series:', error);
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    loadSeries();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [seriesId]);
+
+  const position = articleId ? getSeriesPosition(articles, articleId) : null;
+
+  return { series, articles, position, loading };
+};
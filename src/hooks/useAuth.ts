@@ -295,15 +295,18 @@ export const useAuth = () => {
   }, [permissions]);
 
   const canEditArticle = useCallback(
-    (authorId: string, articleStatus?: string): boolean => {
+    (authorId: string, articleStatus?: string, coAuthorIds?: string[]): boolean => {
       if (!userProfile) return false;
 
       // Archived articles cannot be edited by anyone
       if (articleStatus === "archive") return false;
 
-      // Only authors can edit their own articles (including admins editing their own articles)
+      // Only authors and co-authors can edit articles (including admins editing their own articles)
       // This matches the updated Firebase security rules
-      return userProfile.uid === authorId;
+      return (
+        userProfile.uid === authorId ||
+        (coAuthorIds || []).includes(userProfile.uid)
+      );
     },
     [userProfile]
   );
@@ -328,7 +331,7 @@ export const useAuth = () => {
   );
 
   const canReadArticle = useCallback(
-    (articleStatus: string, authorId: string): boolean => {
+    (articleStatus: string, authorId: string, coAuthorIds?: string[]): boolean => {
       // Anyone can read published articles (matches Firebase rules)
       if (articleStatus === "published") {
         return true;
@@ -337,8 +340,9 @@ export const useAuth = () => {
       // Archived articles can only be read by author or admin
       if (articleStatus === "archive") {
         if (!userProfile) return false;
-        // Authors can read their own archived articles
+        // Authors and co-authors can read their own archived articles
         if (userProfile.uid === authorId) return true;
+        if ((coAuthorIds || []).includes(userProfile.uid)) return true;
         // Admins can read all archived articles
         if (userProfile.role === "admin") return true;
         return false;
@@ -352,6 +356,16 @@ export const useAuth = () => {
         return true;
       }
 
+      // Co-authors can read articles they collaborate on (any status)
+      if ((coAuthorIds || []).includes(userProfile.uid)) {
+        return true;
+      }
+
+      // Admins can read articles submitted for editorial review
+      if (articleStatus === "in_review" && userProfile.role === "admin") {
+        return true;
+      }
+
       // No other access allowed (admins cannot read other users' private articles)
       return false;
     },
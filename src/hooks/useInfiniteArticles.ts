@@ -0,0 +1,128 @@
+import {
+  Dispatch,
+  SetStateAction,
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+} from 'react';
+import {
+  Article,
+  ArticleQueryOptions,
+  ArticlesCursor,
+  getArticlesPage,
+} from '../lib/articles';
+
+interface InfiniteArticlesResult {
+  articles: Article[];
+  setArticles: Dispatch<SetStateAction<Article[]>>;
+  loading: boolean; // First page is loading
+  loadingMore: boolean; // A following page is loading
+  hasMore: boolean;
+  loadMore: () => Promise<void>;
+  reload: () => void;
+}
+
+/**
+ * Loads articles page by page using the cursor returned by getArticlesPage.
+ * Changing the query options starts again from the first page.
+ */
+export const useInfiniteArticles = (
+  options: ArticleQueryOptions,
+  pageSize = 12,
+  enabled = true
+): InfiniteArticlesResult => {
+  const [articles, setArticles] = useState<Article[]>([]);
+  // Nothing is loading while disabled, so callers don't wait on a spinner
+  const [loading, setLoading] = useState(enabled);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  const cursorRef = useRef<ArticlesCursor | null>(null);
+  const loadingMoreRef = useRef(false);
+  // Incremented on every reset so responses from a previous query are ignored
+  const requestIdRef = useRef(0);
+
+  // Compare options by value so callers can pass inline objects
+  const optionsKey = JSON.stringify(options);
+
+  useEffect(() => {
+    if (!enabled) {
+      // Forget any request in flight from before the hook was disabled
+      requestIdRef.current++;
+      setLoading(false);
+      setLoadingMore(false);
+      return;
+    }
+
+    const requestId = ++requestIdRef.current;
+    cursorRef.current = null;
+    loadingMoreRef.current = false;
+    setLoading(true);
+    setLoadingMore(false);
+
+    const loadFirstPage = async () => {
+      try {
+        const page = await getArticlesPage({
+          ...(JSON.parse(optionsKey) as ArticleQueryOptions),
+          pageSize,
+        });
+        if (requestId !== requestIdRef.current) return;
+
+        cursorRef.current = page.cursor;
+        setArticles(page.articles);
+        setHasMore(page.hasMore);
+      } catch (error) {
+        if (requestId !== requestIdRef.current) return;
+        console.error('Error loading articles:', error);
+        setArticles([]);
+        setHasMore(false);
+      } finally {
+        if (requestId === requestIdRef.current) {
+          setLoading(false);
+        }
+      }
+    };
+
+    loadFirstPage();
+  }, [optionsKey, pageSize, enabled, reloadKey]);
+
+  const loadMore = useCallback(async () => {
+    if (!cursorRef.current || loadingMoreRef.current) return;
+
+    const requestId = requestIdRef.current;
+    loadingMoreRef.current = true;
+    setLoadingMore(true);
+
+    try {
+      const page = await getArticlesPage({
+        ...(JSON.parse(optionsKey) as ArticleQueryOptions),
+        pageSize,
+        cursor: cursorRef.current,
+      });
+      if (requestId !== requestIdRef.current) return;
+
+      cursorRef.current = page.cursor;
+      setArticles((prev) => [
+        ...prev,
+        ...page.articles.filter(
+          (article) => !prev.some((existing) => existing.id === article.id)
+        ),
+      ]);
+      setHasMore(page.hasMore);
+    } catch (error) {
+      console.error('Error loading more articles:', error);
+      setHasMore(false);
+    } finally {
+      if (requestId === requestIdRef.current) {
+        loadingMoreRef.current = false;
+        setLoadingMore(false);
+      }
+    }
+  }, [optionsKey, pageSize]);
+
+  const reload = useCallback(() => setReloadKey((prev) => prev + 1), []);
+
+  return { articles, setArticles, loading, loadingMore, hasMore, loadMore, reload };
+};
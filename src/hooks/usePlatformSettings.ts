@@ -0,0 +1,61 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  PlatformSettings,
+  DEFAULT_PLATFORM_SETTINGS,
+  getPlatformSettings,
+  updatePlatformSettings,
+} from '../lib/platformSettings';
+
+interface PlatformSettingsResult {
+  settings: PlatformSettings; // Defaults until loaded or when loading failed
+  loading: boolean;
+  loaded: boolean; // The settings were read, so they aren't just the defaults
+  updateSettings: (
+    updates: Partial<Omit<PlatformSettings, 'updatedAt' | 'updatedBy'>>,
+    adminId: string
+  ) => Promise<void>;
+}
+
+/**
+ * Loads the platform-wide settings once and keeps a local copy in sync
+ * with updates made through this hook. If they can't be read, settings
+ * keep the defaults and loaded stays false.
+ */
+export const usePlatformSettings = (): PlatformSettingsResult => {
+  const [settings, setSettings] = useState<PlatformSettings>(
+    DEFAULT_PLATFORM_SETTINGS
+  );
+  const [loading, setLoading] = useState(true);
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getPlatformSettings()
+      .then((loadedSettings) => {
+        if (cancelled) return;
+        setSettings(loadedSettings);
+        setLoaded(true);
+      })
+      .catch(() => {
+        // Already logged; keep the defaults
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const updateSettings = useCallback<PlatformSettingsResult['updateSettings']>(
+    async (updates, adminId) => {
+      await updatePlatformSettings(updates, adminId);
+      setSettings((prev) => ({ ...prev, ...updates, updatedBy: adminId }));
+    },
+    []
+  );
+
+  return { settings, loading, loaded, updateSettings };
+};
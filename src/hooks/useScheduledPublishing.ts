@@ -0,0 +1,46 @@
+import { useEffect, useRef } from 'react';
+import { publishDueScheduledArticles } from '../lib/articles';
+
+// How often to look for scheduled articles that are due
+const CHECK_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Publishes scheduled articles once their scheduled time has arrived.
+ * Runs on mount and then periodically while the calling page is open.
+ * Pass an authorId to only check that author's articles.
+ *
+ * There is no server-side job: a due article goes live the next time a
+ * signed-in user opens a page that uses this hook, so it can go live later
+ * than scheduled when nobody visits. Readers see it from then on; its
+ * publishedAt is the time it actually went live.
+ */
+export const useScheduledPublishing = (
+  authorId?: string,
+  enabled = true,
+  onPublished?: (count: number) => void
+): void => {
+  // Keep the latest callback without restarting the interval
+  const onPublishedRef = useRef(onPublished);
+  onPublishedRef.current = onPublished;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const checkScheduledArticles = async () => {
+      try {
+        const publishedCount = await publishDueScheduledArticles(authorId);
+        if (publishedCount > 0) {
+          onPublishedRef.current?.(publishedCount);
+        }
+      } catch (error) {
+        // Publishing is retried on the next check
+        console.error('Error checking scheduled articles:', error);
+      }
+    };
+
+    checkScheduledArticles();
+    const intervalId = setInterval(checkScheduledArticles, CHECK_INTERVAL_MS);
+
+    return () => clearInterval(intervalId);
+  }, [authorId, enabled]);
+};
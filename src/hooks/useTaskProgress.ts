@@ -0,0 +1,66 @@
+import { useEffect, useMemo, useState } from 'react';
+import toast from 'react-hot-toast';
+import {
+  TaskProgress,
+  subscribeToTaskProgress,
+  setTaskChecked,
+  resetTaskProgress,
+} from '../lib/taskProgress';
+import { getTaskListItems } from '../lib/tiptap/utils/taskListProcessor';
+
+interface TaskProgressResult {
+  progress: TaskProgress | null; // Null while loading or when the reader can't tick items
+  total: number;
+  completed: number;
+  toggleTask: (taskId: string, checked: boolean) => void;
+  resetTasks: () => void;
+}
+
+/**
+ * Tracks a signed-in reader's ticks on the checklists of an article. Items
+ * the reader hasn't ticked or unticked count as the author left them.
+ */
+export const useTaskProgress = (
+  renderedContent: string,
+  articleId?: string,
+  userId?: string
+): TaskProgressResult => {
+  const [progress, setProgress] = useState<TaskProgress | null>(null);
+  const items = useMemo(() => getTaskListItems(renderedContent), [renderedContent]);
+  const hasTasks = items.length > 0;
+
+  useEffect(() => {
+    setProgress(null);
+    if (!articleId || !userId || !hasTasks) return;
+
+    return subscribeToTaskProgress(userId, articleId, setProgress);
+  }, [articleId, userId, hasTasks]);
+
+  const completed = useMemo(
+    () => items.filter((item) => (progress?.[item.id] ?? item.checked)).length,
+    [items, progress]
+  );
+
+  const toggleTask = (taskId: string, checked: boolean) => {
+    if (!articleId || !userId || !progress) return;
+
+    // Show the tick right away; the subscription confirms it
+    setProgress((current) => current && { ...current, [taskId]: checked });
+    setTaskChecked(userId, articleId, taskId, checked).catch((error) => {
+      console.error('Error updating checklist item:', error);
+      toast.error('Failed to save your checklist progress');
+      setProgress((current) => current && { ...current, [taskId]: !checked });
+    });
+  };
+
+  const resetTasks = () => {
+    if (!articleId || !userId) return;
+
+    resetTaskProgress(userId, articleId).catch((error) => {
+      console.error('Error resetting checklist:', error);
+      toast.error('Failed to reset the checklist');
+    });
+  };
+
+  return { progress, total: items.length, completed, toggleTask, resetTasks };
+};
@@ -0,0 +1,42 @@
+import { useEffect, useRef } from 'react';
+import { purgeExpiredTrash } from '../lib/articles';
+
+// How often to look for trashed articles past their retention period
+const CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Permanently deletes trashed articles once the retention period has ended.
+ * Runs on mount and then periodically while the admin dashboard is open, so
+ * only enable it for admins. Leave retentionDays unset until the platform
+ * settings have loaded.
+ */
+export const useTrashPurge = (
+  retentionDays: number | undefined,
+  enabled = true,
+  onPurged?: (count: number) => void
+): void => {
+  // Keep the latest callback without restarting the interval
+  const onPurgedRef = useRef(onPurged);
+  onPurgedRef.current = onPurged;
+
+  useEffect(() => {
+    if (!enabled || retentionDays === undefined) return;
+
+    const purgeTrash = async () => {
+      try {
+        const purgedCount = await purgeExpiredTrash(retentionDays);
+        if (purgedCount > 0) {
+          onPurgedRef.current?.(purgedCount);
+        }
+      } catch (error) {
+        // Purging is retried on the next check
+        console.error('Error purging expired trash:', error);
+      }
+    };
+
+    purgeTrash();
+    const intervalId = setInterval(purgeTrash, CHECK_INTERVAL_MS);
+
+    return () => clearInterval(intervalId);
+  }, [retentionDays, enabled]);
+};
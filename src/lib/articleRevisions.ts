@@ -0,0 +1,157 @@
+// src/lib/articleRevisions.ts
+import {
+  collection,
+  doc,
+  setDoc,
+  getDoc,
+  getDocs,
+  query,
+  orderBy,
+  limit,
+  Timestamp,
+} from "firebase/firestore";
+import { firestore } from "./firebase";
+import { Article } from "./articles";
+
+export interface ArticleRevision {
+  id: string;
+  articleId: string;
+  title: string;
+  content: string;
+  excerpt: string;
+  tags: string[];
+  categories: string[];
+  status: Article["status"];
+  editorId: string;
+  editorName: string;
+  createdAt: Date;
+  isInitial?: boolean; // Content from before revisions were kept
+  createdBy?: string; // Who recorded an initial revision
+}
+
+export type RevisionSnapshot = Pick<
+  Article,
+  "title" | "content" | "excerpt" | "tags" | "categories" | "status"
+>;
+
+const revisionsCollection = (articleId: string) =>
+  collection(firestore, "articles", articleId, "revisions");
+
+// The first revision of an article saved before revisions were kept. Its
+// fixed ID means it can only be recorded once.
+const INITIAL_REVISION_ID = "initial";
+
+const toRevisionData = (
+  revisionId: string,
+  articleId: string,
+  snapshot: RevisionSnapshot,
+  editorId: string,
+  editorName: string,
+  createdAt: Date
+) => ({
+  id: revisionId,
+  articleId,
+  title: snapshot.title || "",
+  content: snapshot.content || "",
+  excerpt: snapshot.excerpt || "",
+  tags: snapshot.tags || [],
+  categories: snapshot.categories || [],
+  status: snapshot.status || "draft",
+  editorId,
+  editorName,
+  createdAt: Timestamp.fromDate(createdAt),
+});
+
+// Record a revision of an article (called on every save from the editor)
+export const createArticleRevision = async (
+  articleId: string,
+  snapshot: RevisionSnapshot,
+  editorId: string,
+  editorName: string
+): Promise<string> => {
+  try {
+    const revisionRef = doc(revisionsCollection(articleId));
+
+    await setDoc(
+      revisionRef,
+      toRevisionData(revisionRef.id, articleId, snapshot, editorId, editorName, new Date())
+    );
+
+    return revisionRef.id;
+  } catch (error) {
+    console.error("Error creating article revision:", error);
+    throw error;
+  }
+};
+
+// Record the content of an article saved before revisions were kept, so its
+// first edit can be compared and restored. Attributed to the author as of the
+// article's last update, with the user who recorded it in createdBy; does
+// nothing once the article has revisions.
+export const createInitialArticleRevision = async (
+  article: Article,
+  createdBy: string
+): Promise<void> => {
+  try {
+    const existing = await getDocs(query(revisionsCollection(article.id), limit(1)));
+    if (!existing.empty) return;
+
+    await setDoc(doc(revisionsCollection(article.id), INITIAL_REVISION_ID), {
+      ...toRevisionData(
+        INITIAL_REVISION_ID,
+        article.id,
+        article,
+        article.authorId,
+        article.authorName,
+        article.updatedAt
+      ),
+      isInitial: true,
+      createdBy,
+    });
+  } catch (error) {
+    console.error("Error creating initial article revision:", error);
+    throw error;
+  }
+};
+
+// Get all revisions for an article (newest first)
+export const getArticleRevisions = async (
+  articleId: string
+): Promise<ArticleRevision[]> => {
+  try {
+    const q = query(revisionsCollection(articleId), orderBy("createdAt", "desc"));
+    const snapshot = await getDocs(q);
+
+    return snapshot.docs.map((docSnap) => {
+      const data = docSnap.data();
+      return {
+        ...data,
+        id: docSnap.id,
+        createdAt: data.createdAt?.toDate() || new Date(),
+      } as ArticleRevision;
+    });
+  } catch (error) {
+    console.error("Error getting article revisions:", error);
+    throw error;
+  }
+};
+
+// Get a single revision
+export const getArticleRevision = async (
+  articleId: string,
+  revisionId: string
+): Promise<ArticleRevision | null> => {
+  const revisionRef = doc(firestore, "articles", articleId, "revisions", revisionId);
+  const docSnap = await getDoc(revisionRef);
+
+  if (docSnap.exists()) {
+    const data = docSnap.data();
+    return {
+      ...data,
+      id: docSnap.id,
+      createdAt: data.createdAt?.toDate() || new Date(),
+    } as ArticleRevision;
+  }
+
+  return null;
+};
@@ -8,24 +8,42 @@ import {
   getDocs,
   query,
   where,
+  or,
+  and,
   orderBy,
   limit,
+  startAfter,
+  getCountFromServer,
+  runTransaction,
+  onSnapshot,
   Timestamp,
+  serverTimestamp,
   increment,
+  arrayRemove,
+  arrayUnion,
+  Query,
+  QueryDocumentSnapshot,
+  QueryFilterConstraint,
+  DocumentData,
+  FirestoreError,
+  Transaction,
 } from "firebase/firestore";
-import { firestore } from "./firebase";
+import { auth, firestore } from "./firebase";
 import {
   deleteFile,
   extractFilePathFromUrl,
   deleteArticleFolder,
 } from "./fileUpload";
+import { estimateReadingTime } from "../utils/writingStats";
 
 export type ArticleStatus =
   | "draft"
   | "published"
   | "unpublished"
   | "deleted"
-  | "archive";
+  | "archive"
+  | "scheduled"
+  | "in_review";
 
 export interface AttachmentMetadata {
   url: string;
@@ -35,6 +53,11 @@ export interface AttachmentMetadata {
   uploadedAt?: Date;
 }
 
+export interface ArticleCoAuthor {
+  uid: string;
+  displayName: string;
+}
+
 export interface Article {
   id: string;
   title: string;
@@ -43,13 +66,28 @@ export interface Article {
   status: ArticleStatus;
   authorId: string;
   authorName: string;
+  // Co-authors can edit the article; only the primary author manages this list
+  coAuthors?: ArticleCoAuthor[];
+  coAuthorIds?: string[]; // Mirrors coAuthors for queries and security rules
   categories: string[];
   tags: string[];
   createdAt: Date;
   updatedAt: Date;
   publishedAt?: Date;
+  scheduledFor?: Date; // When a "scheduled" article goes live
+  // Editorial review fields
+  submittedForReviewAt?: Date;
+  reviewNote?: string; // Changes requested by the reviewer
+  reviewedBy?: string;
+  reviewedByName?: string;
+  reviewedAt?: Date;
+  // Series membership; the order lives on the series document
+  seriesId?: string;
+  seriesTitle?: string;
   slug: string;
+  slugReserved?: boolean; // False for legacy slugs with no slugs/ document yet
   coverImage?: string;
+  readingTime?: number; // Minutes, computed from the content on save
   views?: number;
   shareCount?: number;
   attachments?: string[]; // Legacy: URLs only (for backward compatibility)
@@ -61,30 +99,98 @@ export interface Article {
   deletedAt?: Date;
   deletedBy?: string; // "admin" or "infowriter"
   deletedByUserId?: string;
+  deletedByName?: string;
   deleteReason?: string;
   isDeleted?: boolean;
+  statusBeforeDeletion?: ArticleStatus; // Restored when the article leaves the trash
+  trashedAt?: Date; // When the article entered the trash; retention counts from here
 }
 
+// Check whether a user is the primary author or a co-author of an article
+export const isArticleCollaborator = (
+  article: Pick<Article, "authorId" | "coAuthorIds">,
+  uid?: string
+): boolean => {
+  if (!uid) return false;
+  return article.authorId === uid || (article.coAuthorIds || []).includes(uid);
+};
+
 const generateSlug = (title: string): string => {
   return title
     .toLowerCase()
     .replace(/[^a-z0-9 -]/g, "")
     .replace(/\s+/g, "-")
     .replace(/-+/g, "-")
-    .trim();
+    .replace(/^-|-$/g, "");
+};
+
+// Slugs that would clash with the article/new and article/edit routes
+const RESERVED_SLUGS = ["new", "edit"];
+
+// Claim a unique slug for an article in the slugs collection, adding a
+// numeric suffix on collisions (my-title, my-title-2, my-title-3, ...).
+// Slug documents are never reassigned, so a previous slug keeps pointing at
+// its article and old links redirect after a rename. writeArticle saves the
+// article in the same transaction, so a slug is never claimed without it.
+const reserveArticleSlug = async (
+  title: string,
+  articleId: string,
+  writeArticle?: (transaction: Transaction, slug: string) => void
+): Promise<string> => {
+  const base = generateSlug(title) || "article";
+
+  return runTransaction(firestore, async (transaction) => {
+    for (let suffix = 1; ; suffix++) {
+      const candidate = suffix === 1 ? base : `${base}-${suffix}`;
+      if (RESERVED_SLUGS.includes(candidate)) continue;
+
+      const slugRef = doc(firestore, "slugs", candidate);
+      const slugSnap = await transaction.get(slugRef);
+      if (!slugSnap.exists()) {
+        writeArticle?.(transaction, candidate);
+        transaction.set(slugRef, {
+          articleId,
+          createdAt: Timestamp.fromDate(new Date()),
+        });
+        return candidate;
+      }
+      if (slugSnap.data().articleId === articleId) {
+        writeArticle?.(transaction, candidate);
+        return candidate;
+      }
+    }
+  });
 };
 
+// URL segment for an article. Legacy articles use their ID until their slug
+// is reserved, as another article could still claim it.
+export const getArticleSlugOrId = (
+  article: Pick<Article, "id" | "slug" | "slugReserved">
+): string => (article.slugReserved && article.slug ? article.slug : article.id);
+
+// Path of an article within the app
+export const getArticlePath = (
+  article: Pick<Article, "id" | "slug" | "slugReserved">
+): string => `/article/${getArticleSlugOrId(article)}`;
+
+// Absolute link to an article for sharing. The app uses hash routing, so the
+// article path goes after the "#".
+export const getArticleShareUrl = (
+  article: Pick<Article, "id" | "slug" | "slugReserved">
+): string =>
+  `${window.location.origin}${import.meta.env.BASE_URL}#${getArticlePath(article)}`;
+
 export const createArticle = async (
   article: Omit<Article, "id" | "createdAt" | "updatedAt" | "slug">
 ): Promise<string> => {
   try {
     const docRef = doc(collection(firestore, "articles"));
-    const slug = generateSlug(article.title);
 
-    const newArticle: Article = {
+    const newArticle: Omit<Article, "slug"> = {
       ...article,
       id: docRef.id,
-      slug,
+      slugReserved: true,
+      readingTime: estimateReadingTime(article.content),
       createdAt: new Date(),
       updatedAt: new Date(),
       likes: 0,
@@ -105,7 +211,20 @@ export const createArticle = async (
       firestoreData.publishedAt = null;
     }
 
-    await setDoc(docRef, firestoreData);
+    // Only include scheduledFor if it exists, otherwise set to null
+    if (newArticle.scheduledFor) {
+      firestoreData.scheduledFor = Timestamp.fromDate(newArticle.scheduledFor);
+    } else {
+      firestoreData.scheduledFor = null;
+    }
+
+    await reserveArticleSlug(article.title, docRef.id, (transaction, slug) => {
+      transaction.set(docRef, { ...firestoreData, slug });
+    });
+
+    if (article.status === "published") {
+      await recordPublishedTaxonomy(article.categories, article.tags);
+    }
 
     return docRef.id;
   } catch (error) {
@@ -130,16 +249,35 @@ export const updateArticle = async (
   // Prepare update data, filtering out undefined values
   const updatedData: any = {
     updatedAt: Timestamp.fromDate(new Date()),
-    slug: updates.title ? generateSlug(updates.title) : currentData.slug,
   };
 
-  // Only include defined fields from updates
+  // Only a title change that alters the slug claims a new one; the old slug
+  // stays reserved for this article so existing links redirect. A legacy
+  // slug is reserved as is, or with a suffix if another article has it.
+  let slugSource: string | null = null;
+  if (
+    updates.title &&
+    (!currentData.slug ||
+      generateSlug(updates.title) !== generateSlug(currentData.title || ""))
+  ) {
+    slugSource = updates.title;
+  } else if (updates.title && currentData.slug && !currentData.slugReserved) {
+    slugSource = currentData.slug;
+  }
+
+  // Only include defined fields from updates. Slugs are only set by the
+  // reservation below, so a caller can't point the article at another slug.
   Object.keys(updates).forEach((key) => {
+    if (key === "slug" || key === "slugReserved") return;
     if (updates[key as keyof typeof updates] !== undefined) {
       updatedData[key] = updates[key as keyof typeof updates];
     }
   });
 
+  if (updates.content !== undefined) {
+    updatedData.readingTime = estimateReadingTime(updates.content);
+  }
+
   // Handle publishedAt specifically
   if (updates.status === "published" && currentData.status !== "published") {
     // When publishing for the first time, set publishedAt to current time
@@ -153,7 +291,200 @@ export const updateArticle = async (
     updatedData.publishedAt = null;
   }
 
-  await updateDoc(articleRef, updatedData);
+  // Handle scheduledFor specifically - it only applies while scheduled
+  if (updates.scheduledFor && updates.status !== "published") {
+    updatedData.scheduledFor = Timestamp.fromDate(updates.scheduledFor);
+  } else if (updates.status && updates.status !== "scheduled") {
+    updatedData.scheduledFor = null;
+  }
+
+  // A reviewer's change request is resolved once the article is resubmitted or published
+  if (updates.status === "in_review" || updates.status === "published") {
+    updatedData.reviewNote = null;
+  }
+
+  // The article is written in the slug's transaction, so a rejected update
+  // doesn't leave a slug claimed for an article that never used it
+  if (slugSource) {
+    await reserveArticleSlug(slugSource, id, (transaction, slug) => {
+      transaction.update(articleRef, { ...updatedData, slug, slugReserved: true });
+    });
+  } else {
+    await updateDoc(articleRef, updatedData);
+  }
+
+  // Publishing or retagging a published article adds to the search filters
+  if (
+    (updates.status ?? currentData.status) === "published" &&
+    (updates.status !== undefined ||
+      updates.categories !== undefined ||
+      updates.tags !== undefined)
+  ) {
+    await recordPublishedTaxonomy(
+      updates.categories ?? currentData.categories,
+      updates.tags ?? currentData.tags
+    );
+  }
+};
+
+// Schedule an article to be published automatically at a later time
+export const scheduleArticle = async (
+  id: string,
+  scheduledFor: Date
+): Promise<void> => {
+  if (scheduledFor.getTime() <= Date.now()) {
+    throw new Error("Scheduled time must be in the future");
+  }
+
+  await updateArticle(id, { status: "scheduled", scheduledFor });
+};
+
+// Publish every scheduled article whose scheduled time has arrived. Called
+// from the client (see useScheduledPublishing), so it only runs while someone
+// is signed in and has the app open
+export const publishDueScheduledArticles = async (
+  authorId?: string
+): Promise<number> => {
+  try {
+    // Filter by time in memory to avoid a composite index requirement
+    let q = query(
+      collection(firestore, "articles"),
+      where("status", "==", "scheduled")
+    );
+    if (authorId) {
+      q = query(q, where("authorId", "==", authorId));
+    }
+
+    const querySnapshot = await getDocs(q);
+    const now = new Date();
+    const dueDocs = querySnapshot.docs.filter((docSnap) => {
+      const scheduledFor = docSnap.data().scheduledFor?.toDate();
+      return scheduledFor && scheduledFor.getTime() <= now.getTime();
+    });
+
+    // Publish the same way updateArticle does when publishing for the first
+    // time, stamped with the server time the rules require.
+    // While review is mandatory the rules refuse articles that writers
+    // scheduled earlier, which must not hold back the others.
+    const results = await Promise.allSettled(
+      dueDocs.map((docSnap) =>
+        updateDoc(docSnap.ref, {
+          status: "published",
+          publishedAt: serverTimestamp(),
+          updatedAt: serverTimestamp(),
+          scheduledFor: null,
+        })
+      )
+    );
+
+    // Only writers and admins can add to the search filters; articles
+    // published from a reader's visit are picked up by the admin rebuild
+    const publishedDocs = dueDocs.filter(
+      (_, index) => results[index].status === "fulfilled"
+    );
+    for (const docSnap of publishedDocs) {
+      await recordPublishedTaxonomy(
+        docSnap.data().categories,
+        docSnap.data().tags
+      );
+    }
+
+    return publishedDocs.length;
+  } catch (error) {
+    console.error("Error publishing scheduled articles:", error);
+    throw error;
+  }
+};
+
+// Notify an article's author about an editorial review transition, and the
+// admins when an article enters the review queue. The transition itself has
+// already been saved, so failures are reported to the caller by returning
+// false rather than thrown.
+const notifyReviewTransition = async (
+  articleId: string,
+  event: "submitted" | "approved" | "changes_requested",
+  reviewNote?: string
+): Promise<boolean> => {
+  try {
+    const article = await getArticle(articleId);
+    if (!article) return false;
+
+    const title = article.title || "Untitled Article";
+    const { createArticleReviewNotification, createReviewQueueNotifications } =
+      await import("./notifications");
+    await createArticleReviewNotification(
+      article.authorId,
+      articleId,
+      title,
+      event,
+      reviewNote
+    );
+    if (event === "submitted") {
+      await createReviewQueueNotifications(
+        auth.currentUser?.uid || article.authorId,
+        articleId,
+        title,
+        article.authorName
+      );
+    }
+    return true;
+  } catch (error) {
+    console.error("Error sending review notification:", error);
+    return false;
+  }
+};
+
+// Submit an article for editorial review. Pass updates to save the
+// article's latest content in the same write. Resolves to false when the
+// article was submitted but the notifications could not be sent.
+export const submitArticleForReview = async (
+  id: string,
+  updates: Partial<Omit<Article, "id" | "createdAt">> = {}
+): Promise<boolean> => {
+  await updateArticle(id, {
+    ...updates,
+    status: "in_review",
+    submittedForReviewAt: new Date(),
+  });
+  return notifyReviewTransition(id, "submitted");
+};
+
+// Approve an article in review, which publishes it. Resolves to false when
+// the author could not be notified.
+export const approveArticle = async (
+  id: string,
+  reviewerId: string,
+  reviewerName: string
+): Promise<boolean> => {
+  await updateArticle(id, {
+    status: "published",
+    reviewedBy: reviewerId,
+    reviewedByName: reviewerName,
+    reviewedAt: new Date(),
+  });
+  return notifyReviewTransition(id, "approved");
+};
+
+// Send an article in review back to its author as a draft with requested
+// changes. Resolves to false when the author could not be notified.
+export const requestArticleChanges = async (
+  id: string,
+  reviewerId: string,
+  reviewerName: string,
+  reviewNote: string
+): Promise<boolean> => {
+  if (!reviewNote.trim()) {
+    throw new Error("Please describe the changes you are requesting");
+  }
+
+  await updateArticle(id, {
+    status: "draft",
+    reviewNote: reviewNote.trim(),
+    reviewedBy: reviewerId,
+    reviewedByName: reviewerName,
+    reviewedAt: new Date(),
+  });
+  return notifyReviewTransition(id, "changes_requested", reviewNote);
 };
 
 export const deleteArticle = async (id: string): Promise<void> => {
@@ -348,27 +679,99 @@ export const cleanupArticleRelatedData = async (articleId: string): Promise<void
     })()
   );
 
+  // Clean up revision history
+  cleanupPromises.push(
+    (async () => {
+      try {
+        const revisionsRef = collection(firestore, "articles", articleId, "revisions");
+        const revisionsSnapshot = await getDocs(revisionsRef);
+
+        if (!revisionsSnapshot.empty) {
+          const deletePromises = revisionsSnapshot.docs.map(doc => deleteDoc(doc.ref));
+          await Promise.all(deletePromises);
+          console.log(`✅ Deleted ${revisionsSnapshot.docs.length} revisions`);
+        }
+      } catch (error) {
+        console.error("⚠️ Failed to clean up revisions:", error);
+      }
+    })()
+  );
+
+  // Remove the article from any series it belongs to
+  cleanupPromises.push(
+    (async () => {
+      try {
+        const seriesQuery = query(
+          collection(firestore, "series"),
+          where("articleIds", "array-contains", articleId)
+        );
+        const seriesSnapshot = await getDocs(seriesQuery);
+
+        if (!seriesSnapshot.empty) {
+          const updatePromises = seriesSnapshot.docs.map(doc =>
+            updateDoc(doc.ref, { articleIds: arrayRemove(articleId) })
+          );
+          await Promise.all(updatePromises);
+          console.log(`✅ Removed article from ${seriesSnapshot.docs.length} series`);
+        }
+      } catch (error) {
+        console.error("⚠️ Failed to clean up series membership:", error);
+      }
+    })()
+  );
+
+  // Release the article's current and previous slugs
+  cleanupPromises.push(
+    (async () => {
+      try {
+        const slugsQuery = query(
+          collection(firestore, "slugs"),
+          where("articleId", "==", articleId)
+        );
+        const slugsSnapshot = await getDocs(slugsQuery);
+
+        if (!slugsSnapshot.empty) {
+          await Promise.all(slugsSnapshot.docs.map(doc => deleteDoc(doc.ref)));
+          console.log(`✅ Released ${slugsSnapshot.docs.length} slugs`);
+        }
+      } catch (error) {
+        console.error("⚠️ Failed to release slugs:", error);
+      }
+    })()
+  );
+
   // Wait for all cleanup operations to complete
   await Promise.all(cleanupPromises);
   const totalTime = Date.now() - startTime;
   console.log(`✅ Completed cleanup of related data for article: ${articleId} (Time: ${totalTime}ms)`);
 };
 
-// Soft delete - changes status to unpublished (for admin moderation)
+// Soft delete - moves an article to the trash. It keeps its slug, series
+// membership and related data until it is restored or purged.
 export const softDeleteArticle = async (
   articleId: string,
-  deletedBy: "admin",
+  deletedBy: "admin" | "infowriter",
   deletedByUserId: string,
-  deleteReason?: string
+  deleteReason?: string,
+  deletedByName?: string
 ): Promise<void> => {
   try {
     const articleRef = doc(firestore, "articles", articleId);
+    const articleDoc = await getDoc(articleRef);
+    if (!articleDoc.exists()) {
+      throw new Error("Article not found");
+    }
+
     await updateDoc(articleRef, {
-      status: "unpublished", // Change to unpublished instead of deleted
+      status: "deleted",
+      isDeleted: true,
+      statusBeforeDeletion: articleDoc.data().status,
       deletedAt: new Date(),
+      trashedAt: new Date(),
       deletedBy,
       deletedByUserId,
-      deleteReason: deleteReason || "Article unpublished by administrator",
+      deletedByName: deletedByName || null,
+      deleteReason: deleteReason || "Article moved to trash",
       updatedAt: new Date(),
     });
   } catch (error) {
@@ -377,14 +780,17 @@ export const softDeleteArticle = async (
   }
 };
 
-// Smart delete function that chooses between hard and soft delete
+// Smart delete function - moves the article to the trash and notifies the
+// author when an admin removes someone else's article. Trashed articles are
+// permanently deleted from the trash or once the retention period ends.
 export const deleteArticleByRole = async (
   articleId: string,
   userRole: string,
   userId: string,
   authorId: string,
   authorRole?: string,
-  deleteReason?: string
+  deleteReason?: string,
+  deletedByName?: string
 ): Promise<void> => {
   // Get article data before deletion for notification purposes
   let articleData: any = null;
@@ -398,16 +804,18 @@ export const deleteArticleByRole = async (
     // Handle error silently
   }
 
-  // Self-deletion (hard delete) - NO NOTIFICATION
+  const deletedBy = userRole === "admin" ? "admin" : "infowriter";
+
+  // Self-deletion - NO NOTIFICATION
   if (userId === authorId) {
-    await hardDeleteArticle(articleId);
+    await softDeleteArticle(articleId, deletedBy, userId, deleteReason, deletedByName);
     return;
   }
 
   // Admin deleting someone else's article - SEND NOTIFICATION
   if (userRole === "admin" && userId !== authorId) {
     // Perform the deletion first
-    await hardDeleteArticle(articleId);
+    await softDeleteArticle(articleId, deletedBy, userId, deleteReason, deletedByName);
 
     // Send notification ONLY to InfoWriter authors
     if (articleData && authorRole === "infowriter") {
@@ -427,7 +835,7 @@ export const deleteArticleByRole = async (
 
   // Admin deleting their own article - NO NOTIFICATION
   if (userRole === "admin") {
-    await hardDeleteArticle(articleId);
+    await softDeleteArticle(articleId, deletedBy, userId, deleteReason, deletedByName);
     return;
   }
 
@@ -499,18 +907,29 @@ if (typeof window !== 'undefined') {
   (window as any).fixArticleDates = fixArticleDates;
 }
 
+// Restore an article from the trash, by default to the status it had
+// before it was deleted
 export const restoreArticle = async (
   articleId: string,
-  newStatus: ArticleStatus = "unpublished"
+  newStatus?: ArticleStatus
 ): Promise<void> => {
   try {
     const articleRef = doc(firestore, "articles", articleId);
+    const articleDoc = await getDoc(articleRef);
+    if (!articleDoc.exists()) {
+      throw new Error("Article not found");
+    }
+
     await updateDoc(articleRef, {
-      status: newStatus,
+      status:
+        newStatus || articleDoc.data().statusBeforeDeletion || "unpublished",
       isDeleted: false,
+      statusBeforeDeletion: null,
       deletedAt: null,
+      trashedAt: null,
       deletedBy: null,
       deletedByUserId: null,
+      deletedByName: null,
       deleteReason: null,
       updatedAt: new Date(),
     });
@@ -520,6 +939,75 @@ export const restoreArticle = async (
   }
 };
 
+// Get articles in the trash, most recently deleted first. Pass an authorId
+// to only get that author's articles. Articles removed by an admin before the
+// trash existed were kept as "unpublished" with deletedAt set, so the trash
+// is matched on deletedAt; restoring clears it.
+export const getTrashedArticles = async (
+  authorId?: string
+): Promise<Article[]> => {
+  try {
+    let q = query(
+      collection(firestore, "articles"),
+      where("deletedAt", "!=", null)
+    );
+    if (authorId) {
+      q = query(q, where("authorId", "==", authorId));
+    }
+
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs
+      .map(toArticle)
+      .sort(
+        (a, b) => (b.deletedAt?.getTime() || 0) - (a.deletedAt?.getTime() || 0)
+      );
+  } catch (error) {
+    console.error("Error getting trashed articles:", error);
+    throw error;
+  }
+};
+
+// When a trashed article will be permanently deleted, or null for articles
+// that are kept until they are deleted by hand. Only articles moved to the
+// trash with trashedAt set expire; articles removed before the trash existed
+// are never purged automatically.
+export const getTrashPurgeDate = (
+  article: Pick<Article, "status" | "trashedAt">,
+  retentionDays: number
+): Date | null => {
+  if (article.status !== "deleted" || !article.trashedAt) return null;
+  return new Date(
+    article.trashedAt.getTime() + retentionDays * 24 * 60 * 60 * 1000
+  );
+};
+
+// Permanently delete trashed articles whose retention period has ended.
+// Only admins run this, see useTrashPurge. Returns the number of purged
+// articles.
+export const purgeExpiredTrash = async (
+  retentionDays: number
+): Promise<number> => {
+  try {
+    const now = new Date();
+    const querySnapshot = await getDocs(
+      query(collection(firestore, "articles"), where("status", "==", "deleted"))
+    );
+    const expired = querySnapshot.docs.map(toArticle).filter((article) => {
+      const purgeDate = getTrashPurgeDate(article, retentionDays);
+      return purgeDate !== null && purgeDate <= now;
+    });
+
+    for (const article of expired) {
+      await hardDeleteArticle(article.id);
+    }
+
+    return expired.length;
+  } catch (error) {
+    console.error("Error purging expired trash:", error);
+    throw error;
+  }
+};
+
 export const getArticle = async (id: string): Promise<Article | null> => {
   const docRef = doc(firestore, "articles", id);
   const docSnap = await getDoc(docRef);
@@ -531,86 +1019,380 @@ export const getArticle = async (id: string): Promise<Article | null> => {
       createdAt: data.createdAt.toDate(),
       updatedAt: data.updatedAt.toDate(),
       publishedAt: data.publishedAt?.toDate(),
+      scheduledFor: data.scheduledFor?.toDate(),
+      submittedForReviewAt: data.submittedForReviewAt?.toDate(),
+      reviewedAt: data.reviewedAt?.toDate(),
+      deletedAt: data.deletedAt?.toDate(),
+      trashedAt: data.trashedAt?.toDate(),
     } as Article;
   }
 
   return null;
 };
 
-export const getArticles = async (
-  options: {
-    status?: ArticleStatus;
-    authorId?: string;
-    categories?: string[];
-    limit?: number;
-  } = {}
-): Promise<Article[]> => {
-  let q = query(collection(firestore, "articles"));
-  const filters = [];
+// Resolve an article from a URL segment: a current or previous slug, or an
+// article ID for links created before slugs were used for routing
+export const getArticleBySlugOrId = async (
+  slugOrId: string
+): Promise<Article | null> => {
+  const slugSnap = await getDoc(doc(firestore, "slugs", slugOrId));
+  if (slugSnap.exists()) {
+    return getArticle(slugSnap.data().articleId);
+  }
+
+  try {
+    const article = await getArticle(slugOrId);
+    if (article) return article;
+  } catch (error) {
+    // Unreadable or missing article documents are denied rather than empty
+    console.error("No readable article with this ID:", error);
+  }
+
+  // Published articles from before slugs were reserved
+  const legacySnapshot = await getDocs(
+    query(
+      collection(firestore, "articles"),
+      where("slug", "==", slugOrId),
+      where("status", "==", "published"),
+      limit(1)
+    )
+  );
+  return legacySnapshot.empty ? null : toArticle(legacySnapshot.docs[0]);
+};
+
+// One-off for admins: reserve the slugs of articles saved before slugs were
+// reserved, so their links can use the slug instead of the ID. Returns how
+// many articles were updated.
+export const backfillArticleSlugs = async (): Promise<number> => {
+  try {
+    const snapshot = await getDocs(collection(firestore, "articles"));
+    const legacyArticles = snapshot.docs
+      .map(toArticle)
+      .filter((article) => !article.slugReserved)
+      // Oldest first, so the first article to use a duplicate slug keeps it
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+    for (const article of legacyArticles) {
+      await reserveArticleSlug(
+        article.slug || article.title || "",
+        article.id,
+        (transaction, slug) => {
+          transaction.update(doc(firestore, "articles", article.id), {
+            slug,
+            slugReserved: true,
+          });
+        }
+      );
+    }
+
+    return legacyArticles.length;
+  } catch (error) {
+    console.error("Error backfilling article slugs:", error);
+    throw error;
+  }
+};
+
+export type ArticleSortField = "updatedAt" | "publishedAt" | "createdAt";
+
+export interface ArticleQueryOptions {
+  status?: ArticleStatus;
+  statuses?: ArticleStatus[]; // Matches any of these; ignored when status is set
+  authorId?: string;
+  collaboratorId?: string; // Matches articles by this primary author or co-author
+  categories?: string[];
+  tag?: string; // Firestore allows one array filter, so not with categories
+  orderByField?: ArticleSortField; // Defaults to updatedAt (newest first)
+}
+
+// Opaque cursor pointing at the last article of a page
+export type ArticlesCursor = QueryDocumentSnapshot<DocumentData>;
+
+export interface ArticlesPage {
+  articles: Article[];
+  cursor: ArticlesCursor | null; // Pass back to fetch the next page
+  hasMore: boolean;
+}
+
+const DEFAULT_PAGE_SIZE = 12;
+
+const buildArticleFilters = (
+  options: ArticleQueryOptions
+): QueryFilterConstraint[] => {
+  const filters: QueryFilterConstraint[] = [];
 
   if (options.status) {
-    filters.push(["status", "==", options.status]);
+    filters.push(where("status", "==", options.status));
+  } else if (options.statuses && options.statuses.length > 0) {
+    filters.push(where("status", "in", options.statuses));
   }
 
   if (options.authorId) {
-    filters.push(["authorId", "==", options.authorId]);
+    filters.push(where("authorId", "==", options.authorId));
+  }
+
+  if (options.collaboratorId) {
+    filters.push(
+      or(
+        where("authorId", "==", options.collaboratorId),
+        where("coAuthorIds", "array-contains", options.collaboratorId)
+      )
+    );
   }
 
   if (options.categories && options.categories.length > 0) {
-    filters.push(["categories", "array-contains-any", options.categories]);
+    filters.push(
+      where("categories", "array-contains-any", options.categories)
+    );
   }
 
-  // Apply filters
-  filters.forEach(([field, operator, value]) => {
-    q = query(q, where(field as string, operator as any, value));
-  });
+  if (options.tag) {
+    filters.push(where("tags", "array-contains", options.tag));
+  }
 
-  // For queries with authorId or status filter, we need to handle ordering differently
-  // to avoid composite index requirements
-  if (options.authorId || options.status) {
-    // Don't add orderBy for filtered queries to avoid composite index requirement
-    // We'll sort in memory instead
-    if (options.limit) {
-      q = query(q, limit(options.limit * 2)); // Get more to account for sorting
-    }
-  } else {
-    // Only add orderBy when not filtering by authorId or status
-    q = query(q, orderBy("updatedAt", "desc"));
-    if (options.limit) {
-      q = query(q, limit(options.limit));
-    }
+  return filters;
+};
+
+// Build a filtered articles query. Every filter combination used here is
+// backed by a composite index in firestore.indexes.json.
+const buildArticlesQuery = (options: ArticleQueryOptions): Query<DocumentData> => {
+  const articlesRef = collection(firestore, "articles");
+  const filters = buildArticleFilters(options);
+  const sort = orderBy(options.orderByField || "updatedAt", "desc");
+
+  return filters.length > 0
+    ? query(articlesRef, and(...filters), sort)
+    : query(articlesRef, sort);
+};
+
+const toArticle = (docSnap: QueryDocumentSnapshot<DocumentData>): Article => {
+  const data = docSnap.data();
+  return {
+    ...data,
+    id: docSnap.id,
+    createdAt: data.createdAt?.toDate() || new Date(),
+    updatedAt: data.updatedAt?.toDate() || new Date(),
+    publishedAt: data.publishedAt?.toDate(),
+    scheduledFor: data.scheduledFor?.toDate(),
+    submittedForReviewAt: data.submittedForReviewAt?.toDate(),
+    reviewedAt: data.reviewedAt?.toDate(),
+    deletedAt: data.deletedAt?.toDate(),
+    trashedAt: data.trashedAt?.toDate(),
+  } as Article;
+};
+
+export const getArticles = async (
+  options: ArticleQueryOptions & { limit?: number } = {}
+): Promise<Article[]> => {
+  let q = buildArticlesQuery(options);
+
+  if (options.limit) {
+    q = query(q, limit(options.limit));
   }
 
   const querySnapshot = await getDocs(q);
-  let articles = querySnapshot.docs.map((doc) => {
-    const data = doc.data();
-    return {
-      ...data,
-      createdAt: data.createdAt?.toDate() || new Date(),
-      updatedAt: data.updatedAt?.toDate() || new Date(),
-      publishedAt: data.publishedAt?.toDate(),
-    } as Article;
-  });
+  return querySnapshot.docs.map(toArticle);
+};
 
-  // Sort in memory if we filtered by authorId or status
-  if (options.authorId || options.status) {
-    articles = articles.sort(
-      (a, b) => b.updatedAt.getTime() - a.updatedAt.getTime()
-    );
-    if (options.limit) {
-      articles = articles.slice(0, options.limit);
+// Real-time listener for a single article; receives null when the article
+// does not exist or the current user cannot read it
+export const subscribeToArticle = (
+  articleId: string,
+  callback: (article: Article | null) => void
+): (() => void) => {
+  return onSnapshot(
+    doc(firestore, "articles", articleId),
+    (docSnap) => {
+      callback(
+        docSnap.exists()
+          ? toArticle(docSnap as QueryDocumentSnapshot<DocumentData>)
+          : null
+      );
+    },
+    (error) => {
+      if (error.code !== "permission-denied") {
+        console.error("Error in article subscription:", error);
+      }
+      callback(null);
+    }
+  );
+};
+
+// Whether a link to an article still leads readers to it. "unavailable"
+// means the current user can't read the article, e.g. another author's draft.
+export type ArticleLinkStatus =
+  | "available"
+  | "unpublished"
+  | "archived"
+  | "deleted"
+  | "unavailable";
+
+const getArticleLinkStatus = (article: Article | null): ArticleLinkStatus => {
+  if (
+    !article ||
+    article.isDeleted ||
+    article.deletedAt ||
+    article.status === "deleted"
+  ) {
+    return "deleted";
+  }
+  if (article.status === "archive") return "archived";
+  if (article.status !== "published") return "unpublished";
+  return "available";
+};
+
+// Explains to writers and readers why a linked article can't be opened
+export const getArticleLinkStatusMessage = (status: ArticleLinkStatus): string =>
+  ({
+    available: "",
+    unpublished: "The linked article is not published",
+    archived: "The linked article was archived",
+    deleted: "The linked article was deleted",
+    unavailable: "The linked article isn't available to you",
+  })[status];
+
+// Check the articles that internal links point to, keyed by article ID.
+// Articles that couldn't be checked, e.g. while offline, are left out.
+export const getArticleLinkStatuses = async (
+  articleIds: string[]
+): Promise<Record<string, ArticleLinkStatus>> => {
+  const entries = await Promise.all(
+    Array.from(new Set(articleIds)).map(
+      async (articleId): Promise<[string, ArticleLinkStatus] | null> => {
+        try {
+          return [articleId, getArticleLinkStatus(await getArticle(articleId))];
+        } catch (error) {
+          // Articles the user can't read may exist in any status
+          if (error instanceof FirestoreError && error.code === "permission-denied") {
+            return [articleId, "unavailable"];
+          }
+          console.error("Error checking linked article:", error);
+          return null;
+        }
+      }
+    )
+  );
+
+  return Object.fromEntries(
+    entries.filter((entry): entry is [string, ArticleLinkStatus] => entry !== null)
+  );
+};
+
+// Get one page of articles, starting after the given cursor
+export const getArticlesPage = async (
+  options: ArticleQueryOptions & {
+    pageSize?: number;
+    cursor?: ArticlesCursor | null;
+  } = {}
+): Promise<ArticlesPage> => {
+  try {
+    const pageSize = options.pageSize || DEFAULT_PAGE_SIZE;
+    let q = buildArticlesQuery(options);
+
+    if (options.cursor) {
+      q = query(q, startAfter(options.cursor));
     }
+
+    // Fetch one extra document to know whether another page exists
+    const querySnapshot = await getDocs(query(q, limit(pageSize + 1)));
+    const docs = querySnapshot.docs.slice(0, pageSize);
+
+    return {
+      articles: docs.map(toArticle),
+      cursor: docs.length > 0 ? docs[docs.length - 1] : null,
+      hasMore: querySnapshot.docs.length > pageSize,
+    };
+  } catch (error) {
+    console.error("Error getting articles page:", error);
+    throw error;
   }
+};
 
-  return articles;
+// Count articles matching the filters without downloading them
+export const getArticleCount = async (
+  options: Omit<ArticleQueryOptions, "orderByField"> = {}
+): Promise<number> => {
+  try {
+    const articlesRef = collection(firestore, "articles");
+    const filters = buildArticleFilters(options);
+    const q =
+      filters.length > 0 ? query(articlesRef, and(...filters)) : articlesRef;
+
+    const snapshot = await getCountFromServer(q);
+    return snapshot.data().count;
+  } catch (error) {
+    console.error("Error counting articles:", error);
+    throw error;
+  }
 };
 
 export const getPublishedArticles = async (): Promise<Article[]> => {
   return getArticles({ status: "published" });
 };
 
+// The categories and tags of published articles are collected in one
+// document for the search filters, so listing them doesn't read every article
+const articleTaxonomyRef = () => doc(firestore, "settings", "articleTaxonomy");
+
+// Add a published article's categories and tags to the search filters. The
+// article is already saved, so a failure here is only logged.
+const recordPublishedTaxonomy = async (
+  categories: string[] = [],
+  tags: string[] = []
+): Promise<void> => {
+  if (categories.length === 0 && tags.length === 0) return;
+
+  try {
+    const updates: Record<string, unknown> = {};
+    if (categories.length > 0) updates.categories = arrayUnion(...categories);
+    if (tags.length > 0) updates.tags = arrayUnion(...tags);
+    await setDoc(articleTaxonomyRef(), updates, { merge: true });
+  } catch (error) {
+    console.error("Error recording article categories and tags:", error);
+  }
+};
+
+// Every category and tag used by published articles, sorted
+export const getPublishedCategoriesAndTags = async (): Promise<{
+  categories: string[];
+  tags: string[];
+}> => {
+  const docSnap = await getDoc(articleTaxonomyRef());
+  const data = docSnap.exists() ? docSnap.data() : {};
+
+  return {
+    categories: [...((data.categories as string[]) || [])].sort(),
+    tags: [...((data.tags as string[]) || [])].sort(),
+  };
+};
+
+// For admins: rebuild the search filters from the published articles, e.g.
+// to add articles published before they were collected or to drop
+// categories and tags no published article uses any more. Reads every
+// published article, so it isn't run on page loads.
+export const rebuildPublishedTaxonomy = async (): Promise<void> => {
+  try {
+    const categories = new Set<string>();
+    const tags = new Set<string>();
+
+    (await getPublishedArticles()).forEach((article) => {
+      (article.categories || []).forEach((category) => categories.add(category));
+      (article.tags || []).forEach((tag) => tags.add(tag));
+    });
+
+    await setDoc(articleTaxonomyRef(), {
+      categories: Array.from(categories),
+      tags: Array.from(tags),
+    });
+  } catch (error) {
+    console.error("Error rebuilding article categories and tags:", error);
+    throw error;
+  }
+};
+
 export const getUserArticles = async (authorId: string): Promise<Article[]> => {
-  return getArticles({ authorId });
+  // Trashed articles are only listed on the Trash page
+  const articles = await getArticles({ authorId });
+  return articles.filter((article) => article.status !== "deleted");
 };
 
 // Saved Articles Types and Functions
@@ -115,12 +115,14 @@ class AuthCacheManager {
             "/admin/writer-requests",
             "/admin/active-writers",
             "/admin/removed-writers",
+            "/admin/review-queue",
             "/admin/system",
             "/personal-dashboard",
             "/article/new",
             "/article/edit/:id",
-            "/article/:id", // Allow viewing articles
+            "/article/:slug", // Allow viewing articles
             "/my-articles",
+            "/trash",
             "/search",
             "/writer-request",
             "/saved-articles",
@@ -138,8 +140,9 @@ class AuthCacheManager {
             ...basePermissions.allowedRoutes,
             "/article/new",
             "/article/edit/:id",
-            "/article/:id", // Allow viewing articles
+            "/article/:slug", // Allow viewing articles
             "/my-articles",
+            "/trash",
             "/search",
             "/writer-request",
             "/saved-articles",
@@ -152,7 +155,7 @@ class AuthCacheManager {
           ...basePermissions,
           allowedRoutes: [
             ...basePermissions.allowedRoutes,
-            "/article/:id", // Allow users to view articles
+            "/article/:slug", // Allow users to view articles
             "/writer-request",
             "/saved-articles",
           ],
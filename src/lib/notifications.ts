@@ -16,7 +16,17 @@ import { firestore } from "./firebase";
 export interface AppNotification {
   id: string;
   userId: string;
-  type: "role_approval" | "general" | "article_published" | "system" | "writer_privileges_removed" | "article_deleted";
+  type:
+    | "role_approval"
+    | "general"
+    | "article_published"
+    | "system"
+    | "writer_privileges_removed"
+    | "article_deleted"
+    | "article_review_submitted"
+    | "article_review_requested"
+    | "article_approved"
+    | "article_changes_requested";
   title: string;
   message: string;
   isRead: boolean;
@@ -164,6 +174,83 @@ export const createArticleDeletionNotification = async (
     metadata
   );
 };
+
+// Create a notification for an editorial review transition
+export const createArticleReviewNotification = async (
+  userId: string,
+  articleId: string,
+  articleTitle: string,
+  event: "submitted" | "approved" | "changes_requested",
+  reviewNote?: string
+): Promise<void> => {
+  const metadata: Record<string, string> = {
+    articleId,
+    articleTitle,
+  };
+
+  // Only add reviewNote if it has a value
+  if (reviewNote && reviewNote.trim()) {
+    metadata.reviewNote = reviewNote.trim();
+  }
+
+  if (event === "submitted") {
+    await createNotification(
+      userId,
+      "article_review_submitted",
+      "Article Submitted for Review",
+      `Your article "${articleTitle}" has been submitted for review. You'll be notified once a reviewer has looked at it.`,
+      metadata
+    );
+  } else if (event === "approved") {
+    await createNotification(
+      userId,
+      "article_approved",
+      "Article Approved",
+      `Your article "${articleTitle}" has been approved and is now published.`,
+      metadata
+    );
+  } else {
+    const message = metadata.reviewNote
+      ? `A reviewer requested changes to your article "${articleTitle}": ${metadata.reviewNote}. Update the article and submit it for review again.`
+      : `A reviewer requested changes to your article "${articleTitle}". Update the article and submit it for review again.`;
+
+    await createNotification(
+      userId,
+      "article_changes_requested",
+      "Changes Requested",
+      message,
+      metadata
+    );
+  }
+};
+
+// Let every admin except the submitter know that an article is waiting in
+// the review queue
+export const createReviewQueueNotifications = async (
+  submittedByUserId: string,
+  articleId: string,
+  articleTitle: string,
+  authorName: string
+): Promise<void> => {
+  const adminsSnapshot = await getDocs(
+    query(collection(firestore, "users"), where("role", "==", "admin"))
+  );
+
+  await Promise.all(
+    adminsSnapshot.docs
+      .filter((adminDoc) => adminDoc.id !== submittedByUserId)
+      .map((adminDoc) =>
+        createNotification(
+          adminDoc.id,
+          "article_review_requested",
+          "Article Awaiting Review",
+          `"${articleTitle}" by ${authorName} has been submitted for review and is waiting in the review queue.`,
+          { articleId, articleTitle }
+        )
+      )
+  );
+};
+
 // Get user notifications
 export const getUserNotifications = async (
   userId: string
@@ -0,0 +1,61 @@
+// src/lib/platformSettings.ts
+import { doc, getDoc, setDoc, Timestamp } from "firebase/firestore";
+import { firestore } from "./firebase";
+
+export interface PlatformSettings {
+  requireReview: boolean; // Writers must submit articles for editorial review
+  trashRetentionDays: number; // Trashed articles are permanently deleted after this
+  updatedAt?: Date;
+  updatedBy?: string;
+}
+
+export const DEFAULT_PLATFORM_SETTINGS: PlatformSettings = {
+  requireReview: false,
+  trashRetentionDays: 30,
+};
+
+// All platform-wide settings live in a single document
+const platformSettingsRef = () => doc(firestore, "settings", "platform");
+
+// Get platform settings, falling back to defaults if none have been saved.
+// Throws when the settings can't be read, so callers never mistake the
+// defaults for saved values.
+export const getPlatformSettings = async (): Promise<PlatformSettings> => {
+  try {
+    const docSnap = await getDoc(platformSettingsRef());
+    if (!docSnap.exists()) {
+      return DEFAULT_PLATFORM_SETTINGS;
+    }
+
+    const data = docSnap.data();
+    return {
+      ...DEFAULT_PLATFORM_SETTINGS,
+      ...data,
+      updatedAt: data.updatedAt?.toDate(),
+    } as PlatformSettings;
+  } catch (error) {
+    console.error("Error getting platform settings:", error);
+    throw error;
+  }
+};
+
+// Update platform settings (admin only)
+export const updatePlatformSettings = async (
+  updates: Partial<Omit<PlatformSettings, "updatedAt" | "updatedBy">>,
+  adminId: string
+): Promise<void> => {
+  try {
+    await setDoc(
+      platformSettingsRef(),
+      {
+        ...updates,
+        updatedAt: Timestamp.fromDate(new Date()),
+        updatedBy: adminId,
+      },
+      { merge: true }
+    );
+  } catch (error) {
+    console.error("Error updating platform settings:", error);
+    throw error;
+  }
+};
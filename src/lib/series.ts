@@ -0,0 +1,303 @@
+// src/lib/series.ts
+import {
+  collection,
+  doc,
+  setDoc,
+  getDoc,
+  getDocs,
+  updateDoc,
+  deleteDoc,
+  query,
+  where,
+  arrayUnion,
+  arrayRemove,
+  Timestamp,
+  DocumentData,
+} from "firebase/firestore";
+import { firestore } from "./firebase";
+import { Article, isArticleCollaborator } from "./articles";
+
+// An ordered collection of articles, e.g. a multi-part tutorial
+export interface ArticleSeries {
+  id: string;
+  title: string;
+  description: string;
+  authorId: string;
+  authorName: string;
+  articleIds: string[]; // Article IDs in reading order
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Where an article sits within its series
+export interface SeriesPosition {
+  index: number; // Zero-based position among the listed articles
+  total: number;
+  previous?: Article;
+  next?: Article;
+}
+
+const seriesCollection = () => collection(firestore, "series");
+
+const toSeries = (id: string, data: DocumentData): ArticleSeries =>
+  ({
+    ...data,
+    id,
+    description: data.description || "",
+    articleIds: data.articleIds || [],
+    createdAt: data.createdAt?.toDate() || new Date(),
+    updatedAt: data.updatedAt?.toDate() || new Date(),
+  }) as ArticleSeries;
+
+// Create a new, empty series
+export const createSeries = async (
+  title: string,
+  description: string,
+  authorId: string,
+  authorName: string
+): Promise<string> => {
+  if (!title.trim()) {
+    throw new Error("Series title is required");
+  }
+
+  try {
+    const seriesRef = doc(seriesCollection());
+    const now = Timestamp.fromDate(new Date());
+
+    await setDoc(seriesRef, {
+      id: seriesRef.id,
+      title: title.trim(),
+      description: description.trim(),
+      authorId,
+      authorName,
+      articleIds: [],
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    return seriesRef.id;
+  } catch (error) {
+    console.error("Error creating series:", error);
+    throw error;
+  }
+};
+
+// Get a single series
+export const getSeries = async (id: string): Promise<ArticleSeries | null> => {
+  try {
+    const docSnap = await getDoc(doc(firestore, "series", id));
+    return docSnap.exists() ? toSeries(docSnap.id, docSnap.data()) : null;
+  } catch (error) {
+    console.error("Error getting series:", error);
+    throw error;
+  }
+};
+
+// Get all series created by an author (most recently updated first)
+export const getUserSeries = async (
+  authorId: string
+): Promise<ArticleSeries[]> => {
+  try {
+    const q = query(seriesCollection(), where("authorId", "==", authorId));
+    const snapshot = await getDocs(q);
+
+    return snapshot.docs
+      .map((docSnap) => toSeries(docSnap.id, docSnap.data()))
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  } catch (error) {
+    console.error("Error getting user series:", error);
+    throw error;
+  }
+};
+
+// Update the series fields stored on its articles. Only articles the series
+// owner authors or co-authors can be written; others keep their copy.
+const updateEditableSeriesArticles = async (
+  series: ArticleSeries,
+  updates: { seriesId?: null; seriesTitle: string | null }
+): Promise<void> => {
+  const articles = await getSeriesArticles(series, false);
+  await Promise.all(
+    articles
+      .filter((article) => isArticleCollaborator(article, series.authorId))
+      .map((article) =>
+        updateDoc(doc(firestore, "articles", article.id), updates)
+      )
+  );
+};
+
+// Update a series' title and description. Member articles keep a copy of
+// the title for article cards, so a rename is written to the ones the owner
+// can edit as well.
+export const updateSeriesDetails = async (
+  series: ArticleSeries,
+  updates: { title: string; description: string }
+): Promise<void> => {
+  if (!updates.title.trim()) {
+    throw new Error("Series title is required");
+  }
+
+  try {
+    const title = updates.title.trim();
+    await updateDoc(doc(firestore, "series", series.id), {
+      title,
+      description: updates.description.trim(),
+      updatedAt: Timestamp.fromDate(new Date()),
+    });
+
+    if (title !== series.title) {
+      await updateEditableSeriesArticles(series, { seriesTitle: title });
+    }
+  } catch (error) {
+    console.error("Error updating series:", error);
+    throw error;
+  }
+};
+
+// Save a new reading order for a series
+export const reorderSeriesArticles = async (
+  seriesId: string,
+  articleIds: string[]
+): Promise<void> => {
+  try {
+    await updateDoc(doc(firestore, "series", seriesId), {
+      articleIds,
+      updatedAt: Timestamp.fromDate(new Date()),
+    });
+  } catch (error) {
+    console.error("Error reordering series:", error);
+    throw error;
+  }
+};
+
+// Append an article to the end of a series
+export const addArticleToSeries = async (
+  seriesId: string,
+  articleId: string
+): Promise<void> => {
+  try {
+    const series = await getSeries(seriesId);
+    if (!series) {
+      throw new Error("Series not found");
+    }
+
+    await updateDoc(doc(firestore, "series", seriesId), {
+      articleIds: arrayUnion(articleId),
+      updatedAt: Timestamp.fromDate(new Date()),
+    });
+    await updateDoc(doc(firestore, "articles", articleId), {
+      seriesId,
+      seriesTitle: series.title,
+    });
+  } catch (error) {
+    console.error("Error adding article to series:", error);
+    throw error;
+  }
+};
+
+// Remove an article from a series
+export const removeArticleFromSeries = async (
+  seriesId: string,
+  articleId: string
+): Promise<void> => {
+  try {
+    await updateDoc(doc(firestore, "series", seriesId), {
+      articleIds: arrayRemove(articleId),
+      updatedAt: Timestamp.fromDate(new Date()),
+    });
+    await updateDoc(doc(firestore, "articles", articleId), {
+      seriesId: null,
+      seriesTitle: null,
+    });
+  } catch (error) {
+    console.error("Error removing article from series:", error);
+    throw error;
+  }
+};
+
+// Move an article from one series to another (either side may be empty)
+export const moveArticleToSeries = async (
+  articleId: string,
+  fromSeriesId: string | undefined,
+  toSeriesId: string | undefined
+): Promise<void> => {
+  if (fromSeriesId === toSeriesId) return;
+
+  if (fromSeriesId) {
+    await removeArticleFromSeries(fromSeriesId, articleId);
+  }
+  if (toSeriesId) {
+    await addArticleToSeries(toSeriesId, articleId);
+  }
+};
+
+// Delete a series. Its articles are kept and simply leave the series.
+export const deleteSeries = async (series: ArticleSeries): Promise<void> => {
+  try {
+    await updateEditableSeriesArticles(series, {
+      seriesId: null,
+      seriesTitle: null,
+    });
+    await deleteDoc(doc(firestore, "series", series.id));
+  } catch (error) {
+    console.error("Error deleting series:", error);
+    throw error;
+  }
+};
+
+// Get the articles of a series in reading order. Readers only see the
+// published parts; authors managing the series see every part. Articles
+// must be listed in the series and point at it.
+export const getSeriesArticles = async (
+  series: ArticleSeries,
+  publishedOnly = true
+): Promise<Article[]> => {
+  try {
+    let q = query(
+      collection(firestore, "articles"),
+      where("seriesId", "==", series.id)
+    );
+    if (publishedOnly) {
+      q = query(q, where("status", "==", "published"));
+    }
+
+    const snapshot = await getDocs(q);
+    const articles = snapshot.docs.map((docSnap) => {
+      const data = docSnap.data();
+      return {
+        ...data,
+        id: docSnap.id,
+        createdAt: data.createdAt?.toDate() || new Date(),
+        updatedAt: data.updatedAt?.toDate() || new Date(),
+        publishedAt: data.publishedAt?.toDate(),
+      } as Article;
+    });
+
+    // Only the series owner's list decides membership; an article pointing
+    // at the series without being listed isn't part of it
+    const orderOf = (articleId: string) => series.articleIds.indexOf(articleId);
+
+    return articles
+      .filter((article) => orderOf(article.id) !== -1)
+      .sort((a, b) => orderOf(a.id) - orderOf(b.id));
+  } catch (error) {
+    console.error("Error getting series articles:", error);
+    throw error;
+  }
+};
+
+// Find an article's position and neighbours within its series' articles
+export const getSeriesPosition = (
+  articles: Article[],
+  articleId: string
+): SeriesPosition | null => {
+  const index = articles.findIndex((article) => article.id === articleId);
+  if (index === -1) return null;
+
+  return {
+    index,
+    total: articles.length,
+    previous: articles[index - 1],
+    next: articles[index + 1],
+  };
+};
@@ -0,0 +1,72 @@
+import {
+  doc,
+  setDoc,
+  deleteDoc,
+  onSnapshot,
+  Timestamp,
+} from "firebase/firestore";
+import { firestore } from "./firebase";
+
+// A reader's ticks on an article's checklists, keyed by task item ID. Items
+// the reader hasn't touched keep the state the author gave them.
+export type TaskProgress = Record<string, boolean>;
+
+const getTaskProgressRef = (userId: string, articleId: string) =>
+  doc(firestore, "taskProgress", `${userId}_${articleId}`);
+
+// Real-time listener for a reader's checklist progress on an article. Gets
+// null when the progress can't be read, so the checklists stay read-only.
+export const subscribeToTaskProgress = (
+  userId: string,
+  articleId: string,
+  callback: (progress: TaskProgress | null) => void
+): (() => void) => {
+  return onSnapshot(
+    getTaskProgressRef(userId, articleId),
+    (docSnap) => {
+      callback(docSnap.exists() ? docSnap.data().tasks || {} : {});
+    },
+    (error) => {
+      console.error("Error in task progress subscription:", error);
+      callback(null);
+    }
+  );
+};
+
+// Tick or untick one checklist item for a reader
+export const setTaskChecked = async (
+  userId: string,
+  articleId: string,
+  taskId: string,
+  checked: boolean
+): Promise<void> => {
+  try {
+    // Merging updates only this item, so quick ticks never overwrite each other
+    await setDoc(
+      getTaskProgressRef(userId, articleId),
+      {
+        userId,
+        articleId,
+        tasks: { [taskId]: checked },
+        updatedAt: Timestamp.now(),
+      },
+      { merge: true }
+    );
+  } catch (error) {
+    console.error("Error saving task progress:", error);
+    throw error;
+  }
+};
+
+// Start an article's checklists over for a reader
+export const resetTaskProgress = async (
+  userId: string,
+  articleId: string
+): Promise<void> => {
+  try {
+    await deleteDoc(getTaskProgressRef(userId, articleId));
+  } catch (error) {
+    console.error("Error resetting task progress:", error);
+    throw error;
+  }
+};
@@ -0,0 +1,135 @@
+// src/lib/templates.ts
+import {
+  collection,
+  doc,
+  setDoc,
+  getDocs,
+  deleteDoc,
+  query,
+  where,
+  Timestamp,
+  DocumentData,
+} from "firebase/firestore";
+import { format } from "date-fns";
+import { firestore } from "./firebase";
+
+// A reusable article skeleton, e.g. a how-to guide or release notes.
+// Personal templates are only visible to their author; organization
+// templates are published by admins for every writer.
+export interface ArticleTemplate {
+  id: string;
+  name: string;
+  description: string;
+  titlePattern: string; // May contain {date}, {year} and {author} placeholders
+  content: string;
+  excerpt: string;
+  categories: string[];
+  tags: string[];
+  scope: "personal" | "organization";
+  authorId: string;
+  authorName: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type ArticleTemplateInput = Omit<
+  ArticleTemplate,
+  "id" | "authorId" | "authorName" | "createdAt" | "updatedAt"
+>;
+
+const templatesCollection = () => collection(firestore, "templates");
+
+const toTemplate = (id: string, data: DocumentData): ArticleTemplate =>
+  ({
+    ...data,
+    id,
+    description: data.description || "",
+    titlePattern: data.titlePattern || "",
+    excerpt: data.excerpt || "",
+    categories: data.categories || [],
+    tags: data.tags || [],
+    createdAt: data.createdAt?.toDate() || new Date(),
+    updatedAt: data.updatedAt?.toDate() || new Date(),
+  }) as ArticleTemplate;
+
+// Save a new template
+export const createTemplate = async (
+  template: ArticleTemplateInput,
+  authorId: string,
+  authorName: string
+): Promise<string> => {
+  if (!template.name.trim()) {
+    throw new Error("Template name is required");
+  }
+
+  try {
+    const templateRef = doc(templatesCollection());
+    const now = Timestamp.fromDate(new Date());
+
+    await setDoc(templateRef, {
+      ...template,
+      id: templateRef.id,
+      name: template.name.trim(),
+      description: template.description.trim(),
+      titlePattern: template.titlePattern.trim(),
+      authorId,
+      authorName,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    return templateRef.id;
+  } catch (error) {
+    console.error("Error creating template:", error);
+    throw error;
+  }
+};
+
+// Get the templates a writer can start from: their own plus every
+// organization template, sorted by name
+export const getAvailableTemplates = async (
+  userId: string
+): Promise<ArticleTemplate[]> => {
+  try {
+    const [personalSnapshot, organizationSnapshot] = await Promise.all([
+      getDocs(
+        query(
+          templatesCollection(),
+          where("authorId", "==", userId),
+          where("scope", "==", "personal")
+        )
+      ),
+      getDocs(
+        query(templatesCollection(), where("scope", "==", "organization"))
+      ),
+    ]);
+
+    return [...personalSnapshot.docs, ...organizationSnapshot.docs]
+      .map((docSnap) => toTemplate(docSnap.id, docSnap.data()))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  } catch (error) {
+    console.error("Error getting templates:", error);
+    throw error;
+  }
+};
+
+// Delete a template
+export const deleteTemplate = async (templateId: string): Promise<void> => {
+  try {
+    await deleteDoc(doc(firestore, "templates", templateId));
+  } catch (error) {
+    console.error("Error deleting template:", error);
+    throw error;
+  }
+};
+
+// Fill in the placeholders of a template's title pattern
+export const applyTitlePattern = (
+  titlePattern: string,
+  authorName: string,
+  date: Date = new Date()
+): string =>
+  titlePattern
+    .replace(/\{date\}/g, format(date, "dd/MM/yyyy"))
+    .replace(/\{year\}/g, format(date, "yyyy"))
+    .replace(/\{author\}/g, authorName);
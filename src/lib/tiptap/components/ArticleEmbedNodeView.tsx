@@ -0,0 +1,99 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { NodeViewWrapper, NodeViewProps } from '@tiptap/react';
+import { FileSymlink } from 'lucide-react';
+import { subscribeToArticle } from '../../articles';
+import { processArticleContent } from '../utils/contentProcessor';
+import { getHeadingOutline } from '../utils/headingProcessor';
+import { EmbeddedArticle } from '../../../components/EmbeddedArticle';
+
+export const ArticleEmbedNodeView: React.FC<NodeViewProps> = ({
+  node,
+  updateAttributes,
+  selected,
+  editor,
+}) => {
+  const { articleId, mode, sectionId } = node.attrs;
+  const [sourceContent, setSourceContent] = useState<string | null>(null);
+
+  // Load the source's headings so a section can be chosen in place
+  useEffect(() => {
+    if (!articleId) return;
+    return subscribeToArticle(articleId, (article) => {
+      setSourceContent(article?.content || null);
+    });
+  }, [articleId]);
+
+  const headings = useMemo(
+    () => (sourceContent ? getHeadingOutline(processArticleContent(sourceContent)) : []),
+    [sourceContent]
+  );
+
+  const handleModeChange = (newMode: 'card' | 'section') => {
+    updateAttributes({
+      mode: newMode,
+      sectionId: newMode === 'section' ? sectionId || headings[0]?.id || null : null,
+    });
+  };
+
+  return (
+    <NodeViewWrapper
+      className={`my-4 rounded-xl border ${
+        selected ? 'border-blue-400 ring-2 ring-blue-100' : 'border-gray-200'
+      }`}
+    >
+      <div
+        className="flex flex-wrap items-center gap-3 px-3 py-1.5 bg-gray-50 border-b border-gray-200 rounded-t-xl text-xs text-gray-600"
+        contentEditable={false}
+      >
+        <span className="flex items-center font-medium">
+          <FileSymlink className="h-3.5 w-3.5 mr-1" />
+          Embedded article
+        </span>
+
+        {editor.isEditable && (
+          <>
+            <div className="flex rounded-md border border-gray-300 overflow-hidden">
+              {(['card', 'section'] as const).map((embedMode) => (
+                <button
+                  key={embedMode}
+                  type="button"
+                  onClick={() => handleModeChange(embedMode)}
+                  disabled={embedMode === 'section' && headings.length === 0}
+                  className={`px-2 py-0.5 capitalize disabled:opacity-50 ${
+                    mode === embedMode ? 'bg-blue-600 text-white' : 'bg-white hover:bg-gray-100'
+                  }`}
+                >
+                  {embedMode}
+                </button>
+              ))}
+            </div>
+
+            {mode === 'section' && headings.length > 0 && (
+              <select
+                value={sectionId || ''}
+                onChange={(e) => updateAttributes({ sectionId: e.target.value || null })}
+                className="max-w-xs bg-white border border-gray-300 rounded px-1.5 py-0.5 text-xs focus:outline-none focus:ring-1 focus:ring-blue-500"
+                title="Section to show"
+              >
+                {headings.map((heading) => (
+                  <option key={heading.id} value={heading.id}>
+                    {' '.repeat((heading.level - 1) * 2)}
+                    {heading.text}
+                  </option>
+                ))}
+              </select>
+            )}
+          </>
+        )}
+      </div>
+
+      <div className="p-3" contentEditable={false}>
+        {articleId ? (
+          <EmbeddedArticle articleId={articleId} mode={mode} sectionId={sectionId} />
+        ) : (
+          <p className="text-sm text-gray-500">No article selected.</p>
+        )}
+      </div>
+    </NodeViewWrapper>
+  );
+};
@@ -0,0 +1,71 @@
+import React, { useState, useEffect } from 'react';
+import { NodeViewWrapper, NodeViewContent, NodeViewProps } from '@tiptap/react';
+import { CALLOUT_TYPES, CalloutType } from '../extensions/CalloutExtension';
+
+export const CalloutNodeView: React.FC<NodeViewProps> = ({
+  node,
+  updateAttributes,
+  editor,
+}) => {
+  const { type, title } = node.attrs as { type: CalloutType; title: string | null };
+  const [titleText, setTitleText] = useState(title || '');
+
+  // Update local title text when node attributes change (e.g. undo)
+  useEffect(() => {
+    setTitleText(title || '');
+  }, [title]);
+
+  const saveTitle = () => {
+    if (titleText.trim() !== (title || '')) {
+      updateAttributes({ title: titleText.trim() || null });
+    }
+  };
+
+  const handleTitleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      saveTitle();
+      // Move the cursor into the callout content
+      editor.commands.focus();
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      setTitleText(title || '');
+      e.currentTarget.blur();
+    }
+  };
+
+  return (
+    <NodeViewWrapper className={`callout callout-${type}`} data-callout-type={type}>
+      {/* Callout Header */}
+      <div className="callout-header" contentEditable={false}>
+        <span className="callout-icon">{CALLOUT_TYPES[type]?.icon}</span>
+        <select
+          value={type}
+          onChange={(e) => updateAttributes({ type: e.target.value })}
+          disabled={!editor.isEditable}
+          className="text-sm font-semibold bg-transparent border-none focus:outline-none focus:ring-0 cursor-pointer p-0 pr-6"
+          title="Callout type"
+        >
+          {(Object.keys(CALLOUT_TYPES) as CalloutType[]).map((calloutType) => (
+            <option key={calloutType} value={calloutType}>
+              {CALLOUT_TYPES[calloutType].label}
+            </option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={titleText}
+          onChange={(e) => setTitleText(e.target.value)}
+          onKeyDown={handleTitleKeyDown}
+          onBlur={saveTitle}
+          disabled={!editor.isEditable}
+          placeholder="Optional title..."
+          className="flex-1 min-w-0 text-sm font-semibold bg-transparent border-none focus:outline-none focus:ring-0 p-0"
+        />
+      </div>
+
+      {/* Rich Callout Content */}
+      <NodeViewContent className="callout-content" />
+    </NodeViewWrapper>
+  );
+};
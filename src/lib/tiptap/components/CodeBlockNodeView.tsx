@@ -0,0 +1,83 @@
+import React, { useState, useEffect } from 'react';
+import { NodeViewWrapper, NodeViewContent, NodeViewProps } from '@tiptap/react';
+import { CODE_LANGUAGES } from '../utils/codeLanguages';
+
+export const CodeBlockNodeView: React.FC<NodeViewProps> = ({
+  node,
+  updateAttributes,
+  editor,
+}) => {
+  const { language, lineNumbers, highlightLines } = node.attrs;
+  const [rangesText, setRangesText] = useState(highlightLines || '');
+
+  // Update local ranges when node attributes change (e.g. undo)
+  useEffect(() => {
+    setRangesText(highlightLines || '');
+  }, [highlightLines]);
+
+  const saveRanges = () => {
+    const ranges = rangesText.replace(/\s+/g, '');
+    if (ranges !== (highlightLines || '')) {
+      updateAttributes({ highlightLines: ranges || null });
+    }
+  };
+
+  return (
+    <NodeViewWrapper className="editor-code-block">
+      {/* Code Block Settings */}
+      <div
+        className="flex flex-wrap items-center gap-3 px-3 py-1.5 bg-gray-200/70 rounded-t-lg text-xs text-gray-600"
+        contentEditable={false}
+      >
+        <select
+          value={language || ''}
+          onChange={(e) => updateAttributes({ language: e.target.value || null })}
+          disabled={!editor.isEditable}
+          className="bg-transparent border-none text-xs font-medium text-gray-700 focus:outline-none focus:ring-0 cursor-pointer py-0 pl-0 pr-6"
+          title="Language"
+        >
+          <option value="">Plain text</option>
+          {CODE_LANGUAGES.map((codeLanguage) => (
+            <option key={codeLanguage.value} value={codeLanguage.value}>
+              {codeLanguage.label}
+            </option>
+          ))}
+        </select>
+
+        <label className="flex items-center space-x-1 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={!!lineNumbers}
+            onChange={(e) => updateAttributes({ lineNumbers: e.target.checked })}
+            disabled={!editor.isEditable}
+            className="h-3 w-3 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+          <span>Line numbers</span>
+        </label>
+
+        <label className="flex items-center space-x-1">
+          <span>Highlight lines</span>
+          <input
+            type="text"
+            value={rangesText}
+            onChange={(e) => setRangesText(e.target.value)}
+            onBlur={saveRanges}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                saveRanges();
+              }
+            }}
+            disabled={!editor.isEditable}
+            placeholder="e.g. 1,3-5"
+            className="w-24 bg-white border border-gray-300 rounded px-1.5 py-0.5 text-xs focus:outline-none focus:ring-1 focus:ring-blue-500"
+          />
+        </label>
+      </div>
+
+      <pre className="bg-gray-100 rounded-b-lg p-4 font-mono text-sm !mt-0">
+        <NodeViewContent as="code" className={language ? `language-${language}` : undefined} />
+      </pre>
+    </NodeViewWrapper>
+  );
+};
@@ -0,0 +1,185 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Editor } from '@tiptap/react';
+import {
+  ChevronUp,
+  ChevronDown,
+  CaseSensitive,
+  WholeWord,
+  Replace,
+  ReplaceAll,
+  X,
+} from 'lucide-react';
+import { SearchReplacePluginKey } from '../extensions/SearchReplaceExtension';
+
+interface FindReplacePanelProps {
+  editor: Editor;
+  onClose: () => void;
+}
+
+export const FindReplacePanel: React.FC<FindReplacePanelProps> = ({ editor, onClose }) => {
+  const search = SearchReplacePluginKey.getState(editor.state);
+  const [searchTerm, setSearchTerm] = useState(search?.searchTerm || '');
+  const [replacement, setReplacement] = useState('');
+  const searchInputRef = useRef<HTMLInputElement>(null);
+
+  // Start with the selected text, like find in a word processor
+  useEffect(() => {
+    const { from, to } = editor.state.selection;
+    const selectedText = editor.state.doc.textBetween(from, to, '\n');
+    if (selectedText && !selectedText.includes('\n')) {
+      setSearchTerm(selectedText);
+      editor.commands.setSearchQuery({ searchTerm: selectedText });
+    }
+
+    searchInputRef.current?.focus();
+    searchInputRef.current?.select();
+
+    // Remove the highlights when the panel closes
+    return () => {
+      if (!editor.isDestroyed) {
+        editor.commands.setSearchQuery({ searchTerm: '' });
+      }
+    };
+  }, [editor]);
+
+  const resultCount = search?.results.length || 0;
+
+  const handleSearchChange = (value: string) => {
+    setSearchTerm(value);
+    editor.commands.setSearchQuery({ searchTerm: value });
+  };
+
+  const handleClose = () => {
+    onClose();
+    editor.commands.focus();
+  };
+
+  const handleSearchKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      if (e.shiftKey) {
+        editor.commands.goToPreviousSearchResult();
+      } else {
+        editor.commands.goToNextSearchResult();
+      }
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      handleClose();
+    }
+  };
+
+  const handleReplaceKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      editor.commands.replaceSearchResult(replacement);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      handleClose();
+    }
+  };
+
+  const optionClass = (active: boolean | undefined) =>
+    `p-1.5 rounded-md ${
+      active ? 'bg-blue-100 text-blue-700' : 'text-gray-500 hover:bg-gray-100'
+    }`;
+
+  return (
+    <div className="border-b border-gray-200 bg-gray-50 px-3 py-2 flex flex-wrap items-center gap-2 flex-shrink-0">
+      <div className="flex items-center bg-white border border-gray-300 rounded-lg pr-1 focus-within:ring-2 focus-within:ring-blue-500">
+        <input
+          ref={searchInputRef}
+          type="text"
+          value={searchTerm}
+          onChange={(e) => handleSearchChange(e.target.value)}
+          onKeyDown={handleSearchKeyDown}
+          placeholder="Find"
+          className="w-48 px-2 py-1 text-sm bg-transparent focus:outline-none"
+        />
+        <span className="text-xs text-gray-500 whitespace-nowrap px-1 min-w-[3.5rem] text-right">
+          {searchTerm
+            ? resultCount > 0
+              ? `${(search?.activeIndex || 0) + 1} of ${resultCount}`
+              : 'No results'
+            : ''}
+        </span>
+        <button
+          type="button"
+          onClick={() =>
+            editor.commands.setSearchQuery({ caseSensitive: !search?.caseSensitive })
+          }
+          className={optionClass(search?.caseSensitive)}
+          title="Match case"
+          aria-pressed={!!search?.caseSensitive}
+        >
+          <CaseSensitive className="h-4 w-4" />
+        </button>
+        <button
+          type="button"
+          onClick={() => editor.commands.setSearchQuery({ wholeWord: !search?.wholeWord })}
+          className={optionClass(search?.wholeWord)}
+          title="Match whole word"
+          aria-pressed={!!search?.wholeWord}
+        >
+          <WholeWord className="h-4 w-4" />
+        </button>
+      </div>
+
+      <button
+        type="button"
+        onClick={() => editor.commands.goToPreviousSearchResult()}
+        disabled={resultCount === 0}
+        className="p-1.5 rounded-md text-gray-600 hover:bg-gray-200 disabled:opacity-50"
+        title="Previous match (Shift+Enter)"
+      >
+        <ChevronUp className="h-4 w-4" />
+      </button>
+      <button
+        type="button"
+        onClick={() => editor.commands.goToNextSearchResult()}
+        disabled={resultCount === 0}
+        className="p-1.5 rounded-md text-gray-600 hover:bg-gray-200 disabled:opacity-50"
+        title="Next match (Enter)"
+      >
+        <ChevronDown className="h-4 w-4" />
+      </button>
+
+      <input
+        type="text"
+        value={replacement}
+        onChange={(e) => setReplacement(e.target.value)}
+        onKeyDown={handleReplaceKeyDown}
+        placeholder="Replace with"
+        className="w-48 px-2 py-1 text-sm bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+      />
+      <button
+        type="button"
+        onClick={() => editor.commands.replaceSearchResult(replacement)}
+        disabled={resultCount === 0}
+        className="flex items-center space-x-1 px-2 py-1 text-sm rounded-md text-gray-700 hover:bg-gray-200 disabled:opacity-50"
+        title="Replace this match (Enter)"
+      >
+        <Replace className="h-4 w-4" />
+        <span>Replace</span>
+      </button>
+      <button
+        type="button"
+        onClick={() => editor.commands.replaceAllSearchResults(replacement)}
+        disabled={resultCount === 0}
+        className="flex items-center space-x-1 px-2 py-1 text-sm rounded-md text-gray-700 hover:bg-gray-200 disabled:opacity-50"
+        title="Replace all matches"
+      >
+        <ReplaceAll className="h-4 w-4" />
+        <span>All</span>
+      </button>
+
+      <button
+        type="button"
+        onClick={handleClose}
+        className="ml-auto p-1.5 rounded-md text-gray-500 hover:bg-gray-200"
+        title="Close (Esc)"
+      >
+        <X className="h-4 w-4" />
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,80 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { NodeViewWrapper, NodeViewProps } from '@tiptap/react';
+
+export const FootnoteNodeView: React.FC<NodeViewProps> = ({
+  node,
+  updateAttributes,
+  selected,
+  editor,
+  getPos,
+}) => {
+  const note: string = node.attrs.note || '';
+  const [text, setText] = useState(note);
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+
+  // Newly inserted, empty footnotes open straight into editing
+  const isEditing = editor.isEditable && (selected || !note);
+
+  // Update local text when node attributes change (e.g. undo)
+  useEffect(() => {
+    setText(note);
+  }, [note]);
+
+  useEffect(() => {
+    if (isEditing && selected) {
+      inputRef.current?.focus();
+    }
+  }, [isEditing, selected]);
+
+  const handleChange = (value: string) => {
+    setText(value);
+    updateAttributes({ note: value });
+  };
+
+  // Leave the footnote and continue writing after it
+  const exitFootnote = () => {
+    if (typeof getPos !== 'function') return;
+    editor
+      .chain()
+      .focus()
+      .setTextSelection(getPos() + node.nodeSize)
+      .run();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape' || (e.key === 'Enter' && !e.shiftKey)) {
+      e.preventDefault();
+      exitFootnote();
+    }
+  };
+
+  return (
+    <NodeViewWrapper
+      as="span"
+      className={`editor-footnote relative rounded ${
+        selected ? 'bg-blue-50 ring-2 ring-blue-200' : 'hover:bg-gray-100'
+      }`}
+      title={note || 'Empty footnote'}
+    >
+      {/* The number comes from a CSS counter, so it follows document order */}
+      <sup className="editor-footnote-number" contentEditable={false} />
+      {isEditing && (
+        <span
+          className="absolute left-0 top-full mt-1 z-20 block w-72 bg-white border border-gray-300 rounded-md shadow-lg p-2"
+          contentEditable={false}
+        >
+          <textarea
+            ref={inputRef}
+            value={text}
+            onChange={(e) => handleChange(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Footnote or citation, e.g. RFC 9110, section 15.5"
+            rows={3}
+            className="w-full text-sm leading-snug border border-gray-200 rounded px-2 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <span className="block text-xs text-gray-500 mt-1">Enter or Esc to finish</span>
+        </span>
+      )}
+    </NodeViewWrapper>
+  );
+};
@@ -0,0 +1,231 @@
+import React, { useState, useRef } from 'react';
+import { NodeViewWrapper, NodeViewProps } from '@tiptap/react';
+import { GripVertical, ImagePlus, Link as LinkIcon, Loader2, Trash2, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import {
+  GalleryImage,
+  GALLERY_COLUMN_OPTIONS,
+  ImageGalleryOptions,
+} from '../extensions/ImageGalleryExtension';
+
+export const ImageGalleryNodeView: React.FC<NodeViewProps> = ({
+  node,
+  updateAttributes,
+  deleteNode,
+  selected,
+  editor,
+  extension,
+}) => {
+  const images: GalleryImage[] = node.attrs.images || [];
+  const columns: number = node.attrs.columns;
+  const { uploadImage } = extension.options as ImageGalleryOptions;
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const [uploadingCount, setUploadingCount] = useState(0);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const isEditable = editor.isEditable;
+
+  const setImages = (nextImages: GalleryImage[]) => updateAttributes({ images: nextImages });
+
+  // Read the latest images when an upload finishes, not the ones it started with
+  const imagesRef = useRef(images);
+  imagesRef.current = images;
+
+  const updateCaption = (index: number, caption: string) => {
+    setImages(
+      images.map((image, i) => (i === index ? { ...image, caption: caption || undefined } : image))
+    );
+  };
+
+  const removeImage = (index: number) => {
+    setImages(images.filter((_, i) => i !== index));
+  };
+
+  const addImageFromUrl = () => {
+    const url = window.prompt('Enter image URL:');
+    if (url) {
+      setImages([...images, { src: url }]);
+    }
+  };
+
+  const handleFilesSelected = async (files: FileList | null) => {
+    if (!files || !uploadImage) return;
+
+    const imageFiles = Array.from(files).filter((file) => file.type.startsWith('image/'));
+    setUploadingCount((count) => count + imageFiles.length);
+
+    await Promise.all(
+      imageFiles.map(async (file) => {
+        try {
+          const src = await uploadImage(file, () => {});
+          imagesRef.current = [...imagesRef.current, { src, alt: file.name }];
+          setImages(imagesRef.current);
+        } catch (error) {
+          console.error('Error uploading gallery image:', error);
+          toast.error(`Failed to upload ${file.name}`);
+        } finally {
+          setUploadingCount((count) => count - 1);
+        }
+      })
+    );
+  };
+
+  const handleDrop = (targetIndex: number) => {
+    if (dragIndex === null || dragIndex === targetIndex) return;
+
+    const reordered = [...images];
+    const [moved] = reordered.splice(dragIndex, 1);
+    reordered.splice(targetIndex, 0, moved);
+    setImages(reordered);
+  };
+
+  return (
+    <NodeViewWrapper
+      className={`my-4 rounded-xl border ${
+        selected ? 'border-blue-400 ring-2 ring-blue-100' : 'border-gray-200'
+      }`}
+    >
+      {isEditable && (
+        <div
+          className="flex flex-wrap items-center gap-3 px-3 py-1.5 bg-gray-50 border-b border-gray-200 rounded-t-xl text-xs text-gray-600"
+          contentEditable={false}
+        >
+          <span
+            className="flex items-center font-medium cursor-grab"
+            data-drag-handle
+            draggable
+            title="Drag to move the gallery"
+          >
+            <GripVertical className="h-3.5 w-3.5 mr-1" />
+            Gallery
+          </span>
+
+          <label className="flex items-center space-x-1">
+            <span>Columns</span>
+            <select
+              value={columns}
+              onChange={(e) => updateAttributes({ columns: Number(e.target.value) })}
+              className="bg-white border border-gray-300 rounded px-1.5 py-0.5 text-xs focus:outline-none focus:ring-1 focus:ring-blue-500"
+            >
+              {GALLERY_COLUMN_OPTIONS.map((option) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          {uploadImage && (
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              className="flex items-center text-blue-600 hover:text-blue-800"
+            >
+              <ImagePlus className="h-3.5 w-3.5 mr-1" />
+              Upload
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={addImageFromUrl}
+            className="flex items-center text-blue-600 hover:text-blue-800"
+          >
+            <LinkIcon className="h-3.5 w-3.5 mr-1" />
+            Add from URL
+          </button>
+          {uploadingCount > 0 && (
+            <span className="flex items-center text-gray-500">
+              <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />
+              Uploading {uploadingCount}…
+            </span>
+          )}
+
+          <button
+            type="button"
+            onClick={deleteNode}
+            className="ml-auto p-1 text-gray-400 hover:text-red-600"
+            title="Delete gallery"
+          >
+            <Trash2 className="h-3.5 w-3.5" />
+          </button>
+
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/*"
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              handleFilesSelected(e.target.files);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      )}
+
+      <div className="p-3" contentEditable={false}>
+        {images.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-6">
+            No images yet. Upload images or add them from a URL.
+          </p>
+        ) : (
+          <div className="image-gallery !my-0" data-columns={columns}>
+            {images.map((image, index) => (
+              <figure
+                key={`${image.src}-${index}`}
+                className={`image-gallery-item relative group ${
+                  dropIndex === index && dragIndex !== index ? 'ring-2 ring-blue-400 rounded-lg' : ''
+                } ${dragIndex === index ? 'opacity-50' : ''}`}
+                draggable={isEditable}
+                onDragStart={(e) => {
+                  e.stopPropagation();
+                  e.dataTransfer.effectAllowed = 'move';
+                  e.dataTransfer.setData('text/plain', String(index));
+                  setDragIndex(index);
+                }}
+                onDragOver={(e) => {
+                  if (dragIndex === null) return;
+                  e.preventDefault();
+                  setDropIndex(index);
+                }}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  handleDrop(index);
+                  setDragIndex(null);
+                  setDropIndex(null);
+                }}
+                onDragEnd={() => {
+                  setDragIndex(null);
+                  setDropIndex(null);
+                }}
+              >
+                <img src={image.src} alt={image.alt || image.caption || ''} draggable={false} />
+                {isEditable ? (
+                  <input
+                    type="text"
+                    value={image.caption || ''}
+                    onChange={(e) => updateCaption(index, e.target.value)}
+                    placeholder="Add a caption…"
+                    className="w-full mt-1 text-xs text-center text-gray-600 bg-transparent border-none focus:outline-none focus:ring-1 focus:ring-blue-500 rounded"
+                  />
+                ) : (
+                  image.caption && <figcaption>{image.caption}</figcaption>
+                )}
+                {isEditable && (
+                  <button
+                    type="button"
+                    onClick={() => removeImage(index)}
+                    className="absolute top-1 right-1 p-1 rounded-full bg-black/60 text-white opacity-0 group-hover:opacity-100 transition-opacity"
+                    title="Remove image"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                )}
+              </figure>
+            ))}
+          </div>
+        )}
+      </div>
+    </NodeViewWrapper>
+  );
+};
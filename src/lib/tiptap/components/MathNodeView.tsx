@@ -0,0 +1,116 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { NodeViewWrapper, NodeViewProps } from '@tiptap/react';
+import { renderMath } from '../utils/mathRenderer';
+
+export const MathNodeView: React.FC<NodeViewProps> = ({
+  node,
+  updateAttributes,
+  selected,
+  editor,
+  getPos,
+}) => {
+  const isBlock = node.type.name === 'mathBlock';
+  const latex: string = node.attrs.latex || '';
+  const [source, setSource] = useState(latex);
+  const inputRef = useRef<HTMLTextAreaElement & HTMLInputElement>(null);
+
+  // Newly inserted, empty formulas open straight into editing
+  const isEditing = editor.isEditable && (selected || !latex);
+
+  // Update local source when node attributes change (e.g. undo)
+  useEffect(() => {
+    setSource(latex);
+  }, [latex]);
+
+  useEffect(() => {
+    if (isEditing && selected) {
+      inputRef.current?.focus();
+    }
+  }, [isEditing, selected]);
+
+  const handleChange = (value: string) => {
+    setSource(value);
+    updateAttributes({ latex: value });
+  };
+
+  // Leave the formula and continue writing after it
+  const exitFormula = () => {
+    if (typeof getPos !== 'function') return;
+    editor
+      .chain()
+      .focus()
+      .setTextSelection(getPos() + node.nodeSize)
+      .run();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape' || (e.key === 'Enter' && (!isBlock || e.metaKey || e.ctrlKey))) {
+      e.preventDefault();
+      exitFormula();
+    }
+  };
+
+  const preview = source.trim() ? (
+    <span
+      className={isBlock ? 'math-block' : 'math-inline'}
+      dangerouslySetInnerHTML={{ __html: renderMath(source, isBlock) }}
+    />
+  ) : (
+    <span className="text-gray-400 italic text-sm">Empty formula</span>
+  );
+
+  if (isBlock) {
+    return (
+      <NodeViewWrapper
+        className={`my-4 rounded-lg border ${
+          selected ? 'border-blue-400 ring-2 ring-blue-100' : 'border-transparent hover:border-gray-200'
+        }`}
+      >
+        <div className="px-4 py-2 text-center" contentEditable={false}>
+          {preview}
+        </div>
+        {isEditing && (
+          <div className="border-t border-gray-200 bg-gray-50 p-2 rounded-b-lg" contentEditable={false}>
+            <textarea
+              ref={inputRef}
+              value={source}
+              onChange={(e) => handleChange(e.target.value)}
+              onKeyDown={handleKeyDown}
+              placeholder="LaTeX, e.g. \sum_{i=1}^{n} x_i^2"
+              rows={Math.min(6, Math.max(2, source.split('\n').length))}
+              className="w-full font-mono text-sm bg-white border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <p className="text-xs text-gray-500 mt-1">Ctrl+Enter or Esc to finish</p>
+          </div>
+        )}
+      </NodeViewWrapper>
+    );
+  }
+
+  return (
+    <NodeViewWrapper
+      as="span"
+      className={`relative inline-block align-middle rounded px-0.5 ${
+        selected ? 'bg-blue-50 ring-2 ring-blue-200' : 'hover:bg-gray-100'
+      }`}
+    >
+      <span contentEditable={false}>{preview}</span>
+      {isEditing && (
+        <span
+          className="absolute left-0 top-full mt-1 z-20 flex items-center bg-white border border-gray-300 rounded-md shadow-lg p-1"
+          contentEditable={false}
+        >
+          <input
+            ref={inputRef}
+            type="text"
+            value={source}
+            onChange={(e) => handleChange(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="LaTeX, e.g. E = mc^2"
+            className="w-64 font-mono text-sm px-2 py-1 focus:outline-none"
+          />
+        </span>
+      )}
+    </NodeViewWrapper>
+  );
+};
@@ -0,0 +1,103 @@
+import React, { useState, useEffect } from 'react';
+import { NodeViewWrapper, NodeViewProps } from '@tiptap/react';
+import { AlertTriangle, Loader2, Workflow } from 'lucide-react';
+import { renderMermaid, MermaidRenderResult } from '../utils/mermaidRenderer';
+
+// Wait for a pause in typing before re-rendering the preview
+const RENDER_DELAY_MS = 400;
+
+export const MermaidNodeView: React.FC<NodeViewProps> = ({
+  node,
+  updateAttributes,
+  selected,
+  editor,
+}) => {
+  const source: string = node.attrs.source || '';
+  const [draft, setDraft] = useState(source);
+  const [result, setResult] = useState<MermaidRenderResult | null>(null);
+  const [rendering, setRendering] = useState(true);
+
+  const isEditing = editor.isEditable && selected;
+
+  // Update local source when node attributes change (e.g. undo)
+  useEffect(() => {
+    setDraft(source);
+  }, [source]);
+
+  // Live preview of the diagram while editing
+  useEffect(() => {
+    let cancelled = false;
+    setRendering(true);
+
+    const timer = setTimeout(async () => {
+      const rendered = await renderMermaid(source);
+      if (!cancelled) {
+        setResult(rendered);
+        setRendering(false);
+      }
+    }, RENDER_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [source]);
+
+  const handleChange = (value: string) => {
+    setDraft(value);
+    updateAttributes({ source: value });
+  };
+
+  return (
+    <NodeViewWrapper
+      className={`my-4 rounded-lg border ${
+        selected ? 'border-blue-400 ring-2 ring-blue-100' : 'border-gray-200'
+      }`}
+    >
+      <div
+        className="flex items-center justify-between px-3 py-1.5 bg-gray-50 border-b border-gray-200 rounded-t-lg text-xs text-gray-500"
+        contentEditable={false}
+      >
+        <span className="flex items-center font-medium">
+          <Workflow className="h-3.5 w-3.5 mr-1" />
+          Mermaid diagram
+        </span>
+        {!isEditing && editor.isEditable && <span>Click to edit</span>}
+      </div>
+
+      {/* Source editor (when selected) */}
+      {isEditing && (
+        <div className="p-2 border-b border-gray-200" contentEditable={false}>
+          <textarea
+            value={draft}
+            onChange={(e) => handleChange(e.target.value)}
+            rows={Math.min(14, Math.max(4, draft.split('\n').length + 1))}
+            spellCheck={false}
+            className="w-full font-mono text-sm bg-white border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+      )}
+
+      {/* Rendered Preview */}
+      <div className="p-4 overflow-x-auto" contentEditable={false}>
+        {rendering && !result ? (
+          <div className="flex items-center justify-center py-6 text-gray-400">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        ) : result?.svg ? (
+          <div
+            className="mermaid-diagram"
+            dangerouslySetInnerHTML={{ __html: result.svg }}
+          />
+        ) : (
+          <div className="flex items-start space-x-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+            <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+            <span className="whitespace-pre-wrap">
+              Diagram could not be rendered: {result?.error}
+            </span>
+          </div>
+        )}
+      </div>
+    </NodeViewWrapper>
+  );
+};
@@ -0,0 +1,102 @@
+import {
+  useState,
+  useEffect,
+  useRef,
+  forwardRef,
+  useImperativeHandle,
+} from 'react';
+import { SlashCommandItem } from '../extensions/SlashCommandExtension';
+
+export interface SlashCommandMenuProps {
+  items: SlashCommandItem[];
+  command: (item: SlashCommandItem) => void;
+}
+
+export interface SlashCommandMenuHandle {
+  onKeyDown: (event: KeyboardEvent) => boolean;
+}
+
+export const SlashCommandMenu = forwardRef<SlashCommandMenuHandle, SlashCommandMenuProps>(
+  ({ items, command }, ref) => {
+    const [selectedIndex, setSelectedIndex] = useState(0);
+    const listRef = useRef<HTMLDivElement>(null);
+
+    // Start from the best match whenever the filtered items change
+    useEffect(() => {
+      setSelectedIndex(0);
+    }, [items]);
+
+    // Keep the highlighted item visible while navigating with the keyboard
+    useEffect(() => {
+      listRef.current
+        ?.querySelector(`[data-index="${selectedIndex}"]`)
+        ?.scrollIntoView({ block: 'nearest' });
+    }, [selectedIndex]);
+
+    const selectItem = (index: number) => {
+      const item = items[index];
+      if (item) {
+        command(item);
+      }
+    };
+
+    useImperativeHandle(ref, () => ({
+      onKeyDown: (event: KeyboardEvent) => {
+        if (items.length === 0) return false;
+
+        if (event.key === 'ArrowUp') {
+          setSelectedIndex((selectedIndex + items.length - 1) % items.length);
+          return true;
+        }
+        if (event.key === 'ArrowDown') {
+          setSelectedIndex((selectedIndex + 1) % items.length);
+          return true;
+        }
+        if (event.key === 'Enter' || event.key === 'Tab') {
+          selectItem(selectedIndex);
+          return true;
+        }
+        return false;
+      },
+    }));
+
+    return (
+      <div
+        ref={listRef}
+        className="w-72 max-h-80 overflow-y-auto bg-white rounded-xl shadow-2xl border border-gray-200 p-1"
+        role="listbox"
+      >
+        {items.length === 0 ? (
+          <div className="px-3 py-2 text-sm text-gray-500">No matching blocks</div>
+        ) : (
+          items.map((item, index) => (
+            <button
+              key={item.title}
+              data-index={index}
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => selectItem(index)}
+              onMouseEnter={() => setSelectedIndex(index)}
+              className={`w-full flex items-center space-x-3 px-3 py-2 rounded-lg text-left transition-colors ${
+                index === selectedIndex ? 'bg-blue-50 text-blue-700' : 'text-gray-700'
+              }`}
+              role="option"
+              aria-selected={index === selectedIndex}
+            >
+              <span className="flex-shrink-0 p-1.5 bg-white border border-gray-200 rounded-md">
+                <item.icon className="h-4 w-4" />
+              </span>
+              <span className="min-w-0">
+                <span className="block text-sm font-medium truncate">{item.title}</span>
+                <span className="block text-xs text-gray-500 truncate">
+                  {item.description}
+                </span>
+              </span>
+            </button>
+          ))
+        )}
+      </div>
+    );
+  }
+);
+
+SlashCommandMenu.displayName = 'SlashCommandMenu';
@@ -6,3 +6,12 @@
 
 export { ImageNodeView } from './ImageNodeView';
 export { ImageToolbar } from './ImageToolbar';
+export { CalloutNodeView } from './CalloutNodeView';
+export { SlashCommandMenu } from './SlashCommandMenu';
+export { MathNodeView } from './MathNodeView';
+export { MermaidNodeView } from './MermaidNodeView';
+export { CodeBlockNodeView } from './CodeBlockNodeView';
+export { ArticleEmbedNodeView } from './ArticleEmbedNodeView';
+export { FootnoteNodeView } from './FootnoteNodeView';
+export { FindReplacePanel } from './FindReplacePanel';
+export { ImageGalleryNodeView } from './ImageGalleryNodeView';
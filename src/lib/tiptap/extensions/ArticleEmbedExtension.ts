@@ -0,0 +1,84 @@
+import { Node, mergeAttributes } from '@tiptap/core';
+import { ReactNodeViewRenderer } from '@tiptap/react';
+import { ArticleEmbedNodeView } from '../components/ArticleEmbedNodeView';
+
+export interface ArticleEmbedAttributes {
+  articleId: string;
+  mode: 'card' | 'section';
+  sectionId?: string | null;
+}
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    articleEmbed: {
+      /**
+       * Embed another article as a preview card or a transcluded section
+       */
+      insertArticleEmbed: (attributes: ArticleEmbedAttributes) => ReturnType;
+    };
+  }
+}
+
+/**
+ * Reference to another article by ID. Only the reference is stored; the
+ * card or section is loaded live when the article is displayed.
+ */
+export const ArticleEmbedExtension = Node.create({
+  name: 'articleEmbed',
+
+  group: 'block',
+
+  atom: true,
+
+  selectable: true,
+
+  draggable: true,
+
+  addAttributes() {
+    return {
+      articleId: {
+        default: null,
+        parseHTML: element => element.getAttribute('data-article-id'),
+        renderHTML: attributes => ({ 'data-article-id': attributes.articleId }),
+      },
+      mode: {
+        default: 'card',
+        parseHTML: element =>
+          element.getAttribute('data-embed-mode') === 'section' ? 'section' : 'card',
+        renderHTML: attributes => ({ 'data-embed-mode': attributes.mode }),
+      },
+      sectionId: {
+        default: null,
+        parseHTML: element => element.getAttribute('data-section-id') || null,
+        renderHTML: attributes => {
+          if (!attributes.sectionId) return {};
+          return { 'data-section-id': attributes.sectionId };
+        },
+      },
+    };
+  },
+
+  parseHTML() {
+    return [
+      {
+        tag: 'div[data-article-embed]',
+      },
+    ];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ['div', mergeAttributes(HTMLAttributes, { 'data-article-embed': '' })];
+  },
+
+  addNodeView() {
+    return ReactNodeViewRenderer(ArticleEmbedNodeView);
+  },
+
+  addCommands() {
+    return {
+      insertArticleEmbed: attributes => ({ commands }) => {
+        return commands.insertContent({ type: this.name, attrs: attributes });
+      },
+    };
+  },
+});
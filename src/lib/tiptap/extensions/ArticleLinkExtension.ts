@@ -0,0 +1,162 @@
+import Link from '@tiptap/extension-link';
+import { Plugin, PluginKey } from '@tiptap/pm/state';
+import { Decoration, DecorationSet, EditorView } from '@tiptap/pm/view';
+import { MarkType, Node as ProseMirrorNode } from '@tiptap/pm/model';
+import {
+  ArticleLinkStatus,
+  getArticleLinkStatuses,
+  getArticleLinkStatusMessage,
+} from '../../articles';
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    articleLink: {
+      /**
+       * Link the selection to another article, or insert the article's
+       * title as a link when nothing is selected
+       */
+      setArticleLink: (attributes: { articleId: string; text: string }) => ReturnType;
+    };
+  }
+}
+
+export const ArticleLinkPluginKey = new PluginKey<Record<string, ArticleLinkStatus>>('articleLink');
+
+/**
+ * Internal links are stored by article ID, which never changes, and open
+ * through the ID fallback of the article route
+ */
+export const getArticleLinkHref = (articleId: string): string => `#/article/${articleId}`;
+
+const collectArticleIds = (doc: ProseMirrorNode, linkType: MarkType): string[] => {
+  const articleIds = new Set<string>();
+
+  doc.descendants(node => {
+    node.marks.forEach(mark => {
+      if (mark.type === linkType && mark.attrs.articleId) {
+        articleIds.add(mark.attrs.articleId);
+      }
+    });
+  });
+
+  return Array.from(articleIds);
+};
+
+/**
+ * Link mark that also links to InfoNest articles, e.g.
+ * <a href="#/article/abc123" data-article-link="abc123">
+ * Links to articles that were deleted, archived or unpublished are checked
+ * once per editing session and flagged with the `article-link-unavailable`
+ * decoration.
+ */
+export const ArticleLinkExtension = Link.extend({
+  addAttributes() {
+    return {
+      ...this.parent?.(),
+      articleId: {
+        default: null,
+        parseHTML: element => element.getAttribute('data-article-link'),
+        renderHTML: attributes =>
+          attributes.articleId ? { 'data-article-link': attributes.articleId } : {},
+      },
+    };
+  },
+
+  addCommands() {
+    return {
+      ...this.parent?.(),
+      setArticleLink: ({ articleId, text }) => ({ state, chain }) => {
+        // Internal links open in the same tab
+        const attributes = { href: getArticleLinkHref(articleId), articleId, target: null };
+
+        if (state.selection.empty) {
+          return chain()
+            .insertContent({ type: 'text', text, marks: [{ type: this.name, attrs: attributes }] })
+            .unsetMark(this.name)
+            .run();
+        }
+
+        return chain().setMark(this.name, attributes).setMeta('preventAutolink', true).run();
+      },
+    };
+  },
+
+  addProseMirrorPlugins() {
+    const linkType = this.type;
+
+    return [
+      ...(this.parent?.() || []),
+      new Plugin<Record<string, ArticleLinkStatus>>({
+        key: ArticleLinkPluginKey,
+
+        state: {
+          init: () => ({}),
+          apply: (tr, statuses) => {
+            const checked = tr.getMeta(ArticleLinkPluginKey) as
+              | Record<string, ArticleLinkStatus>
+              | undefined;
+            return checked ? { ...statuses, ...checked } : statuses;
+          },
+        },
+
+        view: editorView => {
+          const requested = new Set<string>();
+
+          const checkLinks = (view: EditorView) => {
+            const articleIds = collectArticleIds(view.state.doc, linkType).filter(
+              articleId => !requested.has(articleId)
+            );
+            if (articleIds.length === 0) return;
+
+            articleIds.forEach(articleId => requested.add(articleId));
+            getArticleLinkStatuses(articleIds).then(statuses => {
+              if (view.isDestroyed) return;
+              view.dispatch(
+                view.state.tr
+                  .setMeta(ArticleLinkPluginKey, statuses)
+                  .setMeta('addToHistory', false)
+              );
+            });
+          };
+
+          checkLinks(editorView);
+
+          return {
+            update: (view, prevState) => {
+              if (view.state.doc !== prevState.doc) {
+                checkLinks(view);
+              }
+            },
+          };
+        },
+
+        props: {
+          decorations(state) {
+            const statuses = ArticleLinkPluginKey.getState(state) || {};
+            if (!Object.values(statuses).some(status => status !== 'available')) {
+              return DecorationSet.empty;
+            }
+
+            const decorations: Decoration[] = [];
+            state.doc.descendants((node, pos) => {
+              if (!node.isText) return;
+
+              const link = node.marks.find(mark => mark.type === linkType && mark.attrs.articleId);
+              const status = link && statuses[link.attrs.articleId];
+              if (status && status !== 'available') {
+                decorations.push(
+                  Decoration.inline(pos, pos + node.nodeSize, {
+                    class: 'article-link-unavailable',
+                    title: getArticleLinkStatusMessage(status),
+                  })
+                );
+              }
+            });
+
+            return DecorationSet.create(state.doc, decorations);
+          },
+        },
+      }),
+    ];
+  },
+});
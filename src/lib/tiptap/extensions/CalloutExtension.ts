@@ -0,0 +1,112 @@
+import { Node, mergeAttributes } from '@tiptap/core';
+import { ReactNodeViewRenderer } from '@tiptap/react';
+import { CalloutNodeView } from '../components/CalloutNodeView';
+
+export type CalloutType = 'note' | 'tip' | 'warning' | 'danger';
+
+export const CALLOUT_TYPES: Record<CalloutType, { label: string; icon: string }> = {
+  note: { label: 'Note', icon: 'ℹ️' },
+  tip: { label: 'Tip', icon: '💡' },
+  warning: { label: 'Warning', icon: '⚠️' },
+  danger: { label: 'Danger', icon: '⛔' },
+};
+
+export const isCalloutType = (value: string | null | undefined): value is CalloutType =>
+  !!value && value in CALLOUT_TYPES;
+
+export interface CalloutOptions {
+  HTMLAttributes: Record<string, unknown>;
+}
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    callout: {
+      /**
+       * Wrap the selected blocks in a callout
+       */
+      setCallout: (attributes?: { type?: CalloutType; title?: string }) => ReturnType;
+      /**
+       * Wrap the selected blocks in a callout, or unwrap them if already inside one
+       */
+      toggleCallout: (attributes?: { type?: CalloutType; title?: string }) => ReturnType;
+      /**
+       * Remove the callout around the selection, keeping its content
+       */
+      unsetCallout: () => ReturnType;
+    };
+  }
+}
+
+export const CalloutExtension = Node.create<CalloutOptions>({
+  name: 'callout',
+
+  addOptions() {
+    return {
+      HTMLAttributes: {},
+    };
+  },
+
+  group: 'block',
+
+  content: 'block+',
+
+  defining: true,
+
+  addAttributes() {
+    return {
+      type: {
+        default: 'note',
+        parseHTML: element => {
+          const type = element.getAttribute('data-callout-type');
+          return isCalloutType(type) ? type : 'note';
+        },
+        renderHTML: attributes => ({ 'data-callout-type': attributes.type }),
+      },
+      title: {
+        default: null,
+        parseHTML: element => element.getAttribute('data-callout-title') || null,
+        renderHTML: attributes => {
+          if (!attributes.title || !attributes.title.trim()) return {};
+          return { 'data-callout-title': attributes.title.trim() };
+        },
+      },
+    };
+  },
+
+  parseHTML() {
+    return [
+      {
+        tag: 'div[data-callout]',
+      },
+    ];
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    return [
+      'div',
+      mergeAttributes(this.options.HTMLAttributes, HTMLAttributes, {
+        'data-callout': '',
+        class: `callout callout-${node.attrs.type}`,
+      }),
+      0,
+    ];
+  },
+
+  addNodeView() {
+    return ReactNodeViewRenderer(CalloutNodeView);
+  },
+
+  addCommands() {
+    return {
+      setCallout: attributes => ({ commands }) => {
+        return commands.wrapIn(this.name, attributes);
+      },
+      toggleCallout: attributes => ({ commands }) => {
+        return commands.toggleWrap(this.name, attributes);
+      },
+      unsetCallout: () => ({ commands }) => {
+        return commands.lift(this.name);
+      },
+    };
+  },
+});
@@ -0,0 +1,35 @@
+import CodeBlockLowlight from '@tiptap/extension-code-block-lowlight';
+import { ReactNodeViewRenderer } from '@tiptap/react';
+import { CodeBlockNodeView } from '../components/CodeBlockNodeView';
+
+/**
+ * Highlighted code block with a language picker, optional line numbers and
+ * optional highlighted line ranges (e.g. "1,3-5")
+ */
+export const CodeBlockExtension = CodeBlockLowlight.extend({
+  addAttributes() {
+    return {
+      ...this.parent?.(),
+      lineNumbers: {
+        default: false,
+        parseHTML: element => element.hasAttribute('data-line-numbers'),
+        renderHTML: attributes => {
+          if (!attributes.lineNumbers) return {};
+          return { 'data-line-numbers': '' };
+        },
+      },
+      highlightLines: {
+        default: null,
+        parseHTML: element => element.getAttribute('data-highlight-lines') || null,
+        renderHTML: attributes => {
+          if (!attributes.highlightLines) return {};
+          return { 'data-highlight-lines': attributes.highlightLines };
+        },
+      },
+    };
+  },
+
+  addNodeView() {
+    return ReactNodeViewRenderer(CodeBlockNodeView);
+  },
+});
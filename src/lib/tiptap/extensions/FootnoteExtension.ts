@@ -0,0 +1,65 @@
+import { Node, mergeAttributes } from '@tiptap/core';
+import { ReactNodeViewRenderer } from '@tiptap/react';
+import { FootnoteNodeView } from '../components/FootnoteNodeView';
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    footnote: {
+      /**
+       * Insert a footnote reference at the cursor
+       */
+      insertFootnote: (note?: string) => ReturnType;
+    };
+  }
+}
+
+/**
+ * Footnote reference that carries its note text in data-note. References
+ * are numbered by their order in the document, both in the editor and when
+ * the article is rendered, so notes never need renumbering by hand.
+ */
+export const FootnoteExtension = Node.create({
+  name: 'footnote',
+
+  group: 'inline',
+
+  inline: true,
+
+  atom: true,
+
+  selectable: true,
+
+  addAttributes() {
+    return {
+      note: {
+        default: '',
+        parseHTML: element => element.getAttribute('data-note') || '',
+        renderHTML: attributes => ({ 'data-note': attributes.note }),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [
+      {
+        tag: 'sup[data-footnote]',
+      },
+    ];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ['sup', mergeAttributes(HTMLAttributes, { 'data-footnote': '' })];
+  },
+
+  addNodeView() {
+    return ReactNodeViewRenderer(FootnoteNodeView);
+  },
+
+  addCommands() {
+    return {
+      insertFootnote: (note = '') => ({ commands }) => {
+        return commands.insertContent({ type: this.name, attrs: { note } });
+      },
+    };
+  },
+});
@@ -0,0 +1,134 @@
+import { Node, mergeAttributes } from '@tiptap/core';
+import { ReactNodeViewRenderer } from '@tiptap/react';
+import { ImageGalleryNodeView } from '../components/ImageGalleryNodeView';
+
+export interface GalleryImage {
+  src: string;
+  alt?: string;
+  caption?: string;
+}
+
+export const GALLERY_COLUMN_OPTIONS = [2, 3, 4] as const;
+
+export interface ImageGalleryOptions {
+  /**
+   * Uploads an image added from the gallery and resolves with its public URL
+   */
+  uploadImage:
+    | ((file: File, onProgress: (percentage: number) => void) => Promise<string>)
+    | null;
+}
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    imageGallery: {
+      /**
+       * Insert a gallery of images laid out in a grid
+       */
+      insertImageGallery: (attributes?: { images?: GalleryImage[]; columns?: number }) => ReturnType;
+    };
+  }
+}
+
+const clampColumns = (columns: number): number =>
+  Math.min(Math.max(Math.round(columns) || 3, 2), 4);
+
+/**
+ * Image gallery stored as a grid of figures, e.g.
+ * <div data-image-gallery data-columns="3"><figure><img><figcaption>…
+ * The stored HTML is what readers see, so the gallery looks the same in the
+ * editor and in the article view without any render-time processing.
+ */
+export const ImageGalleryExtension = Node.create<ImageGalleryOptions>({
+  name: 'imageGallery',
+
+  group: 'block',
+
+  atom: true,
+
+  selectable: true,
+
+  draggable: true,
+
+  addOptions() {
+    return {
+      uploadImage: null,
+    };
+  },
+
+  addAttributes() {
+    return {
+      columns: {
+        default: 3,
+        parseHTML: element => clampColumns(Number(element.getAttribute('data-columns'))),
+        renderHTML: attributes => ({ 'data-columns': attributes.columns }),
+      },
+      images: {
+        default: [],
+        parseHTML: element =>
+          Array.from(element.querySelectorAll('figure')).flatMap((figure): GalleryImage[] => {
+            const img = figure.querySelector('img');
+            const src = img?.getAttribute('src');
+            if (!src) return [];
+
+            return [
+              {
+                src,
+                alt: img?.getAttribute('alt') || undefined,
+                caption: figure.querySelector('figcaption')?.textContent?.trim() || undefined,
+              },
+            ];
+          }),
+        // Rendered as child figures in renderHTML
+        renderHTML: () => ({}),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [
+      {
+        tag: 'div[data-image-gallery]',
+      },
+    ];
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    const images: GalleryImage[] = node.attrs.images || [];
+
+    return [
+      'div',
+      mergeAttributes(HTMLAttributes, { 'data-image-gallery': '', class: 'image-gallery' }),
+      ...images.map(image => [
+        'figure',
+        { class: 'image-gallery-item' },
+        ['img', { src: image.src, alt: image.alt || image.caption || '', loading: 'lazy' }],
+        ...(image.caption ? [['figcaption', {}, image.caption]] : []),
+      ]),
+    ];
+  },
+
+  addNodeView() {
+    return ReactNodeViewRenderer(ImageGalleryNodeView, {
+      // Reordering and captions are handled inside the gallery; ProseMirror
+      // only sees events from the drag handle, which moves the whole gallery
+      stopEvent: ({ event }) => !(event.target as HTMLElement).closest?.('[data-drag-handle]'),
+    });
+  },
+
+  addCommands() {
+    return {
+      insertImageGallery: (attributes = {}) => ({ commands }) => {
+        return commands.insertContent({
+          type: this.name,
+          attrs: {
+            images: attributes.images || [],
+            columns: clampColumns(
+              attributes.columns ?? Math.min(Math.max(attributes.images?.length || 3, 2), 3)
+            ),
+          },
+        });
+      },
+    };
+  },
+});
@@ -0,0 +1,179 @@
+import { Extension } from '@tiptap/core';
+import { Plugin, PluginKey } from '@tiptap/pm/state';
+import { Decoration, DecorationSet, EditorView } from '@tiptap/pm/view';
+import { cleanPastedHtml } from '../utils/pasteCleaner';
+import { parseHtmlContent } from '../../../utils/htmlUtils';
+
+export interface ImageUploadOptions {
+  /**
+   * Uploads a pasted or dropped image and resolves with its public URL
+   */
+  uploadImage:
+    | ((file: File, onProgress: (percentage: number) => void) => Promise<string>)
+    | null;
+  /**
+   * Called when an upload fails; the placeholder has already been removed
+   */
+  onUploadError: ((file: File, error: Error) => void) | null;
+}
+
+type UploadPlaceholderAction =
+  | { add: { id: object; pos: number; element: HTMLElement } }
+  | { remove: { id: object } };
+
+export const ImageUploadPluginKey = new PluginKey<DecorationSet>('imageUpload');
+
+const createPlaceholderElement = (file: File, previewUrl: string): HTMLElement => {
+  const element = document.createElement('div');
+  element.className = 'image-upload-placeholder';
+  element.contentEditable = 'false';
+
+  const preview = document.createElement('img');
+  preview.src = previewUrl;
+  preview.alt = '';
+
+  const label = document.createElement('span');
+  label.className = 'image-upload-placeholder-label';
+  label.textContent = `Uploading ${file.name}…`;
+
+  const progress = document.createElement('span');
+  progress.className = 'image-upload-placeholder-progress';
+  progress.appendChild(document.createElement('span'));
+
+  element.append(preview, label, progress);
+  return element;
+};
+
+// Uploads can finish after the surrounding text changed, so the placeholder
+// decoration is the source of truth for where the image goes
+const findPlaceholder = (view: EditorView, id: object): number | null => {
+  const decorations = ImageUploadPluginKey.getState(view.state);
+  const found = decorations?.find(undefined, undefined, (spec) => spec.id === id);
+  return found && found.length > 0 ? found[0].from : null;
+};
+
+const getImageFiles = (files: FileList | null | undefined): File[] =>
+  Array.from(files || []).filter((file) => file.type.startsWith('image/'));
+
+/**
+ * Routes pasted and dropped images through the configured upload handler
+ * instead of embedding them as base64. Each image shows an inline preview
+ * with upload progress and becomes a customImage node once uploaded. Pasted
+ * Word and Google Docs HTML is cleaned into the editor's supported nodes.
+ */
+export const ImageUploadExtension = Extension.create<ImageUploadOptions>({
+  name: 'imageUpload',
+
+  addOptions() {
+    return {
+      uploadImage: null,
+      onUploadError: null,
+    };
+  },
+
+  addProseMirrorPlugins() {
+    const { editor, options } = this;
+
+    const startUpload = (view: EditorView, file: File, pos: number) => {
+      const { uploadImage } = options;
+      if (!uploadImage) return;
+
+      const id = {};
+      const previewUrl = URL.createObjectURL(file);
+      const element = createPlaceholderElement(file, previewUrl);
+      const progressBar = element.querySelector<HTMLElement>(
+        '.image-upload-placeholder-progress > span'
+      );
+
+      view.dispatch(
+        view.state.tr.setMeta(ImageUploadPluginKey, { add: { id, pos, element } })
+      );
+
+      uploadImage(file, (percentage) => {
+        if (progressBar) progressBar.style.width = `${percentage}%`;
+      })
+        .then((url) => {
+          const placeholderPos = findPlaceholder(view, id);
+          // The placeholder was deleted while uploading; drop the image too
+          if (placeholderPos === null) return;
+
+          editor
+            .chain()
+            .setMeta(ImageUploadPluginKey, { remove: { id } })
+            .insertContentAt(placeholderPos, {
+              type: 'customImage',
+              attrs: { src: url, title: file.name, layout: 'full-column' },
+            })
+            .run();
+        })
+        .catch((error) => {
+          console.error('Error uploading pasted image:', error);
+          view.dispatch(view.state.tr.setMeta(ImageUploadPluginKey, { remove: { id } }));
+          options.onUploadError?.(file, error instanceof Error ? error : new Error(String(error)));
+        })
+        .finally(() => URL.revokeObjectURL(previewUrl));
+    };
+
+    return [
+      new Plugin<DecorationSet>({
+        key: ImageUploadPluginKey,
+
+        state: {
+          init: () => DecorationSet.empty,
+          apply: (tr, decorations) => {
+            let mapped = decorations.map(tr.mapping, tr.doc);
+            const action = tr.getMeta(ImageUploadPluginKey) as UploadPlaceholderAction | undefined;
+
+            if (action && 'add' in action) {
+              const { id, pos, element } = action.add;
+              mapped = mapped.add(tr.doc, [Decoration.widget(pos, element, { id })]);
+            } else if (action && 'remove' in action) {
+              mapped = mapped.remove(
+                mapped.find(undefined, undefined, (spec) => spec.id === action.remove.id)
+              );
+            }
+
+            return mapped;
+          },
+        },
+
+        props: {
+          decorations(state) {
+            return ImageUploadPluginKey.getState(state);
+          },
+
+          handlePaste(view, event) {
+            const files = getImageFiles(event.clipboardData?.files);
+            if (files.length === 0 || !options.uploadImage) return false;
+
+            // Office apps add a picture of the copied text; paste the text instead
+            const html = event.clipboardData?.getData('text/html') || '';
+            if (html && parseHtmlContent(html).body.textContent?.trim()) return false;
+
+            event.preventDefault();
+            files.forEach((file) => startUpload(view, file, view.state.selection.from));
+            return true;
+          },
+
+          handleDrop(view, event, _slice, moved) {
+            if (moved) return false;
+
+            const files = getImageFiles(event.dataTransfer?.files);
+            if (files.length === 0 || !options.uploadImage) return false;
+
+            const coordinates = view.posAtCoords({ left: event.clientX, top: event.clientY });
+            event.preventDefault();
+            files.forEach((file) =>
+              startUpload(view, file, coordinates?.pos ?? view.state.selection.from)
+            );
+            return true;
+          },
+
+          transformPastedHTML(html) {
+            return cleanPastedHtml(html);
+          },
+        },
+      }),
+    ];
+  },
+});
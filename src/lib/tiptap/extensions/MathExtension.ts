@@ -0,0 +1,159 @@
+import { Node, mergeAttributes, InputRule } from '@tiptap/core';
+import { ReactNodeViewRenderer } from '@tiptap/react';
+import { MathNodeView } from '../components/MathNodeView';
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    mathInline: {
+      /**
+       * Insert an inline formula
+       */
+      insertMathInline: (latex?: string) => ReturnType;
+    };
+    mathBlock: {
+      /**
+       * Insert a block (display) formula
+       */
+      insertMathBlock: (latex?: string) => ReturnType;
+    };
+  }
+}
+
+// The LaTeX source is stored in data-latex and as the element text, so it
+// survives saving and stays readable if the content is shown unrendered
+const latexAttribute = {
+  latex: {
+    default: '',
+    parseHTML: (element: HTMLElement) =>
+      element.getAttribute('data-latex') ?? element.textContent ?? '',
+    renderHTML: (attributes: Record<string, string>) => ({
+      'data-latex': attributes.latex,
+    }),
+  },
+};
+
+export const MathInline = Node.create({
+  name: 'mathInline',
+
+  group: 'inline',
+
+  inline: true,
+
+  atom: true,
+
+  selectable: true,
+
+  addAttributes() {
+    return latexAttribute;
+  },
+
+  parseHTML() {
+    return [
+      {
+        tag: 'span[data-math-inline]',
+      },
+    ];
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    return [
+      'span',
+      mergeAttributes(HTMLAttributes, { 'data-math-inline': '' }),
+      node.attrs.latex,
+    ];
+  },
+
+  addNodeView() {
+    return ReactNodeViewRenderer(MathNodeView);
+  },
+
+  addCommands() {
+    return {
+      insertMathInline: (latex = '') => ({ commands }) => {
+        return commands.insertContent({ type: this.name, attrs: { latex } });
+      },
+    };
+  },
+
+  addInputRules() {
+    // Typing $x^2$ converts the text between the dollar signs into a formula
+    return [
+      new InputRule({
+        find: /(?:^|\s)\$([^$\s](?:[^$]*[^$\s])?)\$$/,
+        handler: ({ state, range, match }) => {
+          const start = range.from + match[0].indexOf('$');
+          state.tr.replaceWith(
+            start,
+            range.to,
+            this.type.create({ latex: match[1] })
+          );
+        },
+      }),
+    ];
+  },
+});
+
+export const MathBlock = Node.create({
+  name: 'mathBlock',
+
+  group: 'block',
+
+  atom: true,
+
+  selectable: true,
+
+  draggable: true,
+
+  addAttributes() {
+    return latexAttribute;
+  },
+
+  parseHTML() {
+    return [
+      {
+        tag: 'div[data-math-block]',
+      },
+    ];
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    return [
+      'div',
+      mergeAttributes(HTMLAttributes, { 'data-math-block': '' }),
+      node.attrs.latex,
+    ];
+  },
+
+  addNodeView() {
+    return ReactNodeViewRenderer(MathNodeView);
+  },
+
+  addCommands() {
+    return {
+      insertMathBlock: (latex = '') => ({ commands }) => {
+        return commands.insertContent({ type: this.name, attrs: { latex } });
+      },
+    };
+  },
+
+  addInputRules() {
+    // Typing $$ followed by a space on an empty line starts a block formula
+    return [
+      new InputRule({
+        find: /^\$\$\s$/,
+        handler: ({ state, range }) => {
+          const $from = state.doc.resolve(range.from);
+          const parent = $from.node(-1);
+          const index = $from.index(-1);
+          if (!parent.canReplaceWith(index, index + 1, this.type)) return null;
+
+          state.tr.replaceWith(
+            $from.before(),
+            $from.after(),
+            this.type.create({ latex: '' })
+          );
+        },
+      }),
+    ];
+  },
+});
@@ -0,0 +1,72 @@
+import { Node, mergeAttributes } from '@tiptap/core';
+import { ReactNodeViewRenderer } from '@tiptap/react';
+import { MermaidNodeView } from '../components/MermaidNodeView';
+
+export const DEFAULT_MERMAID_SOURCE = `flowchart LR
+  A[Start] --> B{Decision}
+  B -->|Yes| C[Do this]
+  B -->|No| D[Do that]`;
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    mermaidDiagram: {
+      /**
+       * Insert a Mermaid diagram block
+       */
+      insertMermaidDiagram: (source?: string) => ReturnType;
+    };
+  }
+}
+
+export const MermaidExtension = Node.create({
+  name: 'mermaidDiagram',
+
+  group: 'block',
+
+  atom: true,
+
+  selectable: true,
+
+  draggable: true,
+
+  addAttributes() {
+    return {
+      // The diagram source is stored in data-source and as the element
+      // text, and rendered to SVG at display time
+      source: {
+        default: '',
+        parseHTML: element =>
+          element.getAttribute('data-source') ?? element.textContent ?? '',
+        renderHTML: attributes => ({ 'data-source': attributes.source }),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [
+      {
+        tag: 'div[data-mermaid]',
+      },
+    ];
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    return [
+      'div',
+      mergeAttributes(HTMLAttributes, { 'data-mermaid': '' }),
+      node.attrs.source,
+    ];
+  },
+
+  addNodeView() {
+    return ReactNodeViewRenderer(MermaidNodeView);
+  },
+
+  addCommands() {
+    return {
+      insertMermaidDiagram: (source = DEFAULT_MERMAID_SOURCE) => ({ commands }) => {
+        return commands.insertContent({ type: this.name, attrs: { source } });
+      },
+    };
+  },
+});
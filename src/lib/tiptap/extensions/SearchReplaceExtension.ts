@@ -0,0 +1,262 @@
+import { Extension, CommandProps } from '@tiptap/core';
+import { Plugin, PluginKey, TextSelection } from '@tiptap/pm/state';
+import { Decoration, DecorationSet } from '@tiptap/pm/view';
+import { Node as ProseMirrorNode } from '@tiptap/pm/model';
+
+export interface SearchResult {
+  from: number;
+  to: number;
+}
+
+export interface SearchQuery {
+  searchTerm: string;
+  caseSensitive: boolean;
+  wholeWord: boolean;
+}
+
+export interface SearchReplaceState extends SearchQuery {
+  results: SearchResult[];
+  activeIndex: number;
+}
+
+export interface SearchReplaceOptions {
+  /**
+   * Called for Mod-f so the editor can show its find/replace panel
+   */
+  onOpen: (() => void) | null;
+}
+
+interface SearchReplaceMeta {
+  query?: Partial<SearchQuery>;
+  activeIndex?: number;
+  // Make the first result at or after this position active
+  activeFrom?: number;
+}
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    searchReplace: {
+      /**
+       * Update the search term or options and highlight the matches
+       */
+      setSearchQuery: (query: Partial<SearchQuery>) => ReturnType;
+      /**
+       * Select and scroll to the next match, wrapping around
+       */
+      goToNextSearchResult: () => ReturnType;
+      /**
+       * Select and scroll to the previous match, wrapping around
+       */
+      goToPreviousSearchResult: () => ReturnType;
+      /**
+       * Replace the active match and move on to the next one
+       */
+      replaceSearchResult: (replacement: string) => ReturnType;
+      /**
+       * Replace every match in a single undoable step
+       */
+      replaceAllSearchResults: (replacement: string) => ReturnType;
+    };
+  }
+}
+
+export const SearchReplacePluginKey = new PluginKey<SearchReplaceState>('searchReplace');
+
+// Inline nodes such as formulas or footnotes end a match instead of being
+// searched through
+const INLINE_NODE_PLACEHOLDER = '\uFFFC';
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const findResults = (doc: ProseMirrorNode, query: SearchQuery): SearchResult[] => {
+  if (!query.searchTerm) return [];
+
+  const pattern = query.wholeWord
+    ? `(?<![\\p{L}\\p{N}_])${escapeRegExp(query.searchTerm)}(?![\\p{L}\\p{N}_])`
+    : escapeRegExp(query.searchTerm);
+  const regex = new RegExp(pattern, query.caseSensitive ? 'gu' : 'giu');
+  const results: SearchResult[] = [];
+
+  // Text is joined per textblock, so matches can span differently marked
+  // text such as "Info**Nest**"; string offsets equal document offsets
+  doc.descendants((node, pos) => {
+    if (!node.isTextblock) return true;
+
+    let text = '';
+    node.forEach((child) => {
+      text += child.isText ? child.text : INLINE_NODE_PLACEHOLDER.repeat(child.nodeSize);
+    });
+
+    for (const match of text.matchAll(regex)) {
+      if (!match[0]) continue;
+      const from = pos + 1 + (match.index ?? 0);
+      results.push({ from, to: from + match[0].length });
+    }
+    return false;
+  });
+
+  return results;
+};
+
+const indexAtOrAfter = (results: SearchResult[], pos: number): number => {
+  const index = results.findIndex((result) => result.from >= pos);
+  return index === -1 ? 0 : index;
+};
+
+/**
+ * Find and replace for the editor. Matches are highlighted with decorations
+ * and replacements are made with editor transactions, so they keep the
+ * surrounding marks and can be undone like any other edit.
+ */
+export const SearchReplaceExtension = Extension.create<SearchReplaceOptions>({
+  name: 'searchReplace',
+
+  addOptions() {
+    return {
+      onOpen: null,
+    };
+  },
+
+  addCommands() {
+    const goTo = (direction: 1 | -1) => () =>
+      ({ state, tr, dispatch }: CommandProps) => {
+        const search = SearchReplacePluginKey.getState(state);
+        if (!search || search.results.length === 0) return false;
+
+        // The first step goes to the highlighted match unless it is already selected
+        const count = search.results.length;
+        const current = search.results[search.activeIndex];
+        const isSelected = state.selection.from === current.from && state.selection.to === current.to;
+        const activeIndex =
+          isSelected || direction === -1
+            ? (search.activeIndex + direction + count) % count
+            : search.activeIndex;
+        const { from, to } = search.results[activeIndex];
+
+        if (dispatch) {
+          tr.setSelection(TextSelection.create(tr.doc, from, to))
+            .setMeta(SearchReplacePluginKey, { activeIndex } as SearchReplaceMeta)
+            .scrollIntoView();
+        }
+        return true;
+      };
+
+    return {
+      setSearchQuery: query => ({ tr, dispatch }) => {
+        if (dispatch) {
+          tr.setMeta(SearchReplacePluginKey, {
+            query,
+            activeFrom: tr.selection.from,
+          } as SearchReplaceMeta);
+        }
+        return true;
+      },
+      goToNextSearchResult: goTo(1),
+      goToPreviousSearchResult: goTo(-1),
+      replaceSearchResult: replacement => ({ state, tr, dispatch }) => {
+        const search = SearchReplacePluginKey.getState(state);
+        const result = search?.results[search.activeIndex];
+        if (!result) return false;
+
+        if (dispatch) {
+          if (replacement) {
+            tr.insertText(replacement, result.from, result.to);
+          } else {
+            tr.delete(result.from, result.to);
+          }
+          // Continue after the replacement, even if it matches again
+          tr.setMeta(SearchReplacePluginKey, {
+            activeFrom: result.from + replacement.length,
+          } as SearchReplaceMeta).scrollIntoView();
+        }
+        return true;
+      },
+      replaceAllSearchResults: replacement => ({ state, tr, dispatch }) => {
+        const search = SearchReplacePluginKey.getState(state);
+        if (!search || search.results.length === 0) return false;
+
+        if (dispatch) {
+          // Replace from the end so earlier positions stay valid
+          [...search.results].reverse().forEach(({ from, to }) => {
+            if (replacement) {
+              tr.insertText(replacement, from, to);
+            } else {
+              tr.delete(from, to);
+            }
+          });
+        }
+        return true;
+      },
+    };
+  },
+
+  addKeyboardShortcuts() {
+    return {
+      'Mod-f': () => {
+        if (!this.options.onOpen) return false;
+        this.options.onOpen();
+        return true;
+      },
+    };
+  },
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin<SearchReplaceState>({
+        key: SearchReplacePluginKey,
+
+        state: {
+          init: () => ({
+            searchTerm: '',
+            caseSensitive: false,
+            wholeWord: false,
+            results: [],
+            activeIndex: 0,
+          }),
+          apply: (tr, search) => {
+            const meta = tr.getMeta(SearchReplacePluginKey) as SearchReplaceMeta | undefined;
+            if (!meta && !tr.docChanged) return search;
+
+            const query: SearchQuery = {
+              searchTerm: meta?.query?.searchTerm ?? search.searchTerm,
+              caseSensitive: meta?.query?.caseSensitive ?? search.caseSensitive,
+              wholeWord: meta?.query?.wholeWord ?? search.wholeWord,
+            };
+            const results =
+              meta?.query || tr.docChanged ? findResults(tr.doc, query) : search.results;
+
+            let activeIndex = meta?.activeIndex ?? search.activeIndex;
+            if (meta?.activeFrom !== undefined) {
+              activeIndex = indexAtOrAfter(results, meta.activeFrom);
+            }
+
+            return {
+              ...query,
+              results,
+              activeIndex: Math.min(activeIndex, Math.max(results.length - 1, 0)),
+            };
+          },
+        },
+
+        props: {
+          decorations(state) {
+            const search = SearchReplacePluginKey.getState(state);
+            if (!search || search.results.length === 0) return DecorationSet.empty;
+
+            return DecorationSet.create(
+              state.doc,
+              search.results.map(({ from, to }, index) =>
+                Decoration.inline(from, to, {
+                  class:
+                    index === search.activeIndex
+                      ? 'search-result search-result-active'
+                      : 'search-result',
+                })
+              )
+            );
+          },
+        },
+      }),
+    ];
+  },
+});
@@ -0,0 +1,49 @@
+import { Editor, Extension, Range } from '@tiptap/core';
+import { PluginKey } from '@tiptap/pm/state';
+import Suggestion, { SuggestionOptions } from '@tiptap/suggestion';
+import type { LucideIcon } from 'lucide-react';
+
+export interface SlashCommandItem {
+  title: string;
+  description: string;
+  icon: LucideIcon;
+  keywords: string[];
+  command: (props: { editor: Editor; range: Range }) => void;
+}
+
+export interface SlashCommandOptions {
+  suggestion: Omit<SuggestionOptions<SlashCommandItem, SlashCommandItem>, 'editor'>;
+}
+
+export const SlashCommandPluginKey = new PluginKey('slashCommand');
+
+/**
+ * Opens a command palette when "/" is typed at the start of a word. The
+ * items and the menu renderer are supplied through the suggestion option.
+ */
+export const SlashCommandExtension = Extension.create<SlashCommandOptions>({
+  name: 'slashCommand',
+
+  addOptions() {
+    return {
+      suggestion: {
+        char: '/',
+        pluginKey: SlashCommandPluginKey,
+        command: ({ editor, range, props }) => {
+          props.command({ editor, range });
+        },
+        // Never open the palette inside code blocks, where "/" is common
+        allow: ({ editor }) => !editor.isActive('codeBlock'),
+      },
+    };
+  },
+
+  addProseMirrorPlugins() {
+    return [
+      Suggestion({
+        editor: this.editor,
+        ...this.options.suggestion,
+      }),
+    ];
+  },
+});
@@ -0,0 +1,62 @@
+import TaskItem from '@tiptap/extension-task-item';
+import { Plugin, PluginKey } from '@tiptap/pm/state';
+
+export const TaskItemIdPluginKey = new PluginKey('taskItemId');
+
+const createTaskId = (): string =>
+  `task-${Date.now().toString(36)}${Math.random().toString(36).substring(2, 8)}`;
+
+/**
+ * Checklist item with a stable ID, e.g.
+ * <li data-type="taskItem" data-checked="false" data-task-id="task-…">
+ * Readers' ticks are stored against these IDs, so they stay on the right
+ * item when the author reorders or edits the checklist.
+ */
+export const TaskItemExtension = TaskItem.extend({
+  addAttributes() {
+    return {
+      ...this.parent?.(),
+      taskId: {
+        default: null,
+        // A split item is a new task
+        keepOnSplit: false,
+        parseHTML: element => element.getAttribute('data-task-id'),
+        renderHTML: attributes =>
+          attributes.taskId ? { 'data-task-id': attributes.taskId } : {},
+      },
+    };
+  },
+
+  addProseMirrorPlugins() {
+    return [
+      ...(this.parent?.() || []),
+      new Plugin({
+        key: TaskItemIdPluginKey,
+
+        // Give new, split and pasted items an ID of their own
+        appendTransaction: (transactions, _oldState, newState) => {
+          if (!transactions.some(transaction => transaction.docChanged)) return null;
+
+          const { tr } = newState;
+          const seen = new Set<string>();
+
+          newState.doc.descendants((node, pos) => {
+            if (node.type !== this.type) return;
+
+            const taskId: string | null = node.attrs.taskId;
+            if (taskId && !seen.has(taskId)) {
+              seen.add(taskId);
+              return;
+            }
+
+            const newTaskId = createTaskId();
+            seen.add(newTaskId);
+            tr.setNodeMarkup(pos, undefined, { ...node.attrs, taskId: newTaskId });
+          });
+
+          return tr.docChanged ? tr.setMeta('addToHistory', false) : null;
+        },
+      }),
+    ];
+  },
+});
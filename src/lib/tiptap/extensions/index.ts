@@ -5,3 +5,22 @@
  */
 
 export { CustomImageExtension } from './CustomImageExtension';
+export { CalloutExtension, CALLOUT_TYPES, isCalloutType } from './CalloutExtension';
+export type { CalloutType } from './CalloutExtension';
+export { SlashCommandExtension } from './SlashCommandExtension';
+export type { SlashCommandItem } from './SlashCommandExtension';
+export { createSlashCommandItems, filterSlashCommandItems } from './slashCommandItems';
+export { renderSlashCommandMenu } from './slashCommandRenderer';
+export { MathInline, MathBlock } from './MathExtension';
+export { MermaidExtension, DEFAULT_MERMAID_SOURCE } from './MermaidExtension';
+export { CodeBlockExtension } from './CodeBlockExtension';
+export { ArticleEmbedExtension } from './ArticleEmbedExtension';
+export type { ArticleEmbedAttributes } from './ArticleEmbedExtension';
+export { FootnoteExtension } from './FootnoteExtension';
+export { ImageUploadExtension, ImageUploadPluginKey } from './ImageUploadExtension';
+export { SearchReplaceExtension, SearchReplacePluginKey } from './SearchReplaceExtension';
+export type { SearchResult, SearchQuery, SearchReplaceState } from './SearchReplaceExtension';
+export { ImageGalleryExtension, GALLERY_COLUMN_OPTIONS } from './ImageGalleryExtension';
+export type { GalleryImage } from './ImageGalleryExtension';
+export { ArticleLinkExtension, ArticleLinkPluginKey, getArticleLinkHref } from './ArticleLinkExtension';
+export { TaskItemExtension, TaskItemIdPluginKey } from './TaskItemExtension';
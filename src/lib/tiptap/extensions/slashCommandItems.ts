@@ -0,0 +1,251 @@
+import Fuse from 'fuse.js';
+import {
+  Heading1,
+  Heading2,
+  Heading3,
+  List,
+  ListOrdered,
+  ListChecks,
+  Quote,
+  Code,
+  Image as ImageIcon,
+  Upload,
+  Minus,
+  Table2,
+  MessageSquareWarning,
+  Sigma,
+  FunctionSquare,
+  Workflow,
+  FileSymlink,
+  Superscript,
+  Images,
+} from 'lucide-react';
+import { SlashCommandItem } from './SlashCommandExtension';
+import { CODE_LANGUAGES } from '../utils/codeLanguages';
+
+interface SlashCommandHandlers {
+  onUploadImage: () => void; // Opens the toolbar's upload dialog
+  onEmbedArticle: () => void; // Opens the article embed picker
+}
+
+/**
+ * Builds the blocks the "/" palette can insert
+ * @param handlers - Editor-level actions the palette reuses
+ * @returns Slash command items in display order
+ */
+export const createSlashCommandItems = ({
+  onUploadImage,
+  onEmbedArticle,
+}: SlashCommandHandlers): SlashCommandItem[] => [
+  {
+    title: 'Heading 1',
+    description: 'Large section heading',
+    icon: Heading1,
+    keywords: ['h1', 'title'],
+    command: ({ editor, range }) =>
+      editor.chain().focus().deleteRange(range).setNode('heading', { level: 1 }).run(),
+  },
+  {
+    title: 'Heading 2',
+    description: 'Medium section heading',
+    icon: Heading2,
+    keywords: ['h2', 'subtitle'],
+    command: ({ editor, range }) =>
+      editor.chain().focus().deleteRange(range).setNode('heading', { level: 2 }).run(),
+  },
+  {
+    title: 'Heading 3',
+    description: 'Small section heading',
+    icon: Heading3,
+    keywords: ['h3'],
+    command: ({ editor, range }) =>
+      editor.chain().focus().deleteRange(range).setNode('heading', { level: 3 }).run(),
+  },
+  {
+    title: 'Bullet List',
+    description: 'Simple bulleted list',
+    icon: List,
+    keywords: ['ul', 'unordered', 'bullets'],
+    command: ({ editor, range }) =>
+      editor.chain().focus().deleteRange(range).toggleBulletList().run(),
+  },
+  {
+    title: 'Numbered List',
+    description: 'List with numbering',
+    icon: ListOrdered,
+    keywords: ['ol', 'ordered', 'numbers'],
+    command: ({ editor, range }) =>
+      editor.chain().focus().deleteRange(range).toggleOrderedList().run(),
+  },
+  {
+    title: 'Checklist',
+    description: 'Task list readers can tick off',
+    icon: ListChecks,
+    keywords: ['todo', 'task', 'checkbox', 'runbook'],
+    command: ({ editor, range }) =>
+      editor.chain().focus().deleteRange(range).toggleTaskList().run(),
+  },
+  {
+    title: 'Quote',
+    description: 'Capture a quotation',
+    icon: Quote,
+    keywords: ['blockquote', 'citation'],
+    command: ({ editor, range }) =>
+      editor.chain().focus().deleteRange(range).toggleBlockquote().run(),
+  },
+  {
+    title: 'Callout',
+    description: 'Highlighted note or warning box',
+    icon: MessageSquareWarning,
+    keywords: ['note', 'tip', 'warning', 'danger', 'admonition'],
+    command: ({ editor, range }) =>
+      editor.chain().focus().deleteRange(range).setCallout().run(),
+  },
+  {
+    title: 'Code Block',
+    description: 'Code snippet without highlighting',
+    icon: Code,
+    keywords: ['code', 'pre', 'snippet'],
+    command: ({ editor, range }) =>
+      editor.chain().focus().deleteRange(range).setCodeBlock().run(),
+  },
+  ...CODE_LANGUAGES.map(
+    (language): SlashCommandItem => ({
+      title: `Code Block (${language.label})`,
+      description: `${language.label} code snippet`,
+      icon: Code,
+      keywords: ['code', language.value, ...language.aliases],
+      command: ({ editor, range }) =>
+        editor
+          .chain()
+          .focus()
+          .deleteRange(range)
+          .setCodeBlock({ language: language.value })
+          .run(),
+    })
+  ),
+  {
+    title: 'Inline Formula',
+    description: 'LaTeX math within a sentence',
+    icon: Sigma,
+    keywords: ['math', 'latex', 'equation', 'katex'],
+    command: ({ editor, range }) =>
+      editor.chain().focus().deleteRange(range).insertMathInline().run(),
+  },
+  {
+    title: 'Block Formula',
+    description: 'Centered LaTeX equation',
+    icon: FunctionSquare,
+    keywords: ['math', 'latex', 'equation', 'katex', 'display'],
+    command: ({ editor, range }) =>
+      editor.chain().focus().deleteRange(range).insertMathBlock().run(),
+  },
+  {
+    title: 'Footnote',
+    description: 'Numbered note or citation at the end',
+    icon: Superscript,
+    keywords: ['citation', 'reference', 'note', 'source', 'cite'],
+    command: ({ editor, range }) =>
+      editor.chain().focus().deleteRange(range).insertFootnote().run(),
+  },
+  {
+    title: 'Diagram',
+    description: 'Flowchart or sequence diagram from Mermaid code',
+    icon: Workflow,
+    keywords: ['mermaid', 'flowchart', 'sequence', 'chart', 'graph'],
+    command: ({ editor, range }) =>
+      editor.chain().focus().deleteRange(range).insertMermaidDiagram().run(),
+  },
+  {
+    title: 'Upload Image',
+    description: 'Upload an image from your device',
+    icon: Upload,
+    keywords: ['image', 'picture', 'photo', 'file'],
+    command: ({ editor, range }) => {
+      editor.chain().focus().deleteRange(range).run();
+      onUploadImage();
+    },
+  },
+  {
+    title: 'Image from URL',
+    description: 'Embed an image by its address',
+    icon: ImageIcon,
+    keywords: ['image', 'picture', 'link'],
+    command: ({ editor, range }) => {
+      editor.chain().focus().deleteRange(range).run();
+      const url = window.prompt('Enter image URL:');
+      if (url) {
+        editor.commands.setImage({ src: url, layout: 'full-column' });
+      }
+    },
+  },
+  {
+    title: 'Embed Article',
+    description: 'Card or live section from another article',
+    icon: FileSymlink,
+    keywords: ['article', 'link', 'transclude', 'reference', 'card'],
+    command: ({ editor, range }) => {
+      editor.chain().focus().deleteRange(range).run();
+      onEmbedArticle();
+    },
+  },
+  {
+    title: 'Image Gallery',
+    description: 'Grid of images with captions',
+    icon: Images,
+    keywords: ['gallery', 'grid', 'images', 'photos', 'pictures'],
+    command: ({ editor, range }) =>
+      editor.chain().focus().deleteRange(range).insertImageGallery().run(),
+  },
+  {
+    title: 'Table',
+    description: '3 × 3 table with a header row',
+    icon: Table2,
+    keywords: ['grid', 'rows', 'columns'],
+    command: ({ editor, range }) =>
+      editor
+        .chain()
+        .focus()
+        .deleteRange(range)
+        .insertTable({ rows: 3, cols: 3, withHeaderRow: true })
+        .run(),
+  },
+  {
+    title: 'Divider',
+    description: 'Horizontal line between sections',
+    icon: Minus,
+    keywords: ['hr', 'rule', 'separator', 'line'],
+    command: ({ editor, range }) =>
+      editor.chain().focus().deleteRange(range).setHorizontalRule().run(),
+  },
+];
+
+/**
+ * Fuzzy-filters slash command items by the text typed after "/"
+ * @param items - All slash command items
+ * @param query - Text typed after the slash
+ * @returns Matching items, best match first
+ */
+export const filterSlashCommandItems = (
+  items: SlashCommandItem[],
+  query: string
+): SlashCommandItem[] => {
+  if (!query.trim()) {
+    // Hide the per-language code blocks until the writer starts typing
+    return items.filter((item) => !item.title.startsWith('Code Block ('));
+  }
+
+  const fuse = new Fuse(items, {
+    keys: [
+      { name: 'title', weight: 0.6 },
+      { name: 'keywords', weight: 0.4 },
+    ],
+    threshold: 0.35,
+    ignoreLocation: true,
+  });
+
+  return fuse
+    .search(query.trim())
+    .map((result) => result.item)
+    .slice(0, 10);
+};
@@ -0,0 +1,70 @@
+import { ReactRenderer } from '@tiptap/react';
+import type { SuggestionOptions, SuggestionProps } from '@tiptap/suggestion';
+import { SlashCommandItem } from './SlashCommandExtension';
+import {
+  SlashCommandMenu,
+  SlashCommandMenuHandle,
+  SlashCommandMenuProps,
+} from '../components/SlashCommandMenu';
+
+/**
+ * Suggestion renderer that mounts the slash command menu at the cursor
+ */
+export const renderSlashCommandMenu: SuggestionOptions<
+  SlashCommandItem,
+  SlashCommandItem
+>['render'] = () => {
+  let renderer: ReactRenderer<SlashCommandMenuHandle, SlashCommandMenuProps> | null = null;
+
+  const position = (props: SuggestionProps<SlashCommandItem, SlashCommandItem>) => {
+    const rect = props.clientRect?.();
+    const element = renderer?.element as HTMLElement | undefined;
+    if (!rect || !element) return;
+
+    // Open above the cursor when there is no room below it
+    const menuHeight = element.offsetHeight || 320;
+    const top =
+      rect.bottom + 8 + menuHeight > window.innerHeight
+        ? Math.max(8, rect.top - menuHeight - 8)
+        : rect.bottom + 8;
+
+    element.style.top = `${top}px`;
+    element.style.left = `${Math.min(rect.left, window.innerWidth - 296)}px`;
+  };
+
+  return {
+    onStart: (props) => {
+      renderer = new ReactRenderer(SlashCommandMenu, {
+        props,
+        editor: props.editor,
+      });
+
+      const element = renderer.element as HTMLElement;
+      element.style.position = 'fixed';
+      element.style.zIndex = '60';
+      document.body.appendChild(element);
+      position(props);
+    },
+
+    onUpdate: (props) => {
+      renderer?.updateProps(props);
+      position(props);
+    },
+
+    onKeyDown: ({ event }) => {
+      if (event.key === 'Escape') {
+        renderer?.destroy();
+        renderer?.element.remove();
+        renderer = null;
+        return true;
+      }
+      return renderer?.ref?.onKeyDown(event) ?? false;
+    },
+
+    onExit: () => {
+      renderer?.destroy();
+      renderer?.element.remove();
+      renderer = null;
+    },
+  };
+};
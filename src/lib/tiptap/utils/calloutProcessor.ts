@@ -0,0 +1,54 @@
+/**
+ * Utility functions for processing callout blocks in rendered HTML content
+ */
+
+import { createTempDomElement } from '../../../utils/htmlUtils';
+import { CALLOUT_TYPES, isCalloutType } from '../extensions/CalloutExtension';
+
+/**
+ * Adds the icon and title header to callouts, which the editor stores only
+ * as data attributes
+ * @param htmlContent - The HTML content string to process
+ * @returns Processed HTML content with callout headers added
+ */
+export function processCallouts(htmlContent: string): string {
+  if (!htmlContent || !htmlContent.includes('data-callout')) return htmlContent;
+
+  const tempDiv = createTempDomElement(htmlContent);
+
+  tempDiv.querySelectorAll('div[data-callout]').forEach((callout) => {
+    if (callout.querySelector(':scope > .callout-header')) return;
+
+    const typeAttribute = callout.getAttribute('data-callout-type');
+    const type = isCalloutType(typeAttribute) ? typeAttribute : 'note';
+    const { label, icon } = CALLOUT_TYPES[type];
+
+    callout.className = `callout callout-${type}`;
+    callout.setAttribute('role', type === 'note' || type === 'tip' ? 'note' : 'alert');
+
+    // Move the existing blocks into a content container below the header
+    const content = document.createElement('div');
+    content.className = 'callout-content';
+    while (callout.firstChild) {
+      content.appendChild(callout.firstChild);
+    }
+
+    const header = document.createElement('div');
+    header.className = 'callout-header';
+
+    const iconSpan = document.createElement('span');
+    iconSpan.className = 'callout-icon';
+    iconSpan.setAttribute('aria-hidden', 'true');
+    iconSpan.textContent = icon;
+
+    const titleSpan = document.createElement('span');
+    titleSpan.textContent = callout.getAttribute('data-callout-title') || label;
+
+    header.appendChild(iconSpan);
+    header.appendChild(titleSpan);
+    callout.appendChild(header);
+    callout.appendChild(content);
+  });
+
+  return tempDiv.innerHTML;
+}
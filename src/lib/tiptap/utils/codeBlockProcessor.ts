@@ -0,0 +1,162 @@
+/**
+ * Utility functions for processing code blocks in rendered HTML content
+ */
+
+import { createTempDomElement } from '../../../utils/htmlUtils';
+import { lowlight } from './lowlight';
+import { CODE_LANGUAGES } from './codeLanguages';
+
+// Minimal shape of the syntax tree lowlight returns
+interface HighlightNode {
+  type: string;
+  value?: string;
+  properties?: { className?: string[] | string };
+  children?: HighlightNode[];
+}
+
+interface HighlightToken {
+  text: string;
+  classes: string[];
+}
+
+/**
+ * Parses a line range list such as "1,3-5" into line numbers
+ * @param ranges - Comma-separated line numbers and ranges
+ * @returns The set of line numbers (1-based)
+ */
+export function parseLineRanges(ranges: string | null | undefined): Set<number> {
+  const lines = new Set<number>();
+  if (!ranges) return lines;
+
+  ranges.split(',').forEach((part) => {
+    const match = part.trim().match(/^(\d+)(?:\s*-\s*(\d+))?$/);
+    if (!match) return;
+
+    const start = Number(match[1]);
+    const end = Math.min(Number(match[2] || match[1]), start + 1000);
+    for (let line = start; line <= end; line++) {
+      lines.add(line);
+    }
+  });
+
+  return lines;
+}
+
+// Flatten the highlight tree into text runs that carry their classes
+const flattenHighlight = (
+  nodes: HighlightNode[],
+  classes: string[] = [],
+  tokens: HighlightToken[] = []
+): HighlightToken[] => {
+  nodes.forEach((node) => {
+    if (node.type === 'text') {
+      tokens.push({ text: node.value || '', classes });
+    } else if (node.children) {
+      const className = node.properties?.className;
+      const nodeClasses = Array.isArray(className) ? className : className ? [className] : [];
+      flattenHighlight(node.children, [...classes, ...nodeClasses], tokens);
+    }
+  });
+  return tokens;
+};
+
+const getLanguageLabel = (language: string): string =>
+  CODE_LANGUAGES.find((entry) => entry.value === language)?.label || language;
+
+/**
+ * Highlights code blocks and wraps them with a language label, a copy
+ * button, and optional line numbers and highlighted lines. Each line is
+ * rendered as its own element so numbers and highlights line up.
+ * @param htmlContent - The HTML content string to process
+ * @returns Processed HTML content with enhanced code blocks
+ */
+export function processCodeBlocks(htmlContent: string): string {
+  if (!htmlContent || !htmlContent.includes('<pre')) return htmlContent;
+
+  const tempDiv = createTempDomElement(htmlContent);
+
+  tempDiv.querySelectorAll('pre').forEach((pre) => {
+    if (pre.parentElement?.classList.contains('code-block')) return;
+
+    const code = pre.querySelector('code');
+    const source = (code || pre).textContent || '';
+    const language = code?.className.match(/language-([\w+#-]+)/)?.[1] || '';
+    const highlightedLines = parseLineRanges(pre.getAttribute('data-highlight-lines'));
+
+    let tokens: HighlightToken[] = [{ text: source, classes: [] }];
+    if (language && lowlight.registered(language)) {
+      try {
+        const tree = lowlight.highlight(language, source);
+        tokens = flattenHighlight(tree.children as HighlightNode[]);
+      } catch (error) {
+        console.error('Error highlighting code block:', error);
+      }
+    }
+
+    // Split the runs into lines
+    const newCode = document.createElement('code');
+    newCode.className = language ? `hljs language-${language}` : 'hljs';
+    let line = document.createElement('span');
+    const lines: HTMLSpanElement[] = [line];
+
+    tokens.forEach(({ text, classes }) => {
+      text.split('\n').forEach((part, index) => {
+        if (index > 0) {
+          line = document.createElement('span');
+          lines.push(line);
+        }
+        if (!part) return;
+        if (classes.length === 0) {
+          line.appendChild(document.createTextNode(part));
+        } else {
+          const span = document.createElement('span');
+          span.className = classes.join(' ');
+          span.textContent = part;
+          line.appendChild(span);
+        }
+      });
+    });
+
+    // Code blocks end with a newline that is not a line of its own
+    if (lines.length > 1 && !lines[lines.length - 1].hasChildNodes()) {
+      lines.pop();
+    }
+
+    lines.forEach((lineElement, index) => {
+      lineElement.className = highlightedLines.has(index + 1)
+        ? 'code-line code-line-highlighted'
+        : 'code-line';
+      newCode.appendChild(lineElement);
+      newCode.appendChild(document.createTextNode('\n'));
+    });
+
+    pre.replaceChildren(newCode);
+    pre.removeAttribute('class');
+
+    // Header with the language and a copy button (handled by the page)
+    const header = document.createElement('div');
+    header.className = 'code-block-header';
+
+    const label = document.createElement('span');
+    label.textContent = language ? getLanguageLabel(language) : 'Code';
+
+    const copyButton = document.createElement('button');
+    copyButton.type = 'button';
+    copyButton.className = 'code-copy-button';
+    copyButton.textContent = 'Copy';
+
+    header.appendChild(label);
+    header.appendChild(copyButton);
+
+    const wrapper = document.createElement('div');
+    wrapper.className = 'code-block';
+    if (pre.hasAttribute('data-line-numbers')) {
+      wrapper.classList.add('code-block-line-numbers');
+    }
+    pre.parentNode?.insertBefore(wrapper, pre);
+    wrapper.appendChild(header);
+    wrapper.appendChild(pre);
+  });
+
+  return tempDiv.innerHTML;
+}
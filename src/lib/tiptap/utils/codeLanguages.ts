@@ -0,0 +1,39 @@
+/**
+ * Languages offered when inserting or editing code blocks
+ */
+
+export interface CodeLanguage {
+  value: string; // Stored as the language-* class on the code element
+  label: string;
+  aliases: string[];
+}
+
+export const CODE_LANGUAGES: CodeLanguage[] = [
+  { value: 'javascript', label: 'JavaScript', aliases: ['js'] },
+  { value: 'typescript', label: 'TypeScript', aliases: ['ts'] },
+  { value: 'python', label: 'Python', aliases: ['py'] },
+  { value: 'java', label: 'Java', aliases: [] },
+  { value: 'bash', label: 'Bash', aliases: ['shell', 'sh'] },
+  { value: 'json', label: 'JSON', aliases: [] },
+  { value: 'xml', label: 'HTML / XML', aliases: ['html'] },
+  { value: 'css', label: 'CSS', aliases: [] },
+  { value: 'sql', label: 'SQL', aliases: [] },
+  { value: 'yaml', label: 'YAML', aliases: ['yml'] },
+  { value: 'markdown', label: 'Markdown', aliases: ['md'] },
+  { value: 'go', label: 'Go', aliases: ['golang'] },
+  { value: 'rust', label: 'Rust', aliases: ['rs'] },
+  { value: 'csharp', label: 'C#', aliases: ['cs'] },
+  { value: 'c', label: 'C', aliases: ['h'] },
+  { value: 'cpp', label: 'C++', aliases: ['c++', 'cc', 'hpp'] },
+];
+
+// Map a language name or alias, e.g. from a Markdown fence, to its
+// CODE_LANGUAGES value. Unknown languages are kept as written.
+export const resolveCodeLanguage = (name: string): string => {
+  const normalized = name.toLowerCase();
+  const match = CODE_LANGUAGES.find(
+    (language) =>
+      language.value === normalized || language.aliases.includes(normalized)
+  );
+  return match ? match.value : name;
+};
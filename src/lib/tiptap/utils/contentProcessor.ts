@@ -0,0 +1,37 @@
+/**
+ * Render-time processing applied to article HTML before it is displayed
+ */
+
+import { processLayoutSpecificCaptions } from './captionProcessor';
+import { processResponsiveTables } from './tableProcessor';
+import { processCallouts } from './calloutProcessor';
+import { processHeadingAnchors } from './headingProcessor';
+import { processMath } from './mathProcessor';
+import { processCodeBlocks } from './codeBlockProcessor';
+import { processFootnotes } from './footnoteProcessor';
+import { processTaskLists } from './taskListProcessor';
+
+// Applied in order; heading anchors see the final text, and footnotes are
+// numbered last so their markers stay out of heading IDs
+const CONTENT_PROCESSORS: ((htmlContent: string) => string)[] = [
+  processLayoutSpecificCaptions,
+  processMath,
+  processCodeBlocks,
+  processResponsiveTables,
+  processCallouts,
+  processTaskLists,
+  processHeadingAnchors,
+  processFootnotes,
+];
+
+/**
+ * Runs every render-time processor over stored article content
+ * @param htmlContent - The HTML content string to process
+ * @returns HTML ready to be rendered in the article view or preview
+ */
+export function processArticleContent(htmlContent: string): string {
+  return CONTENT_PROCESSORS.reduce(
+    (processedContent, processor) => processor(processedContent),
+    htmlContent
+  );
+}
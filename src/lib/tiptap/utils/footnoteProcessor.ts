@@ -0,0 +1,68 @@
+/**
+ * Utility functions for footnotes in rendered HTML content
+ */
+
+import { createTempDomElement } from '../../../utils/htmlUtils';
+
+/**
+ * Numbers footnote references in document order, gives each a hover preview
+ * of its note and appends the numbered footnote list to the end of the
+ * content. References and notes link to each other through
+ * data-footnote-target, since hash links would clash with hash routing.
+ * @param htmlContent - The HTML content string to process
+ * @returns Processed HTML content with numbered footnotes
+ */
+export function processFootnotes(htmlContent: string): string {
+  if (!htmlContent || !htmlContent.includes('data-footnote')) return htmlContent;
+
+  const tempDiv = createTempDomElement(htmlContent);
+  const references = tempDiv.querySelectorAll<HTMLElement>('sup[data-footnote]');
+  if (references.length === 0) return htmlContent;
+
+  const list = document.createElement('ol');
+
+  references.forEach((reference, index) => {
+    const number = index + 1;
+    const note = reference.getAttribute('data-note') || '';
+
+    reference.id = `footnote-ref-${number}`;
+    reference.classList.add('footnote-ref');
+    reference.innerHTML = '';
+
+    const referenceButton = document.createElement('button');
+    referenceButton.type = 'button';
+    referenceButton.className = 'footnote-ref-link';
+    referenceButton.setAttribute('data-footnote-target', `footnote-${number}`);
+    referenceButton.setAttribute('aria-label', `Footnote ${number}`);
+    referenceButton.textContent = String(number);
+
+    const preview = document.createElement('span');
+    preview.className = 'footnote-preview';
+    preview.setAttribute('role', 'tooltip');
+    preview.textContent = note;
+
+    reference.append(referenceButton, preview);
+
+    const item = document.createElement('li');
+    item.id = `footnote-${number}`;
+    item.textContent = `${note} `;
+
+    const backButton = document.createElement('button');
+    backButton.type = 'button';
+    backButton.className = 'footnote-backref';
+    backButton.setAttribute('data-footnote-target', `footnote-ref-${number}`);
+    backButton.setAttribute('aria-label', `Back to reference ${number}`);
+    backButton.textContent = '↩';
+    item.appendChild(backButton);
+
+    list.appendChild(item);
+  });
+
+  const section = document.createElement('section');
+  section.className = 'footnotes';
+  section.setAttribute('aria-label', 'Footnotes');
+  section.appendChild(list);
+  tempDiv.appendChild(section);
+
+  return tempDiv.innerHTML;
+}
@@ -0,0 +1,138 @@
+/**
+ * Utility functions for heading anchors in rendered HTML content
+ */
+
+import { createTempDomElement } from '../../../utils/htmlUtils';
+
+export interface HeadingOutlineItem {
+  id: string;
+  text: string;
+  level: number;
+}
+
+const HEADING_SELECTOR = 'h1, h2, h3, h4';
+
+/**
+ * Creates a URL-friendly anchor ID from heading text
+ * @param text - The heading text
+ * @returns Anchor ID, e.g. "getting-started"
+ */
+export function createHeadingId(text: string): string {
+  const id = text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9\s-]/g, '')
+    .trim()
+    .replace(/\s+/g, '-')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '');
+
+  return id || 'section';
+}
+
+/**
+ * Gives every heading a stable anchor ID and a hover "copy link" control.
+ * Duplicate headings get numbered IDs in document order, so the same
+ * content always produces the same anchors.
+ * @param htmlContent - The HTML content string to process
+ * @returns Processed HTML content with heading anchors
+ */
+export function processHeadingAnchors(htmlContent: string): string {
+  if (!htmlContent || !/<h[1-4][\s>]/.test(htmlContent)) return htmlContent;
+
+  const tempDiv = createTempDomElement(htmlContent);
+  const usedIds = new Set<string>();
+
+  tempDiv.querySelectorAll(HEADING_SELECTOR).forEach((heading) => {
+    const text = heading.textContent?.trim() || '';
+    if (!text) return;
+
+    const baseId = createHeadingId(text);
+    let id = baseId;
+    for (let suffix = 2; usedIds.has(id); suffix++) {
+      id = `${baseId}-${suffix}`;
+    }
+    usedIds.add(id);
+
+    heading.id = id;
+    heading.classList.add('article-heading');
+
+    const anchorButton = document.createElement('button');
+    anchorButton.type = 'button';
+    anchorButton.className = 'heading-anchor';
+    anchorButton.setAttribute('data-heading-id', id);
+    anchorButton.setAttribute('aria-label', `Copy link to "${text}"`);
+    anchorButton.title = 'Copy link to this section';
+    anchorButton.textContent = '#';
+    heading.appendChild(anchorButton);
+  });
+
+  return tempDiv.innerHTML;
+}
+
+/**
+ * Lists the anchored headings of processed content for a table of contents
+ * @param processedHtml - HTML that went through processHeadingAnchors
+ * @returns Headings in document order
+ */
+export function getHeadingOutline(processedHtml: string): HeadingOutlineItem[] {
+  if (!processedHtml || !processedHtml.includes('article-heading')) return [];
+
+  const tempDiv = createTempDomElement(processedHtml);
+
+  return Array.from(tempDiv.querySelectorAll(HEADING_SELECTOR))
+    .filter((heading) => heading.id && heading.classList.contains('article-heading'))
+    .map((heading) => {
+      // Leave the copy-link control and footnote markers out of the heading text
+      const clone = heading.cloneNode(true) as HTMLElement;
+      clone.querySelectorAll('.heading-anchor, .footnote-ref').forEach((element) => element.remove());
+
+      return {
+        id: heading.id,
+        text: clone.textContent?.trim() || '',
+        level: Number(heading.tagName[1]),
+      };
+    });
+}
+
+/**
+ * Extracts one section of processed content: the heading with the given
+ * anchor ID and everything up to the next heading of the same or a higher
+ * level. IDs and copy-link controls are removed so the section can be
+ * shown inside another article.
+ * @param processedHtml - HTML that went through processHeadingAnchors
+ * @param sectionId - Anchor ID of the section heading
+ * @returns The section HTML, or null when the heading no longer exists
+ */
+export function extractSection(processedHtml: string, sectionId: string): string | null {
+  const tempDiv = createTempDomElement(processedHtml);
+  const heading = Array.from(tempDiv.querySelectorAll(HEADING_SELECTOR)).find(
+    (element) => element.id === sectionId
+  );
+  if (!heading || heading.parentElement !== tempDiv) return null;
+
+  const level = Number(heading.tagName[1]);
+  const section = document.createElement('div');
+  section.appendChild(heading.cloneNode(true));
+
+  for (
+    let sibling = heading.nextElementSibling;
+    sibling && !(/^H[1-6]$/.test(sibling.tagName) && Number(sibling.tagName[1]) <= level);
+    sibling = sibling.nextElementSibling
+  ) {
+    section.appendChild(sibling.cloneNode(true));
+  }
+
+  section.querySelectorAll('.heading-anchor').forEach((anchor) => anchor.remove());
+  section.querySelectorAll('.article-heading').forEach((element) => {
+    element.classList.remove('article-heading');
+  });
+  section.querySelectorAll('[id]').forEach((element) => element.removeAttribute('id'));
+  // Footnote numbers refer to the source article's list, which isn't included
+  section
+    .querySelectorAll('[data-footnote-target]')
+    .forEach((element) => element.removeAttribute('data-footnote-target'));
+
+  return section.innerHTML;
+}
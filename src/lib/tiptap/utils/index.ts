@@ -5,3 +5,25 @@
  */
 
 export { processImageCaptions, processLayoutSpecificCaptions } from './captionProcessor';
+export { processResponsiveTables } from './tableProcessor';
+export { processCallouts } from './calloutProcessor';
+export {
+  processHeadingAnchors,
+  getHeadingOutline,
+  createHeadingId,
+  extractSection,
+} from './headingProcessor';
+export type { HeadingOutlineItem } from './headingProcessor';
+export { processMath } from './mathProcessor';
+export { renderMath } from './mathRenderer';
+export { processCodeBlocks, parseLineRanges } from './codeBlockProcessor';
+export { lowlight } from './lowlight';
+export { processFootnotes } from './footnoteProcessor';
+export { processTaskLists, getTaskListItems } from './taskListProcessor';
+export type { TaskListItem } from './taskListProcessor';
+export { cleanPastedHtml } from './pasteCleaner';
+export { processArticleContent } from './contentProcessor';
+export { CODE_LANGUAGES, resolveCodeLanguage } from './codeLanguages';
+export type { CodeLanguage } from './codeLanguages';
+export { renderMermaid, renderMermaidDiagrams } from './mermaidRenderer';
+export type { MermaidRenderResult } from './mermaidRenderer';
@@ -0,0 +1,9 @@
+/**
+ * Shared syntax highlighter for code blocks in the editor and rendered articles
+ */
+
+import { createLowlight, common } from 'lowlight';
+
+// Registers highlight.js's common languages, which include every entry
+// in CODE_LANGUAGES
+export const lowlight = createLowlight(common);
@@ -0,0 +1,28 @@
+/**
+ * Utility functions for processing math formulas in rendered HTML content
+ */
+
+import { createTempDomElement } from '../../../utils/htmlUtils';
+import { renderMath } from './mathRenderer';
+
+/**
+ * Renders the inline and block math nodes stored by the editor, which keep
+ * only their LaTeX source in data-latex attributes
+ * @param htmlContent - The HTML content string to process
+ * @returns Processed HTML content with typeset formulas
+ */
+export function processMath(htmlContent: string): string {
+  if (!htmlContent || !htmlContent.includes('data-latex')) return htmlContent;
+
+  const tempDiv = createTempDomElement(htmlContent);
+
+  tempDiv.querySelectorAll('[data-math-inline], [data-math-block]').forEach((element) => {
+    const latex = element.getAttribute('data-latex') || '';
+    const displayMode = element.hasAttribute('data-math-block');
+
+    element.classList.add(displayMode ? 'math-block' : 'math-inline');
+    element.innerHTML = latex.trim() ? renderMath(latex, displayMode) : '';
+  });
+
+  return tempDiv.innerHTML;
+}
@@ -0,0 +1,20 @@
+/**
+ * Renders LaTeX formulas with the bundled KaTeX renderer (no network access)
+ */
+
+import katex from 'katex';
+
+/**
+ * Renders a LaTeX formula to HTML
+ * @param latex - The formula source
+ * @param displayMode - Render as a centered block formula instead of inline
+ * @returns KaTeX HTML; invalid formulas render as highlighted source
+ */
+export function renderMath(latex: string, displayMode = false): string {
+  return katex.renderToString(latex, {
+    displayMode,
+    throwOnError: false,
+    errorColor: '#dc2626',
+    output: 'html',
+  });
+}
@@ -0,0 +1,85 @@
+/**
+ * Renders Mermaid diagram source to SVG. Mermaid is large, so it is loaded
+ * on demand the first time a diagram is shown.
+ */
+
+type MermaidApi = typeof import('mermaid')['default'];
+
+export interface MermaidRenderResult {
+  svg?: string;
+  error?: string;
+}
+
+let mermaidPromise: Promise<MermaidApi> | null = null;
+let diagramCounter = 0;
+
+const loadMermaid = (): Promise<MermaidApi> => {
+  if (!mermaidPromise) {
+    mermaidPromise = import('mermaid').then(({ default: mermaid }) => {
+      mermaid.initialize({
+        startOnLoad: false,
+        securityLevel: 'strict',
+        theme: 'default',
+        fontFamily: 'inherit',
+      });
+      return mermaid;
+    });
+  }
+  return mermaidPromise;
+};
+
+/**
+ * Renders Mermaid source to an SVG string
+ * @param source - Diagram source in Mermaid syntax
+ * @returns The SVG, or a readable error message when the syntax is invalid
+ */
+export async function renderMermaid(source: string): Promise<MermaidRenderResult> {
+  if (!source.trim()) {
+    return { error: 'The diagram is empty.' };
+  }
+
+  const id = `mermaid-diagram-${++diagramCounter}`;
+  try {
+    const mermaid = await loadMermaid();
+    const { svg } = await mermaid.render(id, source);
+    return { svg };
+  } catch (error) {
+    console.error('Error rendering Mermaid diagram:', error);
+    const message = error instanceof Error ? error.message : String(error);
+    return { error: message || 'Invalid diagram syntax.' };
+  } finally {
+    // Mermaid leaves its scratch element behind when rendering fails
+    document.getElementById(`d${id}`)?.remove();
+  }
+}
+
+/**
+ * Renders every stored diagram inside rendered article content
+ * @param container - Element holding the article HTML
+ */
+export async function renderMermaidDiagrams(container: HTMLElement): Promise<void> {
+  const diagrams = Array.from(
+    container.querySelectorAll<HTMLElement>('div[data-mermaid]:not([data-rendered])')
+  );
+
+  // Render one at a time; Mermaid does not support concurrent renders
+  for (const diagram of diagrams) {
+    diagram.setAttribute('data-rendered', '');
+    const { svg, error } = await renderMermaid(diagram.getAttribute('data-source') || '');
+
+    if (svg) {
+      diagram.innerHTML = svg;
+      diagram.classList.add('mermaid-diagram');
+    } else {
+      const source = document.createElement('pre');
+      source.textContent = diagram.getAttribute('data-source') || '';
+
+      const message = document.createElement('p');
+      message.className = 'mermaid-error-message';
+      message.textContent = `Diagram could not be rendered: ${error}`;
+
+      diagram.replaceChildren(message, source);
+      diagram.classList.add('mermaid-error');
+    }
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * Utility functions for cleaning HTML pasted from office applications
+ */
+
+import { parseHtmlContent } from '../../../utils/htmlUtils';
+
+const WORD_PATTERN = /urn:schemas-microsoft-com:office|class="?Mso|mso-/i;
+const GOOGLE_DOCS_PATTERN = /id="docs-internal-guid-/;
+
+const INLINE_IMAGE_PATTERN = /<img[^>]+src=["']?data:/i;
+
+const ORDERED_MARKER_PATTERN = /^\s*(\d+|[a-z]|[ivxlc]+)[.)]\s*$/i;
+
+/**
+ * Wraps an element's children in the given tag, e.g. to turn a styled
+ * span into <strong>
+ */
+function wrapChildren(element: Element, tagName: string): void {
+  const wrapper = document.createElement(tagName);
+  while (element.firstChild) {
+    wrapper.appendChild(element.firstChild);
+  }
+  element.appendChild(wrapper);
+}
+
+/**
+ * Replaces an element with its children
+ */
+function unwrap(element: Element): void {
+  element.replaceWith(...Array.from(element.childNodes));
+}
+
+/**
+ * Turns inline formatting styles into the marks the editor supports
+ */
+function convertInlineStyles(root: HTMLElement): void {
+  root.querySelectorAll<HTMLElement>('span[style]').forEach((span) => {
+    const { fontWeight, fontStyle, textDecoration } = span.style;
+    const textDecorationLine = textDecoration || span.style.textDecorationLine;
+
+    if (fontWeight === 'bold' || Number(fontWeight) >= 600) wrapChildren(span, 'strong');
+    if (fontStyle === 'italic') wrapChildren(span, 'em');
+    if (textDecorationLine.includes('line-through')) wrapChildren(span, 's');
+  });
+}
+
+/**
+ * Word marks list items as paragraphs with an mso-list style and a literal
+ * bullet or number. Consecutive list paragraphs become a real <ul> or <ol>.
+ */
+function convertWordLists(root: HTMLElement): void {
+  let currentList: HTMLElement | null = null;
+
+  Array.from(root.querySelectorAll<HTMLElement>('p')).forEach((paragraph) => {
+    const style = paragraph.getAttribute('style') || '';
+    if (!/mso-list:\s*l\d/i.test(style) && !/MsoListParagraph/i.test(paragraph.className)) {
+      currentList = null;
+      return;
+    }
+
+    // The bullet or number is a separate span Word asks other apps to ignore
+    const marker = paragraph.querySelector('span[style*="mso-list:Ignore" i]');
+    const markerText = marker?.textContent || '';
+    const tagName = ORDERED_MARKER_PATTERN.test(markerText) ? 'OL' : 'UL';
+    marker?.remove();
+
+    if (!currentList || currentList.tagName !== tagName || currentList.nextElementSibling !== paragraph) {
+      currentList = document.createElement(tagName.toLowerCase());
+      paragraph.before(currentList);
+    }
+
+    const item = document.createElement('li');
+    const content = document.createElement('p');
+    while (paragraph.firstChild) {
+      content.appendChild(paragraph.firstChild);
+    }
+    item.appendChild(content);
+    currentList.appendChild(item);
+    paragraph.remove();
+  });
+}
+
+/**
+ * Cleans pasted HTML before the editor parses it. Base64 images are
+ * dropped so they never end up in article content. HTML from Microsoft Word
+ * or Google Docs is also mapped onto the editor's nodes: office markup,
+ * comments and styling are removed, styled spans become bold/italic/strike
+ * marks and Word list paragraphs become lists. Other HTML, including content
+ * copied from InfoNest itself, is otherwise returned unchanged.
+ * @param html - The pasted HTML
+ * @returns Cleaned HTML for the editor to parse
+ */
+export function cleanPastedHtml(html: string): string {
+  const isWord = WORD_PATTERN.test(html);
+  const isGoogleDocs = GOOGLE_DOCS_PATTERN.test(html);
+
+  if (!isWord && !isGoogleDocs) {
+    if (!INLINE_IMAGE_PATTERN.test(html)) return html;
+
+    const { body } = parseHtmlContent(html);
+    body.querySelectorAll('img[src^="data:"]').forEach((img) => img.remove());
+    return body.innerHTML;
+  }
+
+  // Parsed in a separate document so nothing pasted loads or runs here.
+  // Conditional comments hold Word's fallback markup, e.g. VML images.
+  const { body: tempDiv } = parseHtmlContent(
+    html
+      .replace(/<!--\[if[^\]]*\]>(?:(?!<!--)[\s\S])*?<!\[endif\]-->/gi, '')
+      .replace(/<!--[\s\S]*?-->/g, '')
+  );
+
+  tempDiv.querySelectorAll('meta, style, script, link, title, xml').forEach((element) => element.remove());
+  // Word's empty o:p paragraph markers and other namespaced tags
+  tempDiv.querySelectorAll('*').forEach((element) => {
+    if (element.tagName.includes(':')) unwrap(element);
+  });
+
+  // Google Docs wraps the whole selection in a non-bold <b>
+  tempDiv.querySelectorAll('b[id^="docs-internal-guid-"]').forEach(unwrap);
+
+  if (isWord) convertWordLists(tempDiv);
+  convertInlineStyles(tempDiv);
+
+  // Local file references from Word can't be loaded by readers, and
+  // base64 images would bloat the article
+  tempDiv.querySelectorAll('img').forEach((img) => {
+    if (!/^https?:/i.test(img.getAttribute('src') || '')) img.remove();
+  });
+
+  tempDiv.querySelectorAll('*').forEach((element) => {
+    ['style', 'class', 'id', 'lang', 'align', 'dir', 'width', 'height'].forEach((attribute) =>
+      element.removeAttribute(attribute)
+    );
+  });
+
+  // Styling spans are now empty shells
+  tempDiv.querySelectorAll('span, font').forEach(unwrap);
+
+  return tempDiv.innerHTML;
+}
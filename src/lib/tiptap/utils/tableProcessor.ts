@@ -0,0 +1,28 @@
+/**
+ * Utility functions for processing tables in rendered HTML content
+ */
+
+import { createTempDomElement } from '../../../utils/htmlUtils';
+
+/**
+ * Wraps tables in a scroll container so wide tables scroll horizontally
+ * on narrow screens instead of overflowing the article column
+ * @param htmlContent - The HTML content string to process
+ * @returns Processed HTML content with wrapped tables
+ */
+export function processResponsiveTables(htmlContent: string): string {
+  if (!htmlContent || !htmlContent.includes('<table')) return htmlContent;
+
+  const tempDiv = createTempDomElement(htmlContent);
+
+  tempDiv.querySelectorAll('table').forEach((table) => {
+    if (table.parentElement?.classList.contains('table-scroll-wrapper')) return;
+
+    const wrapper = document.createElement('div');
+    wrapper.className = 'table-scroll-wrapper';
+    table.parentNode?.insertBefore(wrapper, table);
+    wrapper.appendChild(table);
+  });
+
+  return tempDiv.innerHTML;
+}
@@ -0,0 +1,61 @@
+/**
+ * Utility functions for processing checklists in rendered HTML content
+ */
+
+import { createTempDomElement } from '../../../utils/htmlUtils';
+
+export interface TaskListItem {
+  id: string;
+  checked: boolean; // As ticked by the author
+}
+
+const TASK_ITEM_SELECTOR = 'li[data-type="taskItem"]';
+
+/**
+ * Makes checklist checkboxes read-only and gives every item an ID; the
+ * article view enables the checkboxes for signed-in readers
+ * @param htmlContent - The HTML content string to process
+ * @returns Processed HTML content with read-only checklists
+ */
+export function processTaskLists(htmlContent: string): string {
+  if (!htmlContent || !htmlContent.includes('data-type="taskItem"')) return htmlContent;
+
+  const tempDiv = createTempDomElement(htmlContent);
+
+  tempDiv.querySelectorAll(TASK_ITEM_SELECTOR).forEach((item, index) => {
+    // Items saved before they had IDs fall back to their position
+    if (!item.getAttribute('data-task-id')) {
+      item.setAttribute('data-task-id', `task-index-${index}`);
+    }
+
+    const checkbox = item.querySelector(':scope > label > input[type="checkbox"]');
+    if (!checkbox) return;
+
+    checkbox.setAttribute('data-task-checkbox', '');
+    checkbox.setAttribute('disabled', '');
+    checkbox.toggleAttribute('checked', item.getAttribute('data-checked') === 'true');
+
+    const text = item.querySelector(':scope > div > p')?.textContent?.trim();
+    if (text) {
+      checkbox.setAttribute('aria-label', text);
+    }
+  });
+
+  return tempDiv.innerHTML;
+}
+
+/**
+ * Lists the checklist items of processed content in document order
+ * @param htmlContent - HTML processed with processArticleContent
+ * @returns Item IDs with the author's checked state
+ */
+export function getTaskListItems(htmlContent: string): TaskListItem[] {
+  if (!htmlContent || !htmlContent.includes('data-type="taskItem"')) return [];
+
+  const tempDiv = createTempDomElement(htmlContent);
+
+  return Array.from(tempDiv.querySelectorAll(TASK_ITEM_SELECTOR)).map((item) => ({
+    id: item.getAttribute('data-task-id') || '',
+    checked: item.getAttribute('data-checked') === 'true',
+  }));
+}
@@ -1,6 +1,7 @@
 import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App.tsx';
+import 'katex/dist/katex.min.css';
 import './index.css';
 
 // Clear any existing auth state on app start (only in development)
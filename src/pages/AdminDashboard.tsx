@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from "react";
 import { Link } from "react-router-dom";
 import { useAuth } from "../hooks/useAuth";
+import { usePlatformSettings } from "../hooks/usePlatformSettings";
+import { useTrashPurge } from "../hooks/useTrashPurge";
 
 import {
   BookOpen,
@@ -13,8 +15,17 @@ import {
   Tag,
   Edit,
   EyeOff,
+  ClipboardCheck,
+  Trash2,
+  Link2,
+  Filter,
 } from "lucide-react";
-import { Article } from "../lib/articles";
+import { toast } from "react-hot-toast";
+import {
+  Article,
+  backfillArticleSlugs,
+  rebuildPublishedTaxonomy,
+} from "../lib/articles";
 import { ArticleCard } from "../components/ArticleCard";
 import { onSnapshot, collection, query, where } from "firebase/firestore";
 import { firestore } from "../lib/firebase";
@@ -38,13 +49,27 @@ interface AdminDashboardData {
 }
 
 export const AdminDashboard: React.FC = () => {
-  const { userProfile } = useAuth();
+  const { userProfile, isAdmin } = useAuth();
   const [dashboardData, setDashboardData] = useState<AdminDashboardData | null>(
     null
   );
   const [loading, setLoading] = useState(true);
   const [isDropdownOpen, setIsDropdownOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState<string>("");
+  const [pendingReviews, setPendingReviews] = useState(0);
+  const [trashedArticles, setTrashedArticles] = useState(0);
+  const [backfillingSlugs, setBackfillingSlugs] = useState(false);
+  const [rebuildingFilters, setRebuildingFilters] = useState(false);
+  const { settings: platformSettings, loaded: settingsLoaded } =
+    usePlatformSettings();
+
+  // Permanently delete articles that have been in the trash too long. This
+  // is the only place the purge runs, so it isn't repeated in every browser.
+  // It never runs with the default retention when the settings couldn't be read.
+  useTrashPurge(
+    settingsLoaded ? platformSettings.trashRetentionDays : undefined,
+    !!userProfile && isAdmin
+  );
 
   // Listen for cross-component updates
   useEffect(() => {
@@ -186,6 +211,72 @@ export const AdminDashboard: React.FC = () => {
     return () => unsubscribeArticles();
   }, [userProfile]);
 
+  // Articles waiting in the editorial review queue
+  useEffect(() => {
+    if (!userProfile) return;
+
+    const reviewQuery = query(
+      collection(firestore, "articles"),
+      where("status", "==", "in_review")
+    );
+
+    const unsubscribeReviews = onSnapshot(
+      reviewQuery,
+      (snapshot) => setPendingReviews(snapshot.size),
+      (error) => console.error("Error loading review queue count:", error)
+    );
+
+    return () => unsubscribeReviews();
+  }, [userProfile]);
+
+  // Articles in the trash, matched on deletedAt like getTrashedArticles
+  useEffect(() => {
+    if (!userProfile) return;
+
+    const trashQuery = query(
+      collection(firestore, "articles"),
+      where("deletedAt", "!=", null)
+    );
+
+    const unsubscribeTrash = onSnapshot(
+      trashQuery,
+      (snapshot) => setTrashedArticles(snapshot.size),
+      (error) => console.error("Error loading trash count:", error)
+    );
+
+    return () => unsubscribeTrash();
+  }, [userProfile]);
+
+  const handleBackfillSlugs = async () => {
+    setBackfillingSlugs(true);
+    try {
+      const count = await backfillArticleSlugs();
+      toast.success(
+        count > 0
+          ? `Reserved slugs for ${count} article${count === 1 ? "" : "s"}`
+          : "All article slugs are already reserved"
+      );
+    } catch (error) {
+      console.error("Error reserving article slugs:", error);
+      toast.error("Failed to reserve article slugs");
+    } finally {
+      setBackfillingSlugs(false);
+    }
+  };
+
+  const handleRebuildFilters = async () => {
+    setRebuildingFilters(true);
+    try {
+      await rebuildPublishedTaxonomy();
+      toast.success("Search filters rebuilt from published articles");
+    } catch (error) {
+      console.error("Error rebuilding search filters:", error);
+      toast.error("Failed to rebuild search filters");
+    } finally {
+      setRebuildingFilters(false);
+    }
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center min-h-64">
@@ -247,7 +338,7 @@ export const AdminDashboard: React.FC = () => {
           {/* Accordion-style dropdown content */}
           <div
             className={`overflow-hidden transition-all duration-300 ease-in-out ${
-              isDropdownOpen ? "max-h-96 opacity-100" : "max-h-0 opacity-0"
+              isDropdownOpen ? "max-h-[52rem] opacity-100" : "max-h-0 opacity-0"
             }`}
           >
             <div className="space-y-3 pt-2">
@@ -287,6 +378,24 @@ export const AdminDashboard: React.FC = () => {
                 </span>
               </Link>
 
+              <Link
+                to="/admin/review-queue"
+                className="flex items-center space-x-3 p-3 hover:bg-white rounded-lg transition-colors duration-150 group"
+              >
+                <div className="bg-indigo-100 p-2 rounded-lg group-hover:bg-indigo-200 transition-colors">
+                  <ClipboardCheck className="h-4 w-4 text-indigo-600" />
+                </div>
+                <div className="flex-1">
+                  <p className="font-medium text-gray-900">Review Queue</p>
+                  <p className="text-sm text-gray-600">
+                    Approve articles or request changes
+                  </p>
+                </div>
+                <span className="bg-indigo-100 text-indigo-800 px-2 py-1 rounded-full text-sm font-medium">
+                  {pendingReviews}
+                </span>
+              </Link>
+
               <Link
                 to="/admin/active-writers"
                 className="flex items-center space-x-3 p-3 hover:bg-white rounded-lg transition-colors duration-150 group"
@@ -323,6 +432,24 @@ export const AdminDashboard: React.FC = () => {
                 </span>
               </Link>
 
+              <Link
+                to="/trash"
+                className="flex items-center space-x-3 p-3 hover:bg-white rounded-lg transition-colors duration-150 group"
+              >
+                <div className="bg-gray-100 p-2 rounded-lg group-hover:bg-gray-200 transition-colors">
+                  <Trash2 className="h-4 w-4 text-gray-600" />
+                </div>
+                <div className="flex-1">
+                  <p className="font-medium text-gray-900">Trash</p>
+                  <p className="text-sm text-gray-600">
+                    Restore or permanently delete articles
+                  </p>
+                </div>
+                <span className="bg-gray-100 text-gray-800 px-2 py-1 rounded-full text-sm font-medium">
+                  {trashedArticles}
+                </span>
+              </Link>
+
               <Link
                 to="/my-articles"
                 className="flex items-center space-x-3 p-3 hover:bg-white rounded-lg transition-colors duration-150 group"
@@ -355,6 +482,42 @@ export const AdminDashboard: React.FC = () => {
                 </div>
               </Link>
 
+              <button
+                onClick={handleBackfillSlugs}
+                disabled={backfillingSlugs}
+                className="flex items-center space-x-3 p-3 w-full text-left hover:bg-white rounded-lg transition-colors duration-150 group disabled:opacity-50"
+              >
+                <div className="bg-teal-100 p-2 rounded-lg group-hover:bg-teal-200 transition-colors">
+                  <Link2 className="h-4 w-4 text-teal-600" />
+                </div>
+                <div>
+                  <p className="font-medium text-gray-900">
+                    {backfillingSlugs ? "Reserving Slugs..." : "Reserve Legacy Slugs"}
+                  </p>
+                  <p className="text-sm text-gray-600">
+                    Give older articles readable links
+                  </p>
+                </div>
+              </button>
+
+              <button
+                onClick={handleRebuildFilters}
+                disabled={rebuildingFilters}
+                className="flex items-center space-x-3 p-3 w-full text-left hover:bg-white rounded-lg transition-colors duration-150 group disabled:opacity-50"
+              >
+                <div className="bg-cyan-100 p-2 rounded-lg group-hover:bg-cyan-200 transition-colors">
+                  <Filter className="h-4 w-4 text-cyan-600" />
+                </div>
+                <div>
+                  <p className="font-medium text-gray-900">
+                    {rebuildingFilters ? "Rebuilding Filters..." : "Rebuild Search Filters"}
+                  </p>
+                  <p className="text-sm text-gray-600">
+                    Collect categories and tags from published articles
+                  </p>
+                </div>
+              </button>
+
               {/* Note: No "Back to Dashboard" needed since this IS the Admin Dashboard */}
             </div>
           </div>
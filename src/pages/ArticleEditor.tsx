@@ -1,16 +1,33 @@
 // src/pages/ArticleEditor.tsx
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useRef } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import { useAuth } from "../hooks/useAuth";
+import { usePlatformSettings } from "../hooks/usePlatformSettings";
 
 import { DraftRecovery } from "../components/DraftRecovery"; // Import DraftRecovery
+import { RevisionHistory } from "../components/RevisionHistory";
+import { SchedulePublishModal } from "../components/SchedulePublishModal";
+import { CoAuthorManager } from "../components/CoAuthorManager";
+import { SeriesPicker } from "../components/SeriesPicker";
+import { TemplatePicker } from "../components/TemplatePicker";
+import { SaveTemplateModal } from "../components/SaveTemplateModal";
 import { draftStorage } from "../utils/draftStorage"; // Import draftStorage
+import { parseMarkdownDocument } from "../utils/markdown";
 import {
   createArticle,
   updateArticle,
   getArticle,
+  isArticleCollaborator,
+  submitArticleForReview,
   Article,
 } from "../lib/articles";
+import {
+  createArticleRevision,
+  createInitialArticleRevision,
+  ArticleRevision,
+} from "../lib/articleRevisions";
+import { moveArticleToSeries } from "../lib/series";
+import { ArticleTemplate, applyTitlePattern } from "../lib/templates";
 import { RichTextEditor } from "../components/RichTextEditor";
 import { FileUpload } from "../components/FileUpload";
 
@@ -33,10 +50,18 @@ import {
   FileText,
   Paperclip,
   AlertCircle,
+  History,
+  CalendarClock,
+  ClipboardCheck,
+  MessageSquare,
+  LayoutTemplate,
+  FileUp,
 } from "lucide-react";
 import { UploadResult } from "../lib/fileUpload";
 import toast from "react-hot-toast";
-import { processLayoutSpecificCaptions } from "../lib/tiptap/utils/captionProcessor";
+import { processArticleContent } from "../lib/tiptap/utils/contentProcessor";
+import { ArticleContent } from "../components/ArticleContent";
+import { WritingStatsPanel } from "../components/WritingStatsPanel";
 import { stripHtmlTags } from "../utils/searchUtils";
 
 // Helper function to extract original filename from storage URL
@@ -100,6 +125,7 @@ export const ArticleEditor: React.FC = () => {
   const { id } = useParams();
   const navigate = useNavigate();
   const { userProfile, isInfoWriter, isAdmin } = useAuth();
+  const { settings: platformSettings } = usePlatformSettings();
   const isEditing = id !== "new";
 
   const [loading, setLoading] = useState(false);
@@ -119,8 +145,24 @@ export const ArticleEditor: React.FC = () => {
   // Draft recovery state
   const [showDraftRecovery, setShowDraftRecovery] = useState(false);
 
+  // Revision history state
+  const [showRevisionHistory, setShowRevisionHistory] = useState(false);
+
+  // Scheduled publishing state
+  const [showScheduleModal, setShowScheduleModal] = useState(false);
+
+  // Series the article should belong to once saved
+  const [selectedSeriesId, setSelectedSeriesId] = useState<string | undefined>();
+
+  // Template state
+  const [showTemplatePicker, setShowTemplatePicker] = useState(false);
+  const [showSaveTemplate, setShowSaveTemplate] = useState(false);
+
   // Editor key for forcing re-render when resetting
   const [editorKey, setEditorKey] = useState(0);
+  const markdownInputRef = useRef<HTMLInputElement>(null);
+  // The article as loaded, kept as its first revision if it has none yet
+  const loadedArticleRef = useRef<Article | null>(null);
 
   // Unsaved changes tracking
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
@@ -293,6 +335,136 @@ export const ArticleEditor: React.FC = () => {
     toast.success("Draft recovered successfully!");
   };
 
+  // Handle restoring a revision from history as the current draft
+  const handleRevisionRestore = (revision: ArticleRevision) => {
+    setArticle((prev) => ({
+      ...prev,
+      title: revision.title,
+      content: revision.content,
+      excerpt: revision.excerpt,
+      categories: revision.categories,
+      tags: revision.tags,
+      status: "draft",
+    }));
+
+    // Set form state and remount the editor with the restored content
+    setSelectedCategory(revision.categories?.[0] || "");
+    setEditorKey((prev) => prev + 1);
+    setShowRevisionHistory(false);
+
+    toast.success("Revision restored as draft. Save to keep it.");
+  };
+
+  // Prefill a new article from a template
+  const handleTemplateSelect = (template: ArticleTemplate) => {
+    setArticle((prev) => ({
+      ...prev,
+      title: applyTitlePattern(
+        template.titlePattern,
+        userProfile?.displayName || userProfile?.email || ""
+      ),
+      content: template.content,
+      excerpt: template.excerpt,
+      categories: template.categories,
+      tags: template.tags,
+    }));
+
+    // Set form state and remount the editor with the template content
+    setSelectedCategory(template.categories[0] || "");
+    setEditorKey((prev) => prev + 1);
+    setShowTemplatePicker(false);
+
+    toast.success(`Started from template "${template.name}"`);
+  };
+
+  // Replace the article with the contents of a Markdown file, using its
+  // front matter for the title, excerpt, tags, categories and cover image
+  const handleMarkdownImport = async (
+    e: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    if (
+      article.content &&
+      !window.confirm(
+        "Importing will replace the current content of this article. Continue?"
+      )
+    ) {
+      return;
+    }
+
+    try {
+      const { frontMatter, html } = parseMarkdownDocument(await file.text());
+      const categories = frontMatter.categories || article.categories;
+
+      setArticle((prev) => ({
+        ...prev,
+        title: frontMatter.title || prev.title,
+        excerpt: frontMatter.excerpt ?? prev.excerpt,
+        tags: frontMatter.tags ? frontMatter.tags.slice(0, 4) : prev.tags,
+        categories,
+        coverImage: frontMatter.coverImage ?? prev.coverImage,
+        content: html,
+      }));
+
+      // Set form state and remount the editor with the imported content
+      setSelectedCategory(categories?.[0] || "");
+      setEditorKey((prev) => prev + 1);
+
+      if (frontMatter.tags && frontMatter.tags.length > 4) {
+        toast.success(`Imported ${file.name}. Only the first 4 tags were kept.`);
+      } else {
+        toast.success(`Imported ${file.name}`);
+      }
+    } catch (error) {
+      console.error("Error importing Markdown:", error);
+      toast.error("Failed to import Markdown file");
+    }
+  };
+
+  // Record a revision after a successful save (failures never block saving)
+  const recordRevision = async (
+    articleId: string,
+    data: Partial<Article>,
+    status: Article["status"]
+  ) => {
+    if (!userProfile) return;
+
+    try {
+      await createArticleRevision(
+        articleId,
+        {
+          title: data.title || "",
+          content: data.content || "",
+          excerpt: data.excerpt || "",
+          tags: data.tags || [],
+          categories: data.categories || [],
+          status,
+        },
+        userProfile.uid,
+        userProfile.displayName || userProfile.email
+      );
+    } catch (error) {
+      console.error("Error recording article revision:", error);
+    }
+  };
+
+  // Before the first save of an article without revisions, keep its saved
+  // content as a revision (failures never block saving)
+  const recordInitialRevision = async () => {
+    const loadedArticle = loadedArticleRef.current;
+    if (!loadedArticle || !userProfile) return;
+
+    try {
+      await createInitialArticleRevision(loadedArticle, userProfile.uid);
+      loadedArticleRef.current = null;
+    } catch (error) {
+      console.error("Error recording initial article revision:", error);
+    }
+  };
+
   // Helper functions for enhanced features
   const addTag = () => {
     if (tagInput.trim() && article.tags && article.tags.length < 4) {
@@ -532,9 +704,9 @@ export const ArticleEditor: React.FC = () => {
     try {
       const loadedArticle = await getArticle(articleId);
       if (loadedArticle) {
-        // Check if user owns this article (admins can only edit their own articles now)
-        if (loadedArticle.authorId !== userProfile?.uid) {
-          toast.error("You can only edit your own articles");
+        // Check if user owns or co-authors this article (admins can only edit their own articles now)
+        if (!isArticleCollaborator(loadedArticle, userProfile?.uid)) {
+          toast.error("You can only edit your own or co-authored articles");
           navigate("/my-articles");
           return;
         }
@@ -546,8 +718,10 @@ export const ArticleEditor: React.FC = () => {
           return;
         }
         setArticle(loadedArticle);
+        loadedArticleRef.current = loadedArticle;
         // Set form state from loaded article
         setSelectedCategory(loadedArticle.categories?.[0] || "");
+        setSelectedSeriesId(loadedArticle.seriesId);
       } else {
         toast.error("Article not found");
         navigate("/my-articles");
@@ -601,6 +775,7 @@ export const ArticleEditor: React.FC = () => {
     setCustomCategory("");
     setTagInput("");
     setCoverImageUrl("");
+    setSelectedSeriesId(undefined);
 
     // Force re-render of RichTextEditor by changing key
     setEditorKey((prev) => prev + 1);
@@ -618,7 +793,23 @@ export const ArticleEditor: React.FC = () => {
     setHasUnsavedChanges(false);
   };
 
-  const handleSave = async (status: "draft" | "published" = "draft") => {
+  // Move the article into the selected series (failures never block saving)
+  const syncSeries = async (articleId: string) => {
+    if (selectedSeriesId === article.seriesId) return;
+
+    try {
+      await moveArticleToSeries(articleId, article.seriesId, selectedSeriesId);
+      setArticle((prev) => ({ ...prev, seriesId: selectedSeriesId }));
+    } catch (error) {
+      console.error("Error updating article series:", error);
+      toast.error("Article saved, but its series could not be updated");
+    }
+  };
+
+  const handleSave = async (
+    status: "draft" | "published" | "archive" | "scheduled" | "in_review" = "draft",
+    scheduledFor?: Date
+  ) => {
     if (!userProfile) {
       toast.error("User authentication error. Please refresh and try again.");
       return;
@@ -698,14 +889,34 @@ export const ArticleEditor: React.FC = () => {
         ...article,
         status,
         excerpt: article.excerpt || generateExcerpt(article.content),
-        authorId: userProfile.uid,
-        authorName: userProfile.displayName || userProfile.email,
+        // Co-authors keep the primary author's authorship when saving
+        authorId: isEditing && article.authorId ? article.authorId : userProfile.uid,
+        authorName:
+          isEditing && article.authorName
+            ? article.authorName
+            : userProfile.displayName || userProfile.email,
+        coAuthors: article.coAuthors || [],
+        coAuthorIds: (article.coAuthors || []).map((coAuthor) => coAuthor.uid),
         publishedAt: status === "published" && !article.publishedAt ? now : article.publishedAt,
+        scheduledFor: status === "scheduled" ? scheduledFor : undefined,
         updatedAt: now, // Always update the updatedAt when saving
       };
+      // The slug is reserved by createArticle and updateArticle; the loaded
+      // one is stale after a rename
+      delete articleData.slug;
+      delete articleData.slugReserved;
 
       if (isEditing && id) {
-        await updateArticle(id, articleData);
+        await recordInitialRevision();
+        if (status === "in_review") {
+          if (!(await submitArticleForReview(id, articleData))) {
+            toast.error("Submitted for review, but the reviewers could not be notified");
+          }
+        } else {
+          await updateArticle(id, articleData);
+        }
+        await recordRevision(id, articleData, status);
+        await syncSeries(id);
 
         // Clean up unused files after update
         if (userProfile) {
@@ -729,6 +940,10 @@ export const ArticleEditor: React.FC = () => {
               ? "published"
               : status === "archive"
               ? "archived"
+              : status === "scheduled"
+              ? "scheduled"
+              : status === "in_review"
+              ? "submitted for review"
               : "saved"
           } successfully`
         );
@@ -763,6 +978,20 @@ export const ArticleEditor: React.FC = () => {
           return;
         }
 
+        // For scheduled saves when editing, show upcoming publications
+        if (status === "scheduled") {
+          cleanupDraft();
+          navigate("/my-articles?status=scheduled");
+          return;
+        }
+
+        // For review submissions when editing, show articles awaiting review
+        if (status === "in_review") {
+          cleanupDraft();
+          navigate("/my-articles?status=in_review");
+          return;
+        }
+
         // For draft saves when editing, don't reset form - just navigate
         if (status === "draft") {
           navigate(isAdmin ? "/personal-dashboard" : "/dashboard");
@@ -779,6 +1008,13 @@ export const ArticleEditor: React.FC = () => {
 
         // Now handle file uploads with the new article ID
         await handleFileUploadsForNewArticle(newId, articleData);
+        if (status === "in_review") {
+          if (!(await submitArticleForReview(newId))) {
+            toast.error("Submitted for review, but the reviewers could not be notified");
+          }
+        }
+        await recordRevision(newId, articleData, status);
+        await syncSeries(newId);
 
         toast.success(
           `Article ${
@@ -786,6 +1022,10 @@ export const ArticleEditor: React.FC = () => {
               ? "published"
               : status === "archive"
               ? "archived"
+              : status === "scheduled"
+              ? "scheduled"
+              : status === "in_review"
+              ? "submitted for review"
               : "created"
           } successfully`
         );
@@ -803,7 +1043,11 @@ export const ArticleEditor: React.FC = () => {
         );
 
         // Clean up auto-saved draft after successful creation
-        if (status === "published") {
+        if (
+          status === "published" ||
+          status === "scheduled" ||
+          status === "in_review"
+        ) {
           cleanupDraft();
         }
 
@@ -816,6 +1060,12 @@ export const ArticleEditor: React.FC = () => {
         } else if (status === "archive") {
           // For archived articles, navigate to my articles with archive filter
           navigate("/my-articles?status=archive");
+        } else if (status === "scheduled") {
+          // For scheduled articles, navigate to upcoming publications
+          navigate("/my-articles?status=scheduled");
+        } else if (status === "in_review") {
+          // For review submissions, navigate to articles awaiting review
+          navigate("/my-articles?status=in_review");
         } else {
           // For published articles, reset form and stay on new article page for next article
           navigate("/article/new");
@@ -831,6 +1081,12 @@ export const ArticleEditor: React.FC = () => {
     }
   };
 
+  // Writers can always ask for editorial review, and must when the platform
+  // requires it. Admins publish directly, and already published articles
+  // stay live.
+  const canSubmitForReview = !isAdmin && article.status !== "published";
+  const requiresReview = platformSettings.requireReview && canSubmitForReview;
+
   if (loading || !userProfile) {
     return (
       <div className="flex items-center justify-center min-h-64">
@@ -946,39 +1202,7 @@ export const ArticleEditor: React.FC = () => {
           box-sizing: border-box;
         }
 
-        /* Image Grid Layouts */
-        .article-content .image-grid-item {
-          display: inline-block;
-          margin: 4px;
-          border-radius: 8px;
-          vertical-align: top;
-        }
-
-        /* 2-image grid */
-        .article-content .image-grid-item:nth-child(2n) {
-          width: calc(50% - 8px);
-        }
-
-        /* 3-image grid */
-        .article-content .image-grid-item:nth-child(3n) {
-          width: calc(33.333% - 8px);
-        }
-
-        /* 4+ image grid */
-        .article-content .image-grid-item:nth-child(4n) {
-          width: calc(25% - 8px);
-        }
-
-        /* Grid container */
-        .article-content .image-grid-container {
-          display: flex;
-          flex-wrap: wrap;
-          gap: 8px;
-          margin: 16px 0;
-          justify-content: center;
-        }
-
-        /* Responsive grid adjustments */
+        /* Responsive image adjustments */
         @media (max-width: 768px) {
           .article-content .image-outset {
             max-width: 100%;
@@ -992,17 +1216,6 @@ export const ArticleEditor: React.FC = () => {
             margin-right: 0;
             padding: 0;
           }
-
-          .article-content .image-grid-item:nth-child(n) {
-            width: calc(50% - 8px);
-          }
-        }
-
-        @media (max-width: 480px) {
-          .article-content .image-grid-item:nth-child(n) {
-            width: 100%;
-            margin: 4px 0;
-          }
         }
 
         /* Image Caption Styles for Preview - now handled by JavaScript processor */
@@ -1218,13 +1431,11 @@ export const ArticleEditor: React.FC = () => {
 
           {/* Article Content */}
           <div className="max-w-4xl mx-auto px-6">
-            <div
+            <ArticleContent
               className="prose prose-lg max-w-none article-content"
-              dangerouslySetInnerHTML={{
-                __html: processLayoutSpecificCaptions(
-                  article.content || "<p>Start writing your article...</p>"
-                ),
-              }}
+              html={processArticleContent(
+                article.content || "<p>Start writing your article...</p>"
+              )}
             />
           </div>
 
@@ -1285,6 +1496,53 @@ export const ArticleEditor: React.FC = () => {
         />
       )}
 
+      {/* Schedule Publication Modal */}
+      {showScheduleModal && (
+        <SchedulePublishModal
+          initialDate={article.scheduledFor}
+          saving={saving}
+          onConfirm={async (scheduledFor) => {
+            await handleSave("scheduled", scheduledFor);
+            setShowScheduleModal(false);
+          }}
+          onClose={() => setShowScheduleModal(false)}
+        />
+      )}
+
+      {/* Template Modals */}
+      {showTemplatePicker && userProfile && (
+        <TemplatePicker
+          userId={userProfile.uid}
+          isAdmin={isAdmin}
+          onSelect={handleTemplateSelect}
+          onClose={() => setShowTemplatePicker(false)}
+        />
+      )}
+      {showSaveTemplate && userProfile && (
+        <SaveTemplateModal
+          article={{
+            title: article.title || "",
+            content: article.content || "",
+            excerpt: article.excerpt || "",
+            categories: article.categories || [],
+            tags: article.tags || [],
+          }}
+          authorId={userProfile.uid}
+          authorName={userProfile.displayName || userProfile.email}
+          isAdmin={isAdmin}
+          onClose={() => setShowSaveTemplate(false)}
+        />
+      )}
+
+      {/* Revision History Modal */}
+      {showRevisionHistory && isEditing && id && (
+        <RevisionHistory
+          articleId={id}
+          onRestore={handleRevisionRestore}
+          onClose={() => setShowRevisionHistory(false)}
+        />
+      )}
+
       {/* Header */}
       <div className="flex items-center justify-between">
         <div className="flex items-center space-x-3">
@@ -1325,6 +1583,34 @@ export const ArticleEditor: React.FC = () => {
             <span>{isPreviewMode ? "Edit Mode" : "Preview"}</span>
           </button>
 
+          {/* Markdown Import */}
+          <button
+            onClick={() => markdownInputRef.current?.click()}
+            className="flex items-center space-x-2 px-4 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-colors"
+            title="Import a Markdown file"
+          >
+            <FileUp className="h-4 w-4" />
+            <span>Import Markdown</span>
+          </button>
+          <input
+            ref={markdownInputRef}
+            type="file"
+            accept=".md,.markdown,text/markdown"
+            onChange={handleMarkdownImport}
+            className="hidden"
+          />
+
+          {/* Revision History */}
+          {isEditing && (
+            <button
+              onClick={() => setShowRevisionHistory(true)}
+              className="flex items-center space-x-2 px-4 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-colors"
+            >
+              <History className="h-4 w-4" />
+              <span>History</span>
+            </button>
+          )}
+
           <button
             onClick={() => handleSave("draft")}
             disabled={saving || hasActiveUploads}
@@ -1345,17 +1631,109 @@ export const ArticleEditor: React.FC = () => {
             <span>Archive</span>
           </button>
 
+          {canSubmitForReview && (
+            <button
+              onClick={() => handleSave("in_review")}
+              disabled={saving || hasActiveUploads || article.status === "in_review"}
+              className="flex items-center space-x-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg transition-colors disabled:opacity-50"
+              title={
+                hasActiveUploads
+                  ? "Please wait for uploads to complete"
+                  : "An admin will review this article before it is published"
+              }
+            >
+              <ClipboardCheck className="h-4 w-4" />
+              <span>
+                {article.status === "in_review" ? "In Review" : "Submit for Review"}
+              </span>
+            </button>
+          )}
+
+          {!requiresReview && (
+            <button
+              onClick={() => handleSave("published")}
+              disabled={saving || hasActiveUploads}
+              className="flex items-center space-x-2 px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg transition-colors disabled:opacity-50"
+              title={hasActiveUploads ? "Please wait for uploads to complete" : ""}
+            >
+              <Send className="h-4 w-4" />
+              <span>Publish</span>
+            </button>
+          )}
+
+          {article.status !== "published" && !requiresReview && (
+            <button
+              onClick={() => setShowScheduleModal(true)}
+              disabled={saving || hasActiveUploads}
+              className="flex items-center space-x-2 px-4 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-colors disabled:opacity-50"
+              title={
+                hasActiveUploads
+                  ? "Please wait for uploads to complete"
+                  : article.scheduledFor
+                  ? "Reschedule publication"
+                  : "Schedule publication"
+              }
+            >
+              <CalendarClock className="h-4 w-4" />
+              <span>{article.status === "scheduled" ? "Reschedule" : "Schedule"}</span>
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Editorial Review Status */}
+      {article.status === "in_review" && (
+        <div className="flex items-start space-x-3 p-4 bg-indigo-50 border border-indigo-200 rounded-xl">
+          <ClipboardCheck className="h-5 w-5 text-indigo-600 mt-0.5" />
+          <div>
+            <p className="text-sm font-medium text-indigo-900">
+              Awaiting editorial review
+            </p>
+            <p className="text-sm text-indigo-800 mt-1">
+              An admin will approve this article or request changes. Saving it
+              as a draft withdraws it from review.
+            </p>
+          </div>
+        </div>
+      )}
+      {article.status === "draft" && article.reviewNote && (
+        <div className="flex items-start space-x-3 p-4 bg-yellow-50 border border-yellow-200 rounded-xl">
+          <MessageSquare className="h-5 w-5 text-yellow-600 mt-0.5" />
+          <div>
+            <p className="text-sm font-medium text-yellow-900">
+              Changes requested
+              {article.reviewedByName ? ` by ${article.reviewedByName}` : ""}
+            </p>
+            <p className="text-sm text-yellow-800 mt-1 whitespace-pre-line">
+              {article.reviewNote}
+            </p>
+          </div>
+        </div>
+      )}
+
+      {/* Template Suggestion for New Articles */}
+      {!isEditing && !article.content && !isPreviewMode && (
+        <div className="flex items-center justify-between p-4 bg-blue-50 border border-blue-200 rounded-xl">
+          <div className="flex items-start space-x-3">
+            <LayoutTemplate className="h-5 w-5 text-blue-600 mt-0.5" />
+            <div>
+              <p className="text-sm font-medium text-blue-900">
+                Start from a template
+              </p>
+              <p className="text-sm text-blue-800 mt-1">
+                Reuse a skeleton such as a how-to guide or release notes
+                instead of starting from a blank page.
+              </p>
+            </div>
+          </div>
           <button
-            onClick={() => handleSave("published")}
-            disabled={saving || hasActiveUploads}
-            className="flex items-center space-x-2 px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg transition-colors disabled:opacity-50"
-            title={hasActiveUploads ? "Please wait for uploads to complete" : ""}
+            onClick={() => setShowTemplatePicker(true)}
+            className="flex-shrink-0 ml-4 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors text-sm"
           >
-            <Send className="h-4 w-4" />
-            <span>Publish</span>
+            Browse Templates
           </button>
         </div>
-      </div>
+      )}
 
       {/* Show Preview or Editor */}
       {isPreviewMode ? (
@@ -1719,6 +2097,58 @@ export const ArticleEditor: React.FC = () => {
               </p>
             </div>
 
+            {/* Co-authors (managed by the primary author only) */}
+            {(!isEditing || article.authorId === userProfile?.uid) && (
+              <CoAuthorManager
+                coAuthors={article.coAuthors || []}
+                primaryAuthorId={userProfile?.uid || ""}
+                onChange={(coAuthors) =>
+                  setArticle((prev) => ({ ...prev, coAuthors }))
+                }
+              />
+            )}
+
+            {/* Series (managed by the primary author only) */}
+            {(!isEditing || article.authorId === userProfile?.uid) && (
+              <SeriesPicker
+                articleId={isEditing ? id : undefined}
+                seriesId={selectedSeriesId}
+                authorId={userProfile?.uid || ""}
+                authorName={userProfile?.displayName || userProfile?.email || ""}
+                onChange={setSelectedSeriesId}
+              />
+            )}
+
+            {/* Templates */}
+            <div className="bg-white rounded-2xl p-6 border border-gray-200">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+                <LayoutTemplate className="h-5 w-5 mr-2" />
+                Templates
+              </h3>
+              <div className="space-y-2">
+                {!isEditing && (
+                  <button
+                    type="button"
+                    onClick={() => setShowTemplatePicker(true)}
+                    className="w-full flex items-center justify-center space-x-2 px-3 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-colors text-sm"
+                  >
+                    <LayoutTemplate className="h-4 w-4" />
+                    <span>Start from Template</span>
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => setShowSaveTemplate(true)}
+                  disabled={!article.content}
+                  className="w-full flex items-center justify-center space-x-2 px-3 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-colors text-sm disabled:opacity-50"
+                  title={article.content ? "" : "Write some content first"}
+                >
+                  <Save className="h-4 w-4" />
+                  <span>Save as Template</span>
+                </button>
+              </div>
+            </div>
+
             {/* Attachments */}
             <div className="bg-white rounded-2xl p-6 border border-gray-200">
               <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
@@ -1788,6 +2218,9 @@ export const ArticleEditor: React.FC = () => {
                 </div>
               )}
             </div>
+
+            {/* Writing Stats */}
+            <WritingStatsPanel content={article.content || ""} />
           </div>
         </div>
       )}
@@ -1,7 +1,23 @@
-import React, { useState, useEffect } from "react";
-import { useParams, useNavigate, Link, useLocation } from "react-router-dom";
+import React, { useState, useEffect, useRef, useMemo } from "react";
+import {
+  useParams,
+  useNavigate,
+  Link,
+  useLocation,
+  useSearchParams,
+} from "react-router-dom";
 import { useAuth } from "../hooks/useAuth";
-import { getArticle, Article, hardDeleteArticle } from "../lib/articles";
+import { useArticleSeries } from "../hooks/useArticleSeries";
+import { useActiveHeading } from "../hooks/useActiveHeading";
+import { useTaskProgress } from "../hooks/useTaskProgress";
+import {
+  getArticleBySlugOrId,
+  getArticlePath,
+  getArticleShareUrl,
+  getArticleSlugOrId,
+  Article,
+  hardDeleteArticle,
+} from "../lib/articles";
 import { UserProfile } from "../lib/auth";
 import {
   ArrowLeft,
@@ -19,11 +35,17 @@ import {
   ChevronDown,
   Trash2,
   AlertTriangle,
+  Users,
+  Layers,
+  FileDown,
+  ListChecks,
+  RotateCcw,
 } from "lucide-react";
 import { formatDistanceToNow, format } from "date-fns";
 import toast from "react-hot-toast";
 import { SaveArticleButton } from "../components/SaveArticleButton";
 import { ShareButton } from "../components/ShareButton";
+import { SeriesNavigation } from "../components/SeriesNavigation";
 import {
   CommentSection,
   CommentButton,
@@ -32,7 +54,12 @@ import {
 import { onSnapshot, doc, updateDoc, increment } from "firebase/firestore";
 import { firestore } from "../lib/firebase";
 
-import { processLayoutSpecificCaptions } from "../lib/tiptap/utils/captionProcessor";
+import { processArticleContent } from "../lib/tiptap/utils/contentProcessor";
+import { getHeadingOutline } from "../lib/tiptap/utils/headingProcessor";
+import { TableOfContents } from "../components/TableOfContents";
+import { ArticleContent } from "../components/ArticleContent";
+import { articleToMarkdown } from "../utils/markdown";
+import { estimateReadingTime } from "../utils/writingStats";
 
 // Helper function to extract original filename from storage URL
 const extractOriginalFilename = (url: string): string => {
@@ -91,7 +118,8 @@ const extractOriginalFilename = (url: string): string => {
 };
 
 export const ArticleView: React.FC = () => {
-  const { id } = useParams();
+  // Slug (current or previous) or, for older links, the article ID
+  const { slug: slugOrId } = useParams();
   const navigate = useNavigate();
   const location = useLocation();
   const {
@@ -118,19 +146,48 @@ export const ArticleView: React.FC = () => {
 
   // Comment section state
   const commentSection = useCommentSection(article?.id || "");
+  const seriesInfo = useArticleSeries(article?.id, article?.seriesId);
+  const articleId = article?.id;
+
+  // Canonical slug we redirected to, so the redirect doesn't reload the article
+  const redirectedSlugRef = useRef<string | null>(null);
+
+  // Rendered content with heading anchors, and its outline for the TOC
+  const [searchParams, setSearchParams] = useSearchParams();
+  const sectionId = searchParams.get("section");
+  const articleContent = article?.content;
+  const renderedContent = useMemo(
+    () => processArticleContent(articleContent || ""),
+    [articleContent]
+  );
+  const headings = useMemo(
+    () => getHeadingOutline(renderedContent),
+    [renderedContent]
+  );
+  // Articles saved before reading time was stored fall back to an estimate
+  const readingTime = useMemo(
+    () => article?.readingTime ?? estimateReadingTime(articleContent || ""),
+    [article?.readingTime, articleContent]
+  );
+  const taskProgress = useTaskProgress(renderedContent, articleId, userProfile?.uid);
+  const activeHeadingId = useActiveHeading(headings.map((heading) => heading.id));
 
   useEffect(() => {
     // Wait for auth to load before attempting to load article
     // This ensures userProfile is available for permission checks
-    if (id && !authLoading) {
-      loadArticle(id);
+    if (slugOrId && !authLoading) {
+      if (slugOrId === redirectedSlugRef.current) {
+        redirectedSlugRef.current = null;
+        return;
+      }
+      loadArticle(slugOrId);
     }
-  }, [id, authLoading]);
+  }, [slugOrId, authLoading]);
 
-  const loadArticle = async (articleId: string) => {
+  const loadArticle = async (articleSlugOrId: string) => {
     setLoading(true);
     try {
-      const loadedArticle = await getArticle(articleId);
+      const loadedArticle = await getArticleBySlugOrId(articleSlugOrId);
       if (loadedArticle) {
         // For published articles, anyone can read them
         // For draft articles, we need to ensure userProfile is loaded before checking permissions
@@ -144,7 +201,11 @@ export const ArticleView: React.FC = () => {
           // If userProfile is loaded, check permissions
           if (
             userProfile &&
-            !canReadArticle(loadedArticle.status, loadedArticle.authorId)
+            !canReadArticle(
+              loadedArticle.status,
+              loadedArticle.authorId,
+              loadedArticle.coAuthorIds
+            )
           ) {
             toast.error("Article not found or not accessible");
             navigate("/dashboard");
@@ -164,7 +225,7 @@ export const ArticleView: React.FC = () => {
         // Increment view count (only once per session)
         if (!viewsIncremented && loadedArticle.status === "published") {
           try {
-            const articleRef = doc(firestore, "articles", articleId);
+            const articleRef = doc(firestore, "articles", loadedArticle.id);
             await updateDoc(articleRef, {
               views: increment(1),
             });
@@ -173,6 +234,18 @@ export const ArticleView: React.FC = () => {
             console.error("Error incrementing views:", error);
           }
         }
+
+        // Old slugs and ID links redirect to the article's current slug,
+        // keeping any section link. Legacy slugs redirect to the ID until
+        // they are reserved.
+        const canonicalSlugOrId = getArticleSlugOrId(loadedArticle);
+        if (articleSlugOrId !== canonicalSlugOrId) {
+          redirectedSlugRef.current = canonicalSlugOrId;
+          navigate(`${getArticlePath(loadedArticle)}${location.search}`, {
+            replace: true,
+            state: location.state,
+          });
+        }
       } else {
         toast.error("Article not found");
         navigate("/dashboard");
@@ -187,9 +260,9 @@ export const ArticleView: React.FC = () => {
 
   // Real-time article updates
   useEffect(() => {
-    if (!id) return;
+    if (!articleId) return;
 
-    const articleRef = doc(firestore, "articles", id);
+    const articleRef = doc(firestore, "articles", articleId);
     const unsubscribe = onSnapshot(
       articleRef,
       (doc) => {
@@ -228,7 +301,7 @@ export const ArticleView: React.FC = () => {
     );
 
     return () => unsubscribe();
-  }, [id, userProfile?.uid]);
+  }, [articleId, userProfile?.uid]);
 
   // Real-time author profile updates
   useEffect(() => {
@@ -271,9 +344,106 @@ export const ArticleView: React.FC = () => {
     return () => unsubscribe();
   }, [article?.authorId]);
 
+  // Scroll to the section named in a shared link once the content renders
+  const hasRenderedContent = !loading && !!articleContent;
+  useEffect(() => {
+    if (!sectionId || !hasRenderedContent) return;
+    document.getElementById(sectionId)?.scrollIntoView({ behavior: "smooth" });
+  }, [sectionId, hasRenderedContent]);
+
+  // Jump to a section from the table of contents and keep it in the URL
+  const handleHeadingSelect = (id: string) => {
+    document.getElementById(id)?.scrollIntoView({ behavior: "smooth" });
+    setSearchParams({ section: id }, { replace: true, state: location.state });
+  };
+
+  // Copy the code of a rendered code block
+  const copyCodeBlock = async (copyButton: HTMLElement) => {
+    const code = copyButton.closest(".code-block")?.querySelector("code");
+    if (!code) return;
+
+    try {
+      await navigator.clipboard.writeText((code.textContent || "").replace(/\n$/, ""));
+      copyButton.textContent = "Copied!";
+      setTimeout(() => {
+        copyButton.textContent = "Copy";
+      }, 2000);
+    } catch (error) {
+      console.error("Error copying code:", error);
+      toast.error("Failed to copy code");
+    }
+  };
+
+  // Handle the controls inside the rendered content: copy buttons on code
+  // blocks and the "#" copy-link controls on headings
+  const handleContentClick = async (e: React.MouseEvent<HTMLDivElement>) => {
+    // Checklist ticks are saved to the reader's own progress
+    const taskCheckbox = (e.target as HTMLElement).closest<HTMLInputElement>(
+      "input[data-task-checkbox]"
+    );
+    if (taskCheckbox) {
+      const taskId = taskCheckbox
+        .closest<HTMLElement>('li[data-type="taskItem"]')
+        ?.getAttribute("data-task-id");
+      if (taskId) {
+        taskProgress.toggleTask(taskId, taskCheckbox.checked);
+      }
+      return;
+    }
+
+    const copyButton = (e.target as HTMLElement).closest<HTMLElement>(
+      ".code-copy-button"
+    );
+    if (copyButton) {
+      await copyCodeBlock(copyButton);
+      return;
+    }
+
+    // Footnote references and back-links jump between each other in place
+    const footnoteTarget = (e.target as HTMLElement).closest<HTMLElement>(
+      "[data-footnote-target]"
+    )?.dataset.footnoteTarget;
+    if (footnoteTarget) {
+      document
+        .getElementById(footnoteTarget)
+        ?.scrollIntoView({ behavior: "smooth", block: "center" });
+      return;
+    }
+
+    const anchorButton = (e.target as HTMLElement).closest<HTMLElement>(
+      ".heading-anchor"
+    );
+    const headingId = anchorButton?.dataset.headingId;
+    if (!article || !headingId) return;
+
+    const sectionUrl = `${getArticleShareUrl(article)}?section=${encodeURIComponent(headingId)}`;
+    try {
+      await navigator.clipboard.writeText(sectionUrl);
+      toast.success("Section link copied to clipboard!");
+    } catch (error) {
+      console.error("Error copying section link:", error);
+      toast.error("Failed to copy link");
+    }
+  };
+
   const canEdit = (article: Article): boolean => {
     if (!userProfile) return false;
-    return canEditArticle(article.authorId, article.status);
+    return canEditArticle(article.authorId, article.status, article.coAuthorIds);
+  };
+
+  // Download the article as a Markdown file with YAML front matter
+  const handleExportMarkdown = (article: Article) => {
+    const blob = new Blob([articleToMarkdown(article)], {
+      type: "text/markdown;charset=utf-8",
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${article.slug || article.id}.md`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
   };
 
   // Check if user can delete this article
@@ -309,10 +479,11 @@ export const ArticleView: React.FC = () => {
         userProfile.uid,
         article.authorId,
         authorProfile?.role,
-        deleteReason
+        deleteReason,
+        userProfile.displayName
       );
 
-      toast.success("Article deleted successfully");
+      toast.success("Article moved to trash");
       setShowDeleteConfirm(false);
       setDeleteNote(""); // Reset the note
 
@@ -466,39 +637,7 @@ export const ArticleView: React.FC = () => {
           box-sizing: border-box;
         }
 
-        /* Image Grid Layouts */
-        .prose .image-grid-item {
-          display: inline-block;
-          margin: 4px;
-          border-radius: 8px;
-          vertical-align: top;
-        }
-
-        /* 2-image grid */
-        .prose .image-grid-item:nth-child(2n) {
-          width: calc(50% - 8px);
-        }
-
-        /* 3-image grid */
-        .prose .image-grid-item:nth-child(3n) {
-          width: calc(33.333% - 8px);
-        }
-
-        /* 4+ image grid */
-        .prose .image-grid-item:nth-child(4n) {
-          width: calc(25% - 8px);
-        }
-
-        /* Grid container */
-        .prose .image-grid-container {
-          display: flex;
-          flex-wrap: wrap;
-          gap: 8px;
-          margin: 16px 0;
-          justify-content: center;
-        }
-
-        /* Responsive grid adjustments */
+        /* Responsive image adjustments */
         @media (max-width: 768px) {
           .prose .image-outset {
             max-width: 100%;
@@ -512,17 +651,6 @@ export const ArticleView: React.FC = () => {
             margin-right: 0;
             padding: 0;
           }
-
-          .prose .image-grid-item:nth-child(n) {
-            width: calc(50% - 8px);
-          }
-        }
-
-        @media (max-width: 480px) {
-          .prose .image-grid-item:nth-child(n) {
-            width: 100%;
-            margin: 4px 0;
-          }
         }
 
         /* Professional Document Styling */
@@ -894,10 +1022,22 @@ export const ArticleView: React.FC = () => {
             {/* Share Article Button */}
             <ShareButton
               articleId={article.id}
+              articleSlug={getArticleSlugOrId(article)}
               articleTitle={article.title}
               showLabel={true}
             />
 
+            {canEdit(article) && (
+              <button
+                onClick={() => handleExportMarkdown(article)}
+                className="flex items-center space-x-2 px-4 py-2 border border-gray-300 text-gray-700 hover:bg-gray-50 rounded-lg transition-colors"
+                title="Export as Markdown"
+              >
+                <FileDown className="h-4 w-4" />
+                <span>Export Markdown</span>
+              </button>
+            )}
+
             {canEdit(article) && (
               <Link
                 to={`/article/edit/${article.id}`}
@@ -920,275 +1060,402 @@ export const ArticleView: React.FC = () => {
           </div>
         </div>
 
-        {/* Article Content */}
-        <article className="bg-white/90 backdrop-blur-sm rounded-2xl overflow-hidden border border-gray-200 shadow-xl hover:shadow-2xl transition-shadow duration-300">
-          {/* Cover Image */}
-          {article.coverImage && (
-            <div className="aspect-video bg-gray-100 overflow-hidden">
-              <img
-                src={article.coverImage}
-                alt={article.title}
-                className="w-full h-full object-cover"
-              />
-            </div>
-          )}
-
-          <div className="p-8 lg:p-12">
-            {/* Status Badge */}
-            {article.status !== "published" && (
-              <div className="mb-6">
-                <span
-                  className={`inline-flex items-center px-3 py-1 rounded-full text-sm font-medium ${
-                    article.status === "draft"
-                      ? "bg-yellow-100 text-yellow-800"
-                      : "bg-red-100 text-red-800"
-                  }`}
-                >
-                  {article.status === "draft" ? "Draft" : "Unpublished"}
-                </span>
+        <div className="xl:flex xl:items-start xl:gap-8">
+          {/* Article Content */}
+          <article className="xl:flex-1 min-w-0 bg-white/90 backdrop-blur-sm rounded-2xl overflow-hidden border border-gray-200 shadow-xl hover:shadow-2xl transition-shadow duration-300">
+            {/* Cover Image */}
+            {article.coverImage && (
+              <div className="aspect-video bg-gray-100 overflow-hidden">
+                <img
+                  src={article.coverImage}
+                  alt={article.title}
+                  className="w-full h-full object-cover"
+                />
               </div>
             )}
 
-            {/* Title */}
-            <h1 className="text-5xl lg:text-6xl font-bold bg-gradient-to-r from-[#1D4ED8] via-[#7C3AED] to-[#EC4899] bg-clip-text text-transparent mb-8 leading-tight tracking-tight">
-              {article.title}
-            </h1>
-
-            {/* Author Profile & Metadata */}
-            <div className="flex items-start justify-between mb-8">
-              <div className="flex items-center space-x-4">
-                {/* Author Profile */}
-                <Link
-                  to={`/author/${article.authorId}`}
-                  className="flex items-center space-x-3 hover:bg-gray-50 rounded-lg p-2 -m-2 transition-colors group"
-                >
-                  {authorProfile?.profilePicture ? (
-                    <img
-                      src={authorProfile.profilePicture}
-                      alt={authorProfile.displayName || article.authorName}
-                      className="w-12 h-12 rounded-full object-cover border-2 border-gray-200 group-hover:border-blue-300 transition-colors"
-                    />
-                  ) : (
-                    <div className="w-12 h-12 rounded-full bg-gradient-to-r from-blue-500 to-purple-600 flex items-center justify-center group-hover:from-blue-600 group-hover:to-purple-700 transition-all">
-                      <User className="h-6 w-6 text-white" />
+            <div className="p-8 lg:p-12">
+              {/* Status Badge */}
+              {article.status !== "published" && (
+                <div className="mb-6">
+                  <span
+                    className={`inline-flex items-center px-3 py-1 rounded-full text-sm font-medium ${
+                      article.status === "draft"
+                        ? "bg-yellow-100 text-yellow-800"
+                        : article.status === "scheduled"
+                        ? "bg-blue-100 text-blue-800"
+                        : article.status === "in_review"
+                        ? "bg-indigo-100 text-indigo-800"
+                        : "bg-red-100 text-red-800"
+                    }`}
+                  >
+                    {article.status === "draft"
+                      ? "Draft"
+                      : article.status === "scheduled"
+                      ? `Scheduled${
+                          article.scheduledFor
+                            ? ` for ${format(article.scheduledFor, "dd/MM/yyyy HH:mm")}`
+                            : ""
+                        }`
+                      : article.status === "in_review"
+                      ? "In Review"
+                      : "Unpublished"}
+                  </span>
+                </div>
+              )}
+
+              {/* Series Badge */}
+              {seriesInfo.series && (
+                <div className="mb-4">
+                  {/* Scroll instead of a hash link, which the HashRouter would treat as a route */}
+                  <button
+                    onClick={() =>
+                      document
+                        .getElementById("series-navigation")
+                        ?.scrollIntoView({ behavior: "smooth" })
+                    }
+                    className="inline-flex items-center px-3 py-1 bg-indigo-50 text-indigo-700 rounded-full text-sm font-medium hover:bg-indigo-100 transition-colors"
+                  >
+                    <Layers className="h-4 w-4 mr-1" />
+                    {seriesInfo.position
+                      ? `Part ${seriesInfo.position.index + 1} of ${seriesInfo.position.total}`
+                      : "Series"}
+                    <span className="mx-1">·</span>
+                    <span className="truncate">{seriesInfo.series.title}</span>
+                  </button>
+                </div>
+              )}
+
+              {/* Title */}
+              <h1 className="text-5xl lg:text-6xl font-bold bg-gradient-to-r from-[#1D4ED8] via-[#7C3AED] to-[#EC4899] bg-clip-text text-transparent mb-8 leading-tight tracking-tight">
+                {article.title}
+              </h1>
+
+              {/* Author Profile & Metadata */}
+              <div className="flex items-start justify-between mb-8">
+                <div className="flex items-center space-x-4">
+                  {/* Author Profile */}
+                  <Link
+                    to={`/author/${article.authorId}`}
+                    className="flex items-center space-x-3 hover:bg-gray-50 rounded-lg p-2 -m-2 transition-colors group"
+                  >
+                    {authorProfile?.profilePicture ? (
+                      <img
+                        src={authorProfile.profilePicture}
+                        alt={authorProfile.displayName || article.authorName}
+                        className="w-12 h-12 rounded-full object-cover border-2 border-gray-200 group-hover:border-blue-300 transition-colors"
+                      />
+                    ) : (
+                      <div className="w-12 h-12 rounded-full bg-gradient-to-r from-blue-500 to-purple-600 flex items-center justify-center group-hover:from-blue-600 group-hover:to-purple-700 transition-all">
+                        <User className="h-6 w-6 text-white" />
+                      </div>
+                    )}
+                    <div>
+                      <p className="font-medium text-gray-900 group-hover:text-blue-600 transition-colors">
+                        {authorProfile?.displayName || article.authorName}
+                      </p>
+                      <p className="text-sm text-gray-600 capitalize">
+                        {authorProfile?.role
+                          ? authorProfile.role === "infowriter"
+                            ? "InfoWriter"
+                            : authorProfile.role === "admin"
+                            ? "InfoWriter"
+                            : authorProfile.role
+                          : "Author"}
+                      </p>
+                    </div>
+                  </Link>
+
+                  {/* Co-authors */}
+                  {article.coAuthors && article.coAuthors.length > 0 && (
+                    <div className="flex items-center space-x-2 text-sm text-gray-600">
+                      <Users className="h-4 w-4" />
+                      <span>
+                        with{" "}
+                        {article.coAuthors.map((coAuthor, index) => (
+                          <React.Fragment key={coAuthor.uid}>
+                            {index > 0 && ", "}
+                            <Link
+                              to={`/author/${coAuthor.uid}`}
+                              className="font-medium text-gray-900 hover:text-blue-600 transition-colors"
+                            >
+                              {coAuthor.displayName}
+                            </Link>
+                          </React.Fragment>
+                        ))}
+                      </span>
                     </div>
                   )}
-                  <div>
-                    <p className="font-medium text-gray-900 group-hover:text-blue-600 transition-colors">
-                      {authorProfile?.displayName || article.authorName}
-                    </p>
-                    <p className="text-sm text-gray-600 capitalize">
-                      {authorProfile?.role
-                        ? authorProfile.role === "infowriter"
-                          ? "InfoWriter"
-                          : authorProfile.role === "admin"
-                          ? "InfoWriter"
-                          : authorProfile.role
-                        : "Author"}
-                    </p>
-                  </div>
-                </Link>
-              </div>
-
-              {/* Article Actions */}
-              <div className="flex items-center space-x-3">
-                <CommentButton
-                  commentCount={commentSection.commentCount}
-                  onClick={commentSection.toggle}
-                  className="data-comment-button"
-                />
+                </div>
 
-                <button
-                  onClick={handleLikeToggle}
-                  disabled={likingInProgress}
-                  className={`flex items-center space-x-2 px-3 py-2 rounded-lg transition-colors ${
-                    isLiked
-                      ? "text-red-600 hover:text-red-700 hover:bg-red-50"
-                      : "text-gray-600 hover:text-red-600 hover:bg-red-50"
-                  }`}
-                >
-                  <Heart
-                    className={`h-4 w-4 ${isLiked ? "fill-current" : ""}`}
+                {/* Article Actions */}
+                <div className="flex items-center space-x-3">
+                  <CommentButton
+                    commentCount={commentSection.commentCount}
+                    onClick={commentSection.toggle}
+                    className="data-comment-button"
                   />
-                  <span className="text-sm">{likeCount}</span>
-                </button>
-              </div>
-            </div>
 
-            {/* Article Stats */}
-            <div className="flex flex-wrap items-center gap-6 mb-8 text-sm text-gray-600 bg-gray-50 rounded-lg p-4">
-              <div className="flex items-center space-x-2">
-                <Calendar className="h-4 w-4" />
-                <span>Updated: {format(article.updatedAt, "dd/MM/yyyy")}</span>
+                  <button
+                    onClick={handleLikeToggle}
+                    disabled={likingInProgress}
+                    className={`flex items-center space-x-2 px-3 py-2 rounded-lg transition-colors ${
+                      isLiked
+                        ? "text-red-600 hover:text-red-700 hover:bg-red-50"
+                        : "text-gray-600 hover:text-red-600 hover:bg-red-50"
+                    }`}
+                  >
+                    <Heart
+                      className={`h-4 w-4 ${isLiked ? "fill-current" : ""}`}
+                    />
+                    <span className="text-sm">{likeCount}</span>
+                  </button>
+                </div>
               </div>
 
-              <div className="flex items-center space-x-2">
-                <Eye className="h-4 w-4" />
-                <span>{article.views || 0} views</span>
+              {/* Article Stats */}
+              <div className="flex flex-wrap items-center gap-6 mb-8 text-sm text-gray-600 bg-gray-50 rounded-lg p-4">
+                <div className="flex items-center space-x-2">
+                  <Calendar className="h-4 w-4" />
+                  <span>Updated: {format(article.updatedAt, "dd/MM/yyyy")}</span>
+                </div>
+
+                {readingTime > 0 && (
+                  <div className="flex items-center space-x-2">
+                    <Clock className="h-4 w-4" />
+                    <span>{readingTime} min read</span>
+                  </div>
+                )}
+
+                <div className="flex items-center space-x-2">
+                  <Eye className="h-4 w-4" />
+                  <span>{article.views || 0} views</span>
+                </div>
               </div>
-            </div>
 
-            {/* Categories and Tags */}
-            {(article.categories.length > 0 || article.tags.length > 0) && (
-              <div className="mb-6">
-                <div className="flex flex-wrap items-center gap-6">
-                  {article.categories.length > 0 && (
-                    <div className="flex items-center gap-3">
-                      <div className="flex items-center space-x-2">
-                        <Folder className="h-4 w-4 text-gray-500" />
-                        <span className="text-sm font-medium text-gray-700">
-                          Categories:
-                        </span>
-                      </div>
-                      <div className="flex flex-wrap gap-2">
-                        {article.categories.map((category) => (
-                          <span
-                            key={category}
-                            className="px-3 py-1 border border-[#1D4ED8] text-[#1D4ED8] rounded-full text-sm font-medium hover:text-[#1D4ED8]/80 transition-colors"
-                          >
-                            {category}
+              {/* Categories and Tags */}
+              {(article.categories.length > 0 || article.tags.length > 0) && (
+                <div className="mb-6">
+                  <div className="flex flex-wrap items-center gap-6">
+                    {article.categories.length > 0 && (
+                      <div className="flex items-center gap-3">
+                        <div className="flex items-center space-x-2">
+                          <Folder className="h-4 w-4 text-gray-500" />
+                          <span className="text-sm font-medium text-gray-700">
+                            Categories:
                           </span>
-                        ))}
+                        </div>
+                        <div className="flex flex-wrap gap-2">
+                          {article.categories.map((category) => (
+                            <span
+                              key={category}
+                              className="px-3 py-1 border border-[#1D4ED8] text-[#1D4ED8] rounded-full text-sm font-medium hover:text-[#1D4ED8]/80 transition-colors"
+                            >
+                              {category}
+                            </span>
+                          ))}
+                        </div>
                       </div>
-                    </div>
-                  )}
+                    )}
 
-                  {article.tags.length > 0 && (
-                    <div className="flex items-center gap-3">
-                      <div className="flex items-center space-x-2">
-                        <Tag className="h-4 w-4 text-gray-500" />
-                        <span className="text-sm font-medium text-gray-700">
-                          Tags:
-                        </span>
-                      </div>
-                      <div className="flex flex-wrap gap-2">
-                        {article.tags.map((tag) => (
-                          <span
-                            key={tag}
-                            className="px-3 py-1 border border-[#7C3AED] text-[#7C3AED] rounded-full text-sm hover:text-[#7C3AED]/80 transition-colors"
-                          >
-                            #{tag}
+                    {article.tags.length > 0 && (
+                      <div className="flex items-center gap-3">
+                        <div className="flex items-center space-x-2">
+                          <Tag className="h-4 w-4 text-gray-500" />
+                          <span className="text-sm font-medium text-gray-700">
+                            Tags:
                           </span>
-                        ))}
+                        </div>
+                        <div className="flex flex-wrap gap-2">
+                          {article.tags.map((tag) => (
+                            <span
+                              key={tag}
+                              className="px-3 py-1 border border-[#7C3AED] text-[#7C3AED] rounded-full text-sm hover:text-[#7C3AED]/80 transition-colors"
+                            >
+                              #{tag}
+                            </span>
+                          ))}
+                        </div>
                       </div>
-                    </div>
+                    )}
+                  </div>
+                </div>
+              )}
+
+              {/* Table of Contents (narrow screens) */}
+              {headings.length > 1 && (
+                <TableOfContents
+                  headings={headings}
+                  activeId={activeHeadingId}
+                  onSelect={handleHeadingSelect}
+                  className="xl:hidden mx-4 mt-4"
+                />
+              )}
+
+              {/* Checklist Progress */}
+              {taskProgress.total > 0 && taskProgress.progress && (
+                <div className="mx-4 mt-4 flex items-center gap-3 bg-blue-50 border border-blue-100 rounded-lg px-4 py-3 text-sm text-blue-900">
+                  <ListChecks className="h-4 w-4 flex-shrink-0" />
+                  <span className="whitespace-nowrap">
+                    {taskProgress.completed} of {taskProgress.total} done
+                  </span>
+                  <div className="flex-1 h-2 bg-blue-100 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-blue-600 rounded-full transition-all"
+                      style={{
+                        width: `${(taskProgress.completed / taskProgress.total) * 100}%`,
+                      }}
+                    />
+                  </div>
+                  {Object.keys(taskProgress.progress).length > 0 && (
+                    <button
+                      onClick={taskProgress.resetTasks}
+                      className="flex items-center text-xs text-blue-700 hover:text-blue-900"
+                      title="Clear your ticks on this article"
+                    >
+                      <RotateCcw className="h-3.5 w-3.5 mr-1" />
+                      Reset
+                    </button>
                   )}
                 </div>
-              </div>
-            )}
+              )}
 
-            {/* Content */}
-            <div className="w-full pt-4 pb-8 px-4 overflow-hidden">
-              <div
-                className="prose prose-lg max-w-none mx-auto prose-headings:text-gray-900 prose-p:text-gray-700 prose-strong:text-gray-900 prose-code:text-purple-600 prose-code:bg-purple-50 prose-pre:bg-gray-900 prose-blockquote:border-blue-500 prose-blockquote:bg-blue-50"
-                style={{
-                  fontSize: "18px",
-                  lineHeight: "1.8",
-                  letterSpacing: "0.01em",
-                  overflowWrap: "break-word",
-                  wordWrap: "break-word",
-                  maxWidth: "100%",
-                }}
-                dangerouslySetInnerHTML={{
-                  __html: processLayoutSpecificCaptions(article.content),
-                }}
-              />
-            </div>
-
-            {/* Attachments */}
-            {((article.attachments && article.attachments.length > 0) ||
-              (article.attachmentMetadata && article.attachmentMetadata.length > 0)) && (
-              <div className="mt-8 pt-6 border-t border-gray-200">
-                {/* Collapsible Header */}
-                <button
-                  onClick={() => setIsAttachmentsExpanded(!isAttachmentsExpanded)}
-                  className="flex items-center justify-between w-full mb-4 p-2 -m-2 rounded-lg hover:bg-gray-50 focus:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-opacity-50 transition-all duration-200 group"
-                  aria-expanded={isAttachmentsExpanded}
-                  aria-controls="attachments-content"
-                  aria-label={`${isAttachmentsExpanded ? 'Collapse' : 'Expand'} attachments section`}
-                >
-                  <div className="flex items-center space-x-2">
-                    <Download className="h-5 w-5 text-blue-600" />
-                    <h3 className="text-lg font-semibold text-gray-900 group-hover:text-blue-700 transition-colors">
-                      Attachments ({article.attachmentMetadata?.length || article.attachments?.length || 0})
-                    </h3>
-                  </div>
-                  <ChevronDown
-                    className={`h-5 w-5 text-gray-500 transition-transform duration-300 ease-in-out ${
-                      isAttachmentsExpanded ? 'rotate-180' : 'rotate-0'
-                    }`}
-                  />
-                </button>
-
-                {/* Collapsible Content */}
-                <div
-                  id="attachments-content"
-                  className={`overflow-hidden transition-all duration-300 ease-in-out ${
-                    isAttachmentsExpanded
-                      ? 'max-h-screen opacity-100'
-                      : 'max-h-0 opacity-0'
-                  }`}
+              {/* Content */}
+              <div className="w-full pt-4 pb-8 px-4 overflow-hidden">
+                <ArticleContent
+                  className="prose prose-lg max-w-none mx-auto prose-headings:text-gray-900 prose-p:text-gray-700 prose-strong:text-gray-900 prose-code:text-purple-600 prose-code:bg-purple-50 prose-pre:bg-gray-900 prose-blockquote:border-blue-500 prose-blockquote:bg-blue-50"
                   style={{
-                    transitionProperty: 'max-height, opacity, margin',
-                    marginTop: isAttachmentsExpanded ? '0' : '0',
+                    fontSize: "18px",
+                    lineHeight: "1.8",
+                    letterSpacing: "0.01em",
+                    overflowWrap: "break-word",
+                    wordWrap: "break-word",
+                    maxWidth: "100%",
                   }}
-                >
-                  <div className={`space-y-3 transition-all duration-300 ease-in-out ${
-                    isAttachmentsExpanded ? 'pb-2 pt-1' : 'pb-0 pt-0'
-                  }`}>
-                    {/* Display new format with metadata if available */}
-                    {article.attachmentMetadata && article.attachmentMetadata.length > 0 ? (
-                      article.attachmentMetadata.map((attachment, index) => (
-                        <a
-                          key={index}
-                          href={attachment.url}
-                          target="_blank"
-                          rel="noopener noreferrer"
-                          className="flex items-center space-x-3 p-4 bg-gradient-to-r from-blue-50 to-purple-50 hover:from-blue-100 hover:to-purple-100 rounded-xl border border-blue-100 hover:border-blue-200 transition-all duration-200 group"
-                        >
-                          <div className="flex-shrink-0 w-10 h-10 bg-gradient-to-r from-blue-500 to-purple-600 rounded-lg flex items-center justify-center group-hover:from-blue-600 group-hover:to-purple-700 transition-all">
-                            <Download className="h-5 w-5 text-white" />
-                          </div>
-                          <div className="flex-1 min-w-0">
-                            <span className="text-sm font-medium text-gray-900 group-hover:text-blue-700 transition-colors block truncate">
-                              {attachment.originalName}
-                            </span>
-                            <span className="text-xs text-gray-500">
-                              {attachment.size ? `${(attachment.size / 1024 / 1024).toFixed(2)} MB • ` : ''}Click to download
-                            </span>
-                          </div>
-                        </a>
-                      ))
-                    ) : (
-                      /* Fallback to legacy format for backward compatibility */
-                      article.attachments?.map((attachment, index) => (
-                        <a
-                          key={index}
-                          href={attachment}
-                          target="_blank"
-                          rel="noopener noreferrer"
-                          className="flex items-center space-x-3 p-4 bg-gradient-to-r from-blue-50 to-purple-50 hover:from-blue-100 hover:to-purple-100 rounded-xl border border-blue-100 hover:border-blue-200 transition-all duration-200 group"
-                        >
-                          <div className="flex-shrink-0 w-10 h-10 bg-gradient-to-r from-blue-500 to-purple-600 rounded-lg flex items-center justify-center group-hover:from-blue-600 group-hover:to-purple-700 transition-all">
-                            <Download className="h-5 w-5 text-white" />
-                          </div>
-                          <div className="flex-1 min-w-0">
-                            <span className="text-sm font-medium text-gray-900 group-hover:text-blue-700 transition-colors block truncate">
-                              {extractOriginalFilename(attachment)}
-                            </span>
-                            <span className="text-xs text-gray-500">
-                              Click to download
-                            </span>
-                          </div>
-                        </a>
-                      ))
-                    )}
+                  onClick={handleContentClick}
+                  html={renderedContent}
+                  taskProgress={taskProgress.progress}
+                />
+              </div>
+
+              {/* Series Table of Contents */}
+              {seriesInfo.series && (
+                <div id="series-navigation" className="mt-8 scroll-mt-24">
+                  <SeriesNavigation
+                    series={seriesInfo.series}
+                    articles={seriesInfo.articles}
+                    currentArticleId={article.id}
+                    position={seriesInfo.position}
+                  />
+                </div>
+              )}
+
+              {/* Attachments */}
+              {((article.attachments && article.attachments.length > 0) ||
+                (article.attachmentMetadata && article.attachmentMetadata.length > 0)) && (
+                <div className="mt-8 pt-6 border-t border-gray-200">
+                  {/* Collapsible Header */}
+                  <button
+                    onClick={() => setIsAttachmentsExpanded(!isAttachmentsExpanded)}
+                    className="flex items-center justify-between w-full mb-4 p-2 -m-2 rounded-lg hover:bg-gray-50 focus:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-opacity-50 transition-all duration-200 group"
+                    aria-expanded={isAttachmentsExpanded}
+                    aria-controls="attachments-content"
+                    aria-label={`${isAttachmentsExpanded ? 'Collapse' : 'Expand'} attachments section`}
+                  >
+                    <div className="flex items-center space-x-2">
+                      <Download className="h-5 w-5 text-blue-600" />
+                      <h3 className="text-lg font-semibold text-gray-900 group-hover:text-blue-700 transition-colors">
+                        Attachments ({article.attachmentMetadata?.length || article.attachments?.length || 0})
+                      </h3>
+                    </div>
+                    <ChevronDown
+                      className={`h-5 w-5 text-gray-500 transition-transform duration-300 ease-in-out ${
+                        isAttachmentsExpanded ? 'rotate-180' : 'rotate-0'
+                      }`}
+                    />
+                  </button>
+
+                  {/* Collapsible Content */}
+                  <div
+                    id="attachments-content"
+                    className={`overflow-hidden transition-all duration-300 ease-in-out ${
+                      isAttachmentsExpanded
+                        ? 'max-h-screen opacity-100'
+                        : 'max-h-0 opacity-0'
+                    }`}
+                    style={{
+                      transitionProperty: 'max-height, opacity, margin',
+                      marginTop: isAttachmentsExpanded ? '0' : '0',
+                    }}
+                  >
+                    <div className={`space-y-3 transition-all duration-300 ease-in-out ${
+                      isAttachmentsExpanded ? 'pb-2 pt-1' : 'pb-0 pt-0'
+                    }`}>
+                      {/* Display new format with metadata if available */}
+                      {article.attachmentMetadata && article.attachmentMetadata.length > 0 ? (
+                        article.attachmentMetadata.map((attachment, index) => (
+                          <a
+                            key={index}
+                            href={attachment.url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="flex items-center space-x-3 p-4 bg-gradient-to-r from-blue-50 to-purple-50 hover:from-blue-100 hover:to-purple-100 rounded-xl border border-blue-100 hover:border-blue-200 transition-all duration-200 group"
+                          >
+                            <div className="flex-shrink-0 w-10 h-10 bg-gradient-to-r from-blue-500 to-purple-600 rounded-lg flex items-center justify-center group-hover:from-blue-600 group-hover:to-purple-700 transition-all">
+                              <Download className="h-5 w-5 text-white" />
+                            </div>
+                            <div className="flex-1 min-w-0">
+                              <span className="text-sm font-medium text-gray-900 group-hover:text-blue-700 transition-colors block truncate">
+                                {attachment.originalName}
+                              </span>
+                              <span className="text-xs text-gray-500">
+                                {attachment.size ? `${(attachment.size / 1024 / 1024).toFixed(2)} MB • ` : ''}Click to download
+                              </span>
+                            </div>
+                          </a>
+                        ))
+                      ) : (
+                        /* Fallback to legacy format for backward compatibility */
+                        article.attachments?.map((attachment, index) => (
+                          <a
+                            key={index}
+                            href={attachment}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="flex items-center space-x-3 p-4 bg-gradient-to-r from-blue-50 to-purple-50 hover:from-blue-100 hover:to-purple-100 rounded-xl border border-blue-100 hover:border-blue-200 transition-all duration-200 group"
+                          >
+                            <div className="flex-shrink-0 w-10 h-10 bg-gradient-to-r from-blue-500 to-purple-600 rounded-lg flex items-center justify-center group-hover:from-blue-600 group-hover:to-purple-700 transition-all">
+                              <Download className="h-5 w-5 text-white" />
+                            </div>
+                            <div className="flex-1 min-w-0">
+                              <span className="text-sm font-medium text-gray-900 group-hover:text-blue-700 transition-colors block truncate">
+                                {extractOriginalFilename(attachment)}
+                              </span>
+                              <span className="text-xs text-gray-500">
+                                Click to download
+                              </span>
+                            </div>
+                          </a>
+                        ))
+                      )}
+                    </div>
                   </div>
                 </div>
-              </div>
-            )}
-          </div>
-        </article>
+              )}
+            </div>
+          </article>
+
+          {/* Sticky Table of Contents (wide screens) */}
+          {headings.length > 1 && (
+            <aside className="hidden xl:block w-64 flex-shrink-0 sticky top-24 max-h-[calc(100vh-7rem)] overflow-y-auto">
+              <TableOfContents
+                headings={headings}
+                activeId={activeHeadingId}
+                onSelect={handleHeadingSelect}
+              />
+            </aside>
+          )}
+        </div>
 
         {/* Comment Section */}
         {article && (
@@ -1214,7 +1481,8 @@ export const ArticleView: React.FC = () => {
             </div>
 
             <p className="text-gray-600 mb-4">
-              Are you sure you want to delete "{article?.title}"? This action cannot be undone.
+              Are you sure you want to delete "{article?.title}"? It will be moved to the
+              trash, where it can be restored until it is permanently deleted.
             </p>
 
             {/* Show note input only for admin deleting other's articles */}
@@ -2,8 +2,10 @@ import React, { useState, useEffect } from "react";
 import { useParams, Link } from "react-router-dom";
 import { useAuth, UserProfile } from "../hooks/useAuth";
 import { useUserProfile } from "../contexts/ProfileContext";
-import { getArticles, Article } from "../lib/articles";
+import { getArticleCount } from "../lib/articles";
+import { useInfiniteArticles } from "../hooks/useInfiniteArticles";
 import { ArticleCard } from "../components/ArticleCard";
+import { InfiniteScrollTrigger } from "../components/InfiniteScrollTrigger";
 import {
   User,
   MapPin,
@@ -16,16 +18,26 @@ import {
   ArrowLeft,
 } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
-import { onSnapshot, collection, query, where } from "firebase/firestore";
-import { firestore } from "../lib/firebase";
 
 export const AuthorProfilePage: React.FC = () => {
   const { authorId } = useParams<{ authorId: string }>();
   const { userProfile: currentUser, loading: authLoading } = useAuth();
   const authorProfile = useUserProfile(authorId);
-  const [articles, setArticles] = useState<Article[]>([]);
   const [loading, setLoading] = useState(true);
-  const [articlesLoading, setArticlesLoading] = useState(true);
+  const [articleCount, setArticleCount] = useState<number | null>(null);
+
+  // Published articles by this author (including co-authored), newest first, loaded page by page
+  const {
+    articles,
+    loading: articlesLoading,
+    loadingMore,
+    hasMore,
+    loadMore,
+  } = useInfiniteArticles(
+    { collaboratorId: authorId, status: "published", orderByField: "publishedAt" },
+    12,
+    !!authorId
+  );
 
   // Profile is now loaded via real-time hook
   useEffect(() => {
@@ -34,52 +46,13 @@ export const AuthorProfilePage: React.FC = () => {
     }
   }, [authorProfile]);
 
-  // Real-time articles listener
+  // Total published articles (the list itself is paginated)
   useEffect(() => {
     if (!authorId) return;
 
-    setArticlesLoading(true);
-
-    // Query for published articles by this author (excluding archived)
-    const articlesQuery = query(
-      collection(firestore, "articles"),
-      where("authorId", "==", authorId),
-      where("status", "==", "published")
-    );
-
-    const unsubscribe = onSnapshot(
-      articlesQuery,
-      (snapshot) => {
-        const authorArticles: Article[] = [];
-        snapshot.forEach((doc) => {
-          const data = doc.data();
-          authorArticles.push({
-            id: doc.id,
-            ...data,
-            createdAt: data.createdAt?.toDate() || new Date(),
-            updatedAt: data.updatedAt?.toDate(),
-            publishedAt: data.publishedAt?.toDate(),
-          } as Article);
-        });
-
-        // Sort articles by publishedAt or createdAt (newest first)
-        authorArticles.sort((a, b) => {
-          const dateA = a.publishedAt || a.createdAt || new Date(0);
-          const dateB = b.publishedAt || b.createdAt || new Date(0);
-          return dateB.getTime() - dateA.getTime();
-        });
-
-        setArticles(authorArticles);
-        setArticlesLoading(false);
-      },
-      (error) => {
-        console.error("Error loading author articles:", error);
-        setArticles([]);
-        setArticlesLoading(false);
-      }
-    );
-
-    return () => unsubscribe();
+    getArticleCount({ collaboratorId: authorId, status: "published" })
+      .then(setArticleCount)
+      .catch(() => setArticleCount(null));
   }, [authorId]);
 
   const getSocialIcon = (platform: string) => {
@@ -224,7 +197,7 @@ export const AuthorProfilePage: React.FC = () => {
             <BookOpen className="h-6 w-6 mr-2" />
             Published Articles
             <span className="ml-2 text-lg font-normal text-gray-500">
-              ({articles.length})
+              ({articleCount ?? articles.length})
             </span>
           </h2>
         </div>
@@ -257,6 +230,12 @@ export const AuthorProfilePage: React.FC = () => {
               ))}
             </div>
 
+            <InfiniteScrollTrigger
+              hasMore={hasMore}
+              loading={loadingMore}
+              onLoadMore={loadMore}
+            />
+
             {!currentUser && articles.length > 0 && (
               <div className="mt-6 p-4 bg-blue-50 border border-blue-200 rounded-lg">
                 <p className="text-sm text-blue-700 text-center">
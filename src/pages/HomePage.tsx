@@ -1,9 +1,9 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useCallback } from "react";
 import { Link, useNavigate } from "react-router-dom";
 import { useAuth } from "../hooks/useAuth";
-import { Article } from "../lib/articles";
-import { onSnapshot, collection, query, where } from "firebase/firestore";
-import { firestore } from "../lib/firebase";
+import { useScheduledPublishing } from "../hooks/useScheduledPublishing";
+import { useInfiniteArticles } from "../hooks/useInfiniteArticles";
+import { Article, getArticleCount, getArticlePath } from "../lib/articles";
 import {
   Search,
   BookOpen,
@@ -18,9 +18,14 @@ import {
 import { signOut } from "../lib/auth";
 import { ArticleCard } from "../components/ArticleCard";
 import { ExpandableSearchBar } from "../components/ExpandableSearchBar";
+import { InfiniteScrollTrigger } from "../components/InfiniteScrollTrigger";
+
+// Featured articles are picked from the first page of newest articles
+const FEATURED_POOL_SIZE = 24;
 
 interface HomePageData {
   articles: Article[];
+  totalArticles: number;
   featuredArticles: Article[];
   categories: { name: string; count: number }[];
   tags: string[];
@@ -52,68 +57,78 @@ export const HomePage: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [isDropdownOpen, setIsDropdownOpen] = useState(false);
 
+  const [totalArticles, setTotalArticles] = useState<number | null>(null);
+
+  // Published articles, newest first, loaded page by page
+  const {
+    articles: publishedArticles,
+    loading: articlesLoading,
+    loadingMore,
+    hasMore,
+    loadMore,
+    reload,
+  } = useInfiniteArticles(
+    { status: "published", orderByField: "publishedAt" },
+    FEATURED_POOL_SIZE
+  );
 
+  // Total published articles (the list itself is paginated)
+  const loadTotalArticles = useCallback(() => {
+    getArticleCount({ status: "published" })
+      .then(setTotalArticles)
+      .catch((error) => console.error("Error counting articles:", error));
+  }, []);
 
-  const loadHomePageData = (): (() => void) => {
-    setLoading(true);
-
-    // Set up real-time listener for published articles (excluding archived)
-    const articlesQuery = query(
-      collection(firestore, "articles"),
-      where("status", "==", "published")
-    );
-
-    const unsubscribe = onSnapshot(articlesQuery, (snapshot) => {
-      try {
-        const publishedArticles: Article[] = [];
-
-        snapshot.forEach((doc) => {
-          const data = doc.data();
-          const article = {
-            id: doc.id,
-            ...data,
-            createdAt: data.createdAt?.toDate() || new Date(),
-            updatedAt: data.updatedAt?.toDate(),
-            publishedAt: data.publishedAt?.toDate(),
-          } as Article;
-          publishedArticles.push(article);
-        });
-
-        // Enhanced Featured Articles Selection with Priority System
-        const featuredArticles = selectFeaturedArticles(publishedArticles);
+  useEffect(() => {
+    loadTotalArticles();
+  }, [loadTotalArticles]);
 
-        const categoryMap = new Map<string, number>();
-        const allTags = new Set<string>();
+  // Publish scheduled articles that are due, then refresh the list and the
+  // total. Only signed-in visitors may publish them.
+  useScheduledPublishing(undefined, isAuthenticated, () => {
+    reload();
+    loadTotalArticles();
+  });
 
-        publishedArticles.forEach((article) => {
-          article.categories.forEach((cat) => {
-            categoryMap.set(cat, (categoryMap.get(cat) || 0) + 1);
-          });
-          article.tags.forEach((tag) => allTags.add(tag));
-        });
+  useEffect(() => {
+    if (articlesLoading) return;
 
-        const categories = Array.from(categoryMap.entries())
-          .map(([name, count]) => ({ name, count }))
-          .sort((a, b) => b.count - a.count)
-          .slice(0, 8);
+    try {
+      // Enhanced Featured Articles Selection with Priority System
+      const featuredArticles = selectFeaturedArticles(
+        publishedArticles.slice(0, FEATURED_POOL_SIZE)
+      );
 
-        const tags = Array.from(allTags).slice(0, 20);
+      const categoryMap = new Map<string, number>();
+      const allTags = new Set<string>();
 
-        setHomeData({
-          articles: publishedArticles,
-          featuredArticles,
-          categories,
-          tags,
+      publishedArticles.forEach((article) => {
+        article.categories.forEach((cat) => {
+          categoryMap.set(cat, (categoryMap.get(cat) || 0) + 1);
         });
-        setLoading(false);
-      } catch (error) {
-        console.error("Error loading homepage data:", error);
-        setLoading(false);
-      }
-    });
-
-    return unsubscribe;
-  };
+        article.tags.forEach((tag) => allTags.add(tag));
+      });
+
+      const categories = Array.from(categoryMap.entries())
+        .map(([name, count]) => ({ name, count }))
+        .sort((a, b) => b.count - a.count)
+        .slice(0, 8);
+
+      const tags = Array.from(allTags).slice(0, 20);
+
+      setHomeData({
+        articles: publishedArticles,
+        totalArticles: totalArticles ?? publishedArticles.length,
+        featuredArticles,
+        categories,
+        tags,
+      });
+    } catch (error) {
+      console.error("Error loading homepage data:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [publishedArticles, articlesLoading, totalArticles]);
 
   // Enhanced Featured Articles Selection Function with Priority System
   const selectFeaturedArticles = (articles: Article[]): Article[] => {
@@ -251,15 +266,10 @@ export const HomePage: React.FC = () => {
       .map(({ article }) => article);
   };
 
-  useEffect(() => {
-    const unsubscribe = loadHomePageData();
-    return () => unsubscribe();
-  }, []);
-
-  const handleDocumentClick = (articleId?: string) => {
+  const handleDocumentClick = (article?: Article) => {
     if (isAuthenticated) {
-      if (articleId) {
-        navigate(`/article/${articleId}`);
+      if (article) {
+        navigate(getArticlePath(article));
       }
     } else {
       navigate("/auth?redirect=dashboard");
@@ -527,7 +537,7 @@ export const HomePage: React.FC = () => {
                     ${index % 3 === 2 ? "md:col-start-3" : ""}
                     cursor-pointer transition-transform hover:scale-105
                   `}
-                  onClick={() => handleDocumentClick(article.id)}
+                  onClick={() => handleDocumentClick(article)}
                 >
                   <ArticleCard
                     article={article}
@@ -547,7 +557,7 @@ export const HomePage: React.FC = () => {
           )}
 
           {/* Show More Button if there are more articles */}
-          {homeData.articles.length > homeData.featuredArticles.length && (
+          {homeData.totalArticles > homeData.featuredArticles.length && (
             <div className="text-center mt-12">
               <button
                 onClick={() => {
@@ -568,6 +578,44 @@ export const HomePage: React.FC = () => {
         </div>
       </section>
 
+      {/* Latest Articles Section with Infinite Scroll */}
+      {homeData.articles.length > 0 && (
+        <section id="latest" className="py-16 px-4 sm:px-6 lg:px-8">
+          <div className="max-w-7xl mx-auto">
+            <div className="text-center mb-12">
+              <h2 className="text-3xl font-bold text-gray-900 mb-4">
+                Latest Articles
+              </h2>
+              <p className="text-gray-600 text-lg max-w-2xl mx-auto">
+                The newest additions to the knowledge base
+              </p>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {homeData.articles.map((article) => (
+                <div
+                  key={article.id}
+                  className="cursor-pointer"
+                  onClick={() => handleDocumentClick(article)}
+                >
+                  <ArticleCard
+                    article={article}
+                    variant="default"
+                    showActions={true}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <InfiniteScrollTrigger
+              hasMore={hasMore}
+              loading={loadingMore}
+              onLoadMore={loadMore}
+            />
+          </div>
+        </section>
+      )}
+
       <section className="py-16 px-4 sm:px-6 lg:px-8">
         <div className="max-w-7xl mx-auto">
           <div className="text-center mb-16">
@@ -635,7 +683,7 @@ export const HomePage: React.FC = () => {
           <div className="grid grid-cols-1 md:grid-cols-3 gap-8 text-center">
             <div>
               <div className="text-3xl font-bold text-blue-600 mb-2">
-                {homeData.articles.length}+
+                {homeData.totalArticles}+
               </div>
               <div className="text-gray-600">Documents Available</div>
             </div>
@@ -1,9 +1,17 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useCallback } from "react";
 import { Link, useSearchParams, useNavigate } from "react-router-dom";
 import { useAuth } from "../hooks/useAuth";
-import { updateArticle, Article } from "../lib/articles";
-import { onSnapshot, collection, query, where } from "firebase/firestore";
-import { firestore } from "../lib/firebase";
+import { useScheduledPublishing } from "../hooks/useScheduledPublishing";
+import { useInfiniteArticles } from "../hooks/useInfiniteArticles";
+import { usePlatformSettings } from "../hooks/usePlatformSettings";
+import {
+  updateArticle,
+  scheduleArticle,
+  submitArticleForReview,
+  getArticleCount,
+  Article,
+  ArticleStatus,
+} from "../lib/articles";
 import {
   Plus,
   Edit,
@@ -21,11 +29,39 @@ import {
   Shield,
   AlertCircle,
   ArrowLeft,
+  CalendarClock,
+  ClipboardCheck,
+  MessageSquare,
+  Layers,
+  Trash2,
 } from "lucide-react";
-import { formatDistanceToNow } from "date-fns";
+import { format } from "date-fns";
 import toast from "react-hot-toast";
 import { ArticleCard } from "../components/ArticleCard";
 import { ExpandableSearchBar } from "../components/ExpandableSearchBar";
+import { SchedulePublishModal } from "../components/SchedulePublishModal";
+import { InfiniteScrollTrigger } from "../components/InfiniteScrollTrigger";
+import { SeriesManager } from "../components/SeriesManager";
+
+type StatusFilter =
+  | "all"
+  | "draft"
+  | "published"
+  | "scheduled"
+  | "in_review"
+  | "unpublished"
+  | "archive";
+
+// Statuses counted in the stats cards and listed under "all"; trashed
+// articles are only shown on the Trash page
+const COUNTED_STATUSES: ArticleStatus[] = [
+  "published",
+  "draft",
+  "scheduled",
+  "in_review",
+  "unpublished",
+  "archive",
+];
 
 export const MyArticles: React.FC = () => {
   const {
@@ -36,29 +72,38 @@ export const MyArticles: React.FC = () => {
     canCreateArticles,
     isAuthenticated,
   } = useAuth();
+  const { settings: platformSettings } = usePlatformSettings();
   const [searchParams, setSearchParams] = useSearchParams();
   const navigate = useNavigate();
-  const [articles, setArticles] = useState<Article[]>([]);
   const [filteredArticles, setFilteredArticles] = useState<Article[]>([]);
-  const [articlesLoading, setArticlesLoading] = useState(false);
+  const [statusCounts, setStatusCounts] = useState<Record<string, number>>({});
   const [searchQuery, setSearchQuery] = useState("");
-  const [statusFilter, setStatusFilter] = useState<
-    "all" | "draft" | "published" | "unpublished" | "archive"
-  >("all");
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("all");
 
   const [activeDropdown, setActiveDropdown] = useState<string | null>(null);
   const [updatingStatus, setUpdatingStatus] = useState<string | null>(null);
+  const [schedulingArticle, setSchedulingArticle] = useState<Article | null>(
+    null
+  );
+  const [showSeriesManager, setShowSeriesManager] = useState(false);
 
   // Handle URL parameters for filtering
   useEffect(() => {
     const statusParam = searchParams.get("status");
     if (
       statusParam &&
-      ["draft", "published", "unpublished", "archive"].includes(statusParam)
+      [
+        "draft",
+        "published",
+        "scheduled",
+        "in_review",
+        "unpublished",
+        "archive",
+      ].includes(
+        statusParam
+      )
     ) {
-      setStatusFilter(
-        statusParam as "draft" | "published" | "unpublished" | "archive"
-      );
+      setStatusFilter(statusParam as StatusFilter);
     } else {
       setStatusFilter("all");
     }
@@ -86,49 +131,77 @@ export const MyArticles: React.FC = () => {
   const shouldShowAccessDenied = !hasInstantAccess && userProfile && !authLoading && canCreateArticles === false;
   const shouldShowContent = hasInstantAccess || (userProfile && !authLoading && canCreateArticles === true);
 
-  // Real-time articles loading with Firebase snapshots
-  useEffect(() => {
-    if (!shouldShowContent || !userProfile?.uid) return;
+  // Writers can submit articles for review, and can't publish directly when
+  // review is mandatory
+  const canSubmitForReview = !isAdmin;
+  const requiresReview = platformSettings.requireReview && canSubmitForReview;
 
-    setArticlesLoading(true);
+  // Articles this writer authored or co-authors, newest first, loaded page by page
+  const {
+    articles,
+    setArticles,
+    loading: articlesLoading,
+    loadingMore,
+    hasMore,
+    loadMore,
+    reload,
+  } = useInfiniteArticles(
+    {
+      collaboratorId: userProfile?.uid,
+      status: statusFilter === "all" ? undefined : statusFilter,
+      statuses: COUNTED_STATUSES,
+      orderByField: "createdAt",
+    },
+    12,
+    !!shouldShowContent && !!userProfile?.uid
+  );
 
-    const articlesQuery = query(
-      collection(firestore, "articles"),
-      where("authorId", "==", userProfile.uid)
-    );
+  // Load the per-status totals shown in the stats cards
+  const loadStatusCounts = useCallback(async () => {
+    if (!userProfile?.uid) return;
 
-    const unsubscribe = onSnapshot(
-      articlesQuery,
-      (snapshot) => {
-        const userArticles: Article[] = [];
-        snapshot.forEach((doc) => {
-          const data = doc.data();
-          userArticles.push({
-            id: doc.id,
-            ...data,
-            createdAt: data.createdAt?.toDate() || new Date(),
-            updatedAt: data.updatedAt?.toDate() || new Date(),
-            publishedAt: data.publishedAt?.toDate(),
-          } as Article);
-        });
-
-        // Sort articles by createdAt in memory
-        userArticles.sort(
-          (a, b) => b.createdAt.getTime() - a.createdAt.getTime()
-        );
+    try {
+      const collaboratorId = userProfile.uid;
+      const [total, ...counts] = await Promise.all([
+        getArticleCount({ collaboratorId, statuses: COUNTED_STATUSES }),
+        ...COUNTED_STATUSES.map((status) =>
+          getArticleCount({ collaboratorId, status })
+        ),
+      ]);
+
+      const nextCounts: Record<string, number> = { all: total };
+      COUNTED_STATUSES.forEach((status, index) => {
+        nextCounts[status] = counts[index];
+      });
+      setStatusCounts(nextCounts);
+    } catch (error) {
+      console.error("Error loading article counts:", error);
+    }
+  }, [userProfile?.uid]);
 
-        setArticles(userArticles);
-        setArticlesLoading(false);
-      },
-      (error) => {
-        console.error("Error loading articles:", error);
-        toast.error("Error loading articles");
-        setArticlesLoading(false);
-      }
-    );
+  useEffect(() => {
+    if (!shouldShowContent) return;
+    loadStatusCounts();
+  }, [shouldShowContent, loadStatusCounts]);
+
+  // Publish this writer's scheduled articles once they are due
+  useScheduledPublishing(
+    userProfile?.uid,
+    !!shouldShowContent && !!userProfile?.uid,
+    () => {
+      reload();
+      loadStatusCounts();
+    }
+  );
 
-    return () => unsubscribe();
-  }, [shouldShowContent, userProfile?.uid]);
+  // Search covers all of this writer's articles, not just the loaded pages,
+  // so keep loading pages while a search term is set
+  const searchingRemaining = !!searchQuery.trim() && hasMore;
+  useEffect(() => {
+    if (searchingRemaining && !articlesLoading && !loadingMore) {
+      loadMore();
+    }
+  }, [searchingRemaining, articlesLoading, loadingMore, loadMore]);
 
   // Filter articles whenever articles, search, or status filter changes
   useEffect(() => {
@@ -188,9 +261,7 @@ export const MyArticles: React.FC = () => {
     setFilteredArticles(filtered);
   };
 
-  const handleCardClick = (
-    status: "all" | "published" | "unpublished" | "draft" | "archive"
-  ) => {
+  const handleCardClick = (status: StatusFilter) => {
     if (status === "all") {
       setSearchParams({});
     } else {
@@ -202,7 +273,7 @@ export const MyArticles: React.FC = () => {
 
   const handleStatusChange = async (
     id: string,
-    newStatus: "draft" | "published" | "unpublished" | "archive"
+    newStatus: "draft" | "published" | "unpublished" | "archive" | "in_review"
   ) => {
     console.log(`Changing article ${id} status to ${newStatus}`);
 
@@ -234,7 +305,13 @@ export const MyArticles: React.FC = () => {
         updateData,
       });
 
-      await updateArticle(id, updateData);
+      if (newStatus === "in_review") {
+        if (!(await submitArticleForReview(id))) {
+          toast.error("Submitted for review, but the reviewers could not be notified");
+        }
+      } else {
+        await updateArticle(id, updateData);
+      }
 
       console.log("Article updated successfully, updating local state");
 
@@ -246,6 +323,7 @@ export const MyArticles: React.FC = () => {
                 status: newStatus,
                 publishedAt:
                   newStatus === "published" ? new Date() : article.publishedAt,
+                scheduledFor: undefined,
               }
             : article
         )
@@ -258,8 +336,11 @@ export const MyArticles: React.FC = () => {
           ? "marked as unpublished"
           : newStatus === "archive"
           ? "archived"
+          : newStatus === "in_review"
+          ? "submitted for review"
           : "saved as draft";
       toast.success(`Article ${statusText} successfully`);
+      loadStatusCounts();
     } catch (error) {
       console.error("Error updating article status:", error);
       toast.error(
@@ -273,6 +354,45 @@ export const MyArticles: React.FC = () => {
     }
   };
 
+  const handleSchedule = async (scheduledFor: Date) => {
+    if (!schedulingArticle) return;
+
+    const id = schedulingArticle.id;
+    const isReschedule = schedulingArticle.status === "scheduled";
+
+    setUpdatingStatus(id);
+    try {
+      await scheduleArticle(id, scheduledFor);
+
+      setArticles((prev) =>
+        prev.map((article) =>
+          article.id === id
+            ? { ...article, status: "scheduled", scheduledFor }
+            : article
+        )
+      );
+
+      toast.success(
+        `Article ${isReschedule ? "rescheduled" : "scheduled"} for ${format(
+          scheduledFor,
+          "dd/MM/yyyy HH:mm"
+        )}`
+      );
+      setSchedulingArticle(null);
+      loadStatusCounts();
+    } catch (error) {
+      console.error("Error scheduling article:", error);
+      toast.error(
+        `Error scheduling article: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    } finally {
+      setUpdatingStatus(null);
+      setActiveDropdown(null);
+    }
+  };
+
   const toggleDropdown = (articleId: string) => {
     setActiveDropdown(activeDropdown === articleId ? null : articleId);
   };
@@ -283,6 +403,10 @@ export const MyArticles: React.FC = () => {
         return "bg-green-100 text-green-800";
       case "draft":
         return "bg-yellow-100 text-yellow-800";
+      case "scheduled":
+        return "bg-blue-100 text-blue-800";
+      case "in_review":
+        return "bg-indigo-100 text-indigo-800";
       case "unpublished":
         return "bg-red-100 text-red-800";
       case "archive":
@@ -394,13 +518,29 @@ export const MyArticles: React.FC = () => {
             Create, edit, and manage your documentation
           </p>
         </div>
-        <Link
-          to="/article/new"
-          className="flex items-center space-x-2 bg-gradient-to-r from-blue-600 to-purple-600 text-white px-6 py-3 rounded-xl font-medium hover:from-blue-700 hover:to-purple-700 transition-all shadow-lg hover:shadow-xl"
-        >
-          <Plus className="h-4 w-4" />
-          <span>New Article</span>
-        </Link>
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={() => setShowSeriesManager(true)}
+            className="flex items-center space-x-2 bg-white text-gray-700 border border-gray-200 px-6 py-3 rounded-xl font-medium hover:bg-gray-50 transition-all shadow-sm"
+          >
+            <Layers className="h-4 w-4" />
+            <span>Manage Series</span>
+          </button>
+          <Link
+            to="/trash"
+            className="flex items-center space-x-2 bg-white text-gray-700 border border-gray-200 px-6 py-3 rounded-xl font-medium hover:bg-gray-50 transition-all shadow-sm"
+          >
+            <Trash2 className="h-4 w-4" />
+            <span>Trash</span>
+          </Link>
+          <Link
+            to="/article/new"
+            className="flex items-center space-x-2 bg-gradient-to-r from-blue-600 to-purple-600 text-white px-6 py-3 rounded-xl font-medium hover:from-blue-700 hover:to-purple-700 transition-all shadow-lg hover:shadow-xl"
+          >
+            <Plus className="h-4 w-4" />
+            <span>New Article</span>
+          </Link>
+        </div>
       </div>
 
       {/* Filters */}
@@ -427,6 +567,8 @@ export const MyArticles: React.FC = () => {
               <option value="all">All Status</option>
               <option value="draft">Draft</option>
               <option value="published">Published</option>
+              <option value="scheduled">Scheduled</option>
+              <option value="in_review">In Review</option>
               <option value="unpublished">Unpublished</option>
               <option value="archive">Archive</option>
             </select>
@@ -435,7 +577,7 @@ export const MyArticles: React.FC = () => {
       </div>
 
       {/* Stats */}
-      <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-4 lg:grid-cols-7 gap-4">
         <button
           onClick={() => handleCardClick("all")}
           className={`bg-white/80 backdrop-blur-sm rounded-xl p-4 border transition-all duration-200 text-left hover:shadow-md hover:scale-105 ${
@@ -445,7 +587,7 @@ export const MyArticles: React.FC = () => {
           }`}
         >
           <div className="text-2xl font-bold text-gray-900">
-            {articles.length}
+            {statusCounts.all ?? 0}
           </div>
           <div className="text-sm text-gray-600">Total Articles</div>
         </button>
@@ -458,7 +600,7 @@ export const MyArticles: React.FC = () => {
           }`}
         >
           <div className="text-2xl font-bold text-green-700">
-            {articles.filter((a) => a.status === "published").length}
+            {statusCounts.published ?? 0}
           </div>
           <div className="text-sm text-green-600">Published</div>
         </button>
@@ -471,10 +613,36 @@ export const MyArticles: React.FC = () => {
           }`}
         >
           <div className="text-2xl font-bold text-yellow-700">
-            {articles.filter((a) => a.status === "draft").length}
+            {statusCounts.draft ?? 0}
           </div>
           <div className="text-sm text-yellow-600">Drafts</div>
         </button>
+        <button
+          onClick={() => handleCardClick("scheduled")}
+          className={`bg-white/80 backdrop-blur-sm rounded-xl p-4 border transition-all duration-200 text-left hover:shadow-md hover:scale-105 ${
+            statusFilter === "scheduled"
+              ? "border-blue-300 bg-blue-50"
+              : "border-blue-200"
+          }`}
+        >
+          <div className="text-2xl font-bold text-blue-700">
+            {statusCounts.scheduled ?? 0}
+          </div>
+          <div className="text-sm text-blue-600">Scheduled</div>
+        </button>
+        <button
+          onClick={() => handleCardClick("in_review")}
+          className={`bg-white/80 backdrop-blur-sm rounded-xl p-4 border transition-all duration-200 text-left hover:shadow-md hover:scale-105 ${
+            statusFilter === "in_review"
+              ? "border-indigo-300 bg-indigo-50"
+              : "border-indigo-200"
+          }`}
+        >
+          <div className="text-2xl font-bold text-indigo-700">
+            {statusCounts.in_review ?? 0}
+          </div>
+          <div className="text-sm text-indigo-600">In Review</div>
+        </button>
         <button
           onClick={() => handleCardClick("unpublished")}
           className={`bg-white/80 backdrop-blur-sm rounded-xl p-4 border transition-all duration-200 text-left hover:shadow-md hover:scale-105 ${
@@ -484,7 +652,7 @@ export const MyArticles: React.FC = () => {
           }`}
         >
           <div className="text-2xl font-bold text-red-700">
-            {articles.filter((a) => a.status === "unpublished").length}
+            {statusCounts.unpublished ?? 0}
           </div>
           <div className="text-sm text-red-600">Unpublished</div>
         </button>
@@ -497,14 +665,15 @@ export const MyArticles: React.FC = () => {
           }`}
         >
           <div className="text-2xl font-bold text-purple-700">
-            {articles.filter((a) => a.status === "archive").length}
+            {statusCounts.archive ?? 0}
           </div>
           <div className="text-sm text-purple-600">Archive</div>
         </button>
       </div>
 
       {/* Articles Loading State */}
-      {articlesLoading ? (
+      {articlesLoading ||
+      (searchingRemaining && filteredArticles.length === 0) ? (
         <div className="bg-white/80 backdrop-blur-sm rounded-2xl p-12 border border-gray-200">
           <div className="text-center">
             <Loader2 className="h-12 w-12 text-blue-600 animate-spin mx-auto mb-4" />
@@ -520,16 +689,16 @@ export const MyArticles: React.FC = () => {
         <div className="text-center py-12 bg-white/80 backdrop-blur-sm rounded-2xl border border-gray-200">
           <div className="text-6xl mb-4">📝</div>
           <h3 className="text-lg font-medium text-gray-900 mb-2">
-            {articles.length === 0
+            {statusCounts.all === 0
               ? "No articles yet"
               : "No articles match your filters"}
           </h3>
           <p className="text-gray-600 mb-6">
-            {articles.length === 0
+            {statusCounts.all === 0
               ? "Start creating your first article to share knowledge with your team."
               : "Try adjusting your search or filter criteria."}
           </p>
-          {articles.length === 0 && (
+          {statusCounts.all === 0 && (
             <Link
               to="/article/new"
               className="inline-flex items-center space-x-2 bg-gradient-to-r from-blue-600 to-purple-600 text-white px-6 py-3 rounded-xl font-medium hover:from-blue-700 hover:to-purple-700 transition-all"
@@ -551,9 +720,52 @@ export const MyArticles: React.FC = () => {
                 showEditButton={true}
               />
 
+              {/* Upcoming publication */}
+              {article.status === "scheduled" && article.scheduledFor && (
+                <button
+                  onClick={() => setSchedulingArticle(article)}
+                  className="mt-2 w-full flex items-center justify-center space-x-2 px-3 py-2 text-sm text-blue-700 bg-blue-50 border border-blue-200 rounded-lg hover:bg-blue-100 transition-colors"
+                  title="Reschedule"
+                >
+                  <CalendarClock className="h-4 w-4" />
+                  <span>
+                    Goes live {format(article.scheduledFor, "dd/MM/yyyy HH:mm")}
+                  </span>
+                </button>
+              )}
+
+              {/* Requested changes from an editorial review */}
+              {article.status === "draft" && article.reviewNote && (
+                <Link
+                  to={`/article/edit/${article.id}`}
+                  className="mt-2 w-full flex items-start space-x-2 px-3 py-2 text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-lg hover:bg-yellow-100 transition-colors"
+                  title="Address requested changes"
+                >
+                  <MessageSquare className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                  <span className="line-clamp-2">
+                    Changes requested: {article.reviewNote}
+                  </span>
+                </Link>
+              )}
+
               {/* Status Quick Actions */}
               <div className="absolute top-4 right-4 flex items-center space-x-2">
-                {article.status === "draft" && (
+                {article.status === "draft" && canSubmitForReview && (
+                  <button
+                    onClick={() => handleStatusChange(article.id, "in_review")}
+                    disabled={updatingStatus === article.id}
+                    className="p-2 text-gray-600 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors disabled:opacity-50 bg-white/90 backdrop-blur-sm shadow-sm"
+                    title="Submit for Review"
+                  >
+                    {updatingStatus === article.id ? (
+                      <Clock className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <ClipboardCheck className="h-4 w-4" />
+                    )}
+                  </button>
+                )}
+
+                {article.status === "draft" && !requiresReview && (
                   <button
                     onClick={() => handleStatusChange(article.id, "published")}
                     disabled={updatingStatus === article.id}
@@ -585,7 +797,23 @@ export const MyArticles: React.FC = () => {
                       className="absolute right-0 mt-2 w-48 bg-white rounded-lg shadow-lg border border-gray-200 z-10"
                     >
                       <div className="py-1">
-                        {article.status !== "published" && (
+                        {canSubmitForReview &&
+                          article.status !== "published" &&
+                          article.status !== "in_review" && (
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleStatusChange(article.id, "in_review");
+                            }}
+                            disabled={updatingStatus === article.id}
+                            className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-indigo-50 hover:text-indigo-700 flex items-center space-x-2 disabled:opacity-50"
+                          >
+                            <ClipboardCheck className="h-4 w-4" />
+                            <span>Submit for Review</span>
+                          </button>
+                        )}
+
+                        {!requiresReview && article.status !== "published" && (
                           <button
                             onClick={(e) => {
                               e.stopPropagation();
@@ -599,6 +827,25 @@ export const MyArticles: React.FC = () => {
                           </button>
                         )}
 
+                        {!requiresReview && article.status !== "published" && (
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setSchedulingArticle(article);
+                              setActiveDropdown(null);
+                            }}
+                            disabled={updatingStatus === article.id}
+                            className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-blue-50 hover:text-blue-700 flex items-center space-x-2 disabled:opacity-50"
+                          >
+                            <CalendarClock className="h-4 w-4" />
+                            <span>
+                              {article.status === "scheduled"
+                                ? "Reschedule"
+                                : "Schedule"}
+                            </span>
+                          </button>
+                        )}
+
                         {article.status !== "draft" && (
                           <button
                             onClick={(e) => {
@@ -654,7 +901,33 @@ export const MyArticles: React.FC = () => {
         </div>
       )}
 
+      {!articlesLoading && (
+        <InfiniteScrollTrigger
+          hasMore={hasMore}
+          loading={loadingMore}
+          onLoadMore={loadMore}
+        />
+      )}
 
+      {/* Series Manager Modal */}
+      {showSeriesManager && userProfile && (
+        <SeriesManager
+          authorId={userProfile.uid}
+          authorName={userProfile.displayName || userProfile.email}
+          onClose={() => setShowSeriesManager(false)}
+          onChange={reload}
+        />
+      )}
+
+      {/* Schedule / Reschedule Modal */}
+      {schedulingArticle && (
+        <SchedulePublishModal
+          initialDate={schedulingArticle.scheduledFor}
+          saving={updatingStatus === schedulingArticle.id}
+          onConfirm={handleSchedule}
+          onClose={() => setSchedulingArticle(null)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,381 @@
+import React, { useState, useEffect } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { useAuth } from "../hooks/useAuth";
+import { usePlatformSettings } from "../hooks/usePlatformSettings";
+import {
+  getArticles,
+  approveArticle,
+  requestArticleChanges,
+  getArticlePath,
+  Article,
+} from "../lib/articles";
+import {
+  ArrowLeft,
+  CheckCircle,
+  ClipboardCheck,
+  Calendar,
+  Eye,
+  Folder,
+  Loader2,
+  MessageSquare,
+  ShieldCheck,
+  User,
+  X,
+} from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import toast from "react-hot-toast";
+
+export const ReviewQueuePage: React.FC = () => {
+  const { userProfile, isAdmin } = useAuth();
+  const navigate = useNavigate();
+  const {
+    settings,
+    loading: settingsLoading,
+    updateSettings,
+  } = usePlatformSettings();
+
+  const [articles, setArticles] = useState<Article[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+  const [savingSettings, setSavingSettings] = useState(false);
+
+  // Request changes modal state
+  const [changesArticle, setChangesArticle] = useState<Article | null>(null);
+  const [reviewNote, setReviewNote] = useState("");
+
+  // Load the review queue, oldest submission first
+  useEffect(() => {
+    if (!userProfile || !isAdmin) return;
+
+    const loadQueue = async () => {
+      try {
+        const queue = await getArticles({ status: "in_review" });
+        queue.sort(
+          (a, b) =>
+            (a.submittedForReviewAt || a.updatedAt).getTime() -
+            (b.submittedForReviewAt || b.updatedAt).getTime()
+        );
+        setArticles(queue);
+      } catch (error) {
+        console.error("Error loading review queue:", error);
+        toast.error("Failed to load review queue");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadQueue();
+  }, [userProfile, isAdmin]);
+
+  const reviewerName = () =>
+    userProfile?.displayName || userProfile?.email || "Admin";
+
+  const handleApprove = async (article: Article) => {
+    if (!userProfile) return;
+
+    setProcessingId(article.id);
+    try {
+      if (!(await approveArticle(article.id, userProfile.uid, reviewerName()))) {
+        toast.error("Article approved, but the author could not be notified");
+      }
+      setArticles((prev) => prev.filter((a) => a.id !== article.id));
+      toast.success(`"${article.title}" approved and published`);
+    } catch (error) {
+      console.error("Error approving article:", error);
+      toast.error("Failed to approve article");
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const handleRequestChanges = async () => {
+    if (!userProfile || !changesArticle) return;
+
+    if (!reviewNote.trim()) {
+      toast.error("Please describe the changes you are requesting");
+      return;
+    }
+
+    const article = changesArticle;
+    setProcessingId(article.id);
+    try {
+      const notified = await requestArticleChanges(
+        article.id,
+        userProfile.uid,
+        reviewerName(),
+        reviewNote
+      );
+      if (!notified) {
+        toast.error("Changes requested, but the author could not be notified");
+      }
+      setArticles((prev) => prev.filter((a) => a.id !== article.id));
+      setChangesArticle(null);
+      setReviewNote("");
+      toast.success(`Changes requested for "${article.title}"`);
+    } catch (error) {
+      console.error("Error requesting changes:", error);
+      toast.error("Failed to request changes");
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const handleToggleRequireReview = async () => {
+    if (!userProfile) return;
+
+    setSavingSettings(true);
+    try {
+      const requireReview = !settings.requireReview;
+      await updateSettings({ requireReview }, userProfile.uid);
+      toast.success(
+        requireReview
+          ? "Review is now required before publishing"
+          : "Writers can now publish without review"
+      );
+    } catch (error) {
+      console.error("Error updating review setting:", error);
+      toast.error("Failed to update review setting");
+    } finally {
+      setSavingSettings(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div
+        className="min-h-screen py-8 px-4 sm:px-6 lg:px-8"
+        style={{ backgroundColor: "#EFEDFA" }}
+      >
+        <div className="max-w-7xl mx-auto">
+          <div className="flex items-center justify-center min-h-[400px]">
+            <div className="text-center">
+              <Loader2 className="h-8 w-8 animate-spin text-blue-600 mx-auto mb-4" />
+              <p className="text-gray-600">Loading review queue...</p>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className="min-h-screen py-8 px-4 sm:px-6 lg:px-8"
+      style={{ backgroundColor: "#EFEDFA" }}
+    >
+      <div className="max-w-7xl mx-auto">
+        {/* Header */}
+        <div className="mb-8">
+          <button
+            onClick={() => navigate("/dashboard")}
+            className="flex items-center space-x-2 text-gray-600 hover:text-gray-900 transition-colors mb-4"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            <span>Back to Dashboard</span>
+          </button>
+
+          <h1 className="text-3xl font-bold text-gray-900">Review Queue</h1>
+          <p className="text-gray-600 mt-2">
+            Articles submitted by writers for editorial review. Approving an
+            article publishes it.
+          </p>
+        </div>
+
+        <div className="space-y-6">
+          {/* Review Setting */}
+          <div className="bg-white/90 backdrop-blur-sm rounded-2xl p-6 border border-gray-200 flex items-center justify-between">
+            <div className="flex items-start space-x-3">
+              <div className="bg-indigo-100 p-2 rounded-lg">
+                <ShieldCheck className="h-5 w-5 text-indigo-600" />
+              </div>
+              <div>
+                <h3 className="font-semibold text-gray-900">
+                  Require review before publishing
+                </h3>
+                <p className="text-sm text-gray-600">
+                  When enabled, InfoWriters submit articles for review instead
+                  of publishing them directly.
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={handleToggleRequireReview}
+              disabled={settingsLoading || savingSettings}
+              role="switch"
+              aria-checked={settings.requireReview}
+              className={`relative inline-flex h-6 w-11 flex-shrink-0 items-center rounded-full transition-colors disabled:opacity-50 ${
+                settings.requireReview ? "bg-indigo-600" : "bg-gray-300"
+              }`}
+              title={
+                settings.requireReview
+                  ? "Disable mandatory review"
+                  : "Enable mandatory review"
+              }
+            >
+              <span
+                className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                  settings.requireReview ? "translate-x-6" : "translate-x-1"
+                }`}
+              />
+            </button>
+          </div>
+
+          {/* Queue */}
+          {articles.length === 0 ? (
+            <div className="bg-white/90 backdrop-blur-sm rounded-2xl p-8 border border-gray-200 text-center">
+              <ClipboardCheck className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+              <h3 className="text-lg font-medium text-gray-900 mb-2">
+                Nothing to review
+              </h3>
+              <p className="text-gray-600">
+                All submitted articles have been reviewed.
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {articles.map((article) => (
+                <div
+                  key={article.id}
+                  className="bg-white/90 backdrop-blur-sm rounded-2xl p-6 border border-gray-200"
+                >
+                  <div className="flex items-start justify-between">
+                    <div className="flex-1 min-w-0">
+                      <h3 className="text-lg font-semibold text-gray-900 mb-2">
+                        {article.title}
+                      </h3>
+
+                      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-gray-600 mb-3">
+                        <Link
+                          to={`/author/${article.authorId}`}
+                          className="flex items-center space-x-1 hover:text-blue-600 transition-colors"
+                        >
+                          <User className="h-4 w-4" />
+                          <span>{article.authorName}</span>
+                        </Link>
+                        <div className="flex items-center space-x-1">
+                          <Calendar className="h-4 w-4" />
+                          <span>
+                            Submitted{" "}
+                            {formatDistanceToNow(
+                              article.submittedForReviewAt || article.updatedAt
+                            )}{" "}
+                            ago
+                          </span>
+                        </div>
+                        {article.categories.length > 0 && (
+                          <div className="flex items-center space-x-1">
+                            <Folder className="h-4 w-4" />
+                            <span>{article.categories.join(", ")}</span>
+                          </div>
+                        )}
+                      </div>
+
+                      <p className="text-sm text-gray-700 line-clamp-2">
+                        {article.excerpt}
+                      </p>
+                    </div>
+
+                    {/* Actions */}
+                    <div className="flex items-center space-x-2 ml-4">
+                      <Link
+                        to={getArticlePath(article)}
+                        className="flex items-center space-x-1 px-3 py-2 text-blue-600 hover:text-blue-800 hover:bg-blue-50 rounded-lg transition-colors"
+                      >
+                        <Eye className="h-4 w-4" />
+                        <span className="text-sm">Preview</span>
+                      </Link>
+                      <button
+                        onClick={() => handleApprove(article)}
+                        disabled={processingId === article.id}
+                        className="flex items-center space-x-1 px-3 py-2 bg-green-600 text-white hover:bg-green-700 rounded-lg transition-colors disabled:opacity-50"
+                      >
+                        {processingId === article.id ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          <CheckCircle className="h-4 w-4" />
+                        )}
+                        <span className="text-sm">Approve</span>
+                      </button>
+                      <button
+                        onClick={() => {
+                          setChangesArticle(article);
+                          setReviewNote("");
+                        }}
+                        disabled={processingId === article.id}
+                        className="flex items-center space-x-1 px-3 py-2 bg-yellow-500 text-white hover:bg-yellow-600 rounded-lg transition-colors disabled:opacity-50"
+                      >
+                        <MessageSquare className="h-4 w-4" />
+                        <span className="text-sm">Request Changes</span>
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Request Changes Modal */}
+        {changesArticle && (
+          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+            <div className="bg-white rounded-2xl max-w-lg w-full">
+              <div className="p-6">
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-xl font-bold text-gray-900">
+                    Request Changes
+                  </h3>
+                  <button
+                    onClick={() => setChangesArticle(null)}
+                    className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                  >
+                    <X className="h-5 w-5" />
+                  </button>
+                </div>
+
+                <p className="text-sm text-gray-600 mb-4">
+                  "{changesArticle.title}" will be returned to{" "}
+                  {changesArticle.authorName} as a draft with your note.
+                </p>
+
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Requested changes
+                </label>
+                <textarea
+                  value={reviewNote}
+                  onChange={(e) => setReviewNote(e.target.value)}
+                  rows={5}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  placeholder="Describe what the writer should change..."
+                  autoFocus
+                />
+
+                <div className="flex items-center justify-end space-x-3 mt-6">
+                  <button
+                    onClick={() => setChangesArticle(null)}
+                    className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={handleRequestChanges}
+                    disabled={
+                      processingId === changesArticle.id || !reviewNote.trim()
+                    }
+                    className="flex items-center space-x-2 px-4 py-2 bg-yellow-500 text-white hover:bg-yellow-600 rounded-lg transition-colors disabled:opacity-50"
+                  >
+                    {processingId === changesArticle.id ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <MessageSquare className="h-4 w-4" />
+                    )}
+                    <span>Send to Writer</span>
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
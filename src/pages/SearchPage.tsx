@@ -1,16 +1,19 @@
 import React, { useState, useEffect } from "react";
 import { Link, useNavigate } from "react-router-dom";
-import { Article } from "../lib/articles";
+import {
+  getArticleCount,
+  getPublishedCategoriesAndTags,
+} from "../lib/articles";
 import { ExpandableSearchBar } from "../components/ExpandableSearchBar";
 import { useAuth } from "../hooks/useAuth";
+import { useInfiniteArticles } from "../hooks/useInfiniteArticles";
 import { BookOpen, Loader2, ArrowLeft, FileText, Plus } from "lucide-react";
 import toast from "react-hot-toast";
 import { ArticleCard } from "../components/ArticleCard";
-import { onSnapshot, collection, query, where } from "firebase/firestore";
-import { firestore } from "../lib/firebase";
+import { InfiniteScrollTrigger } from "../components/InfiniteScrollTrigger";
 
 interface SearchPageData {
-  articles: Article[];
+  totalArticles: number;
   categories: string[];
   tags: string[];
 }
@@ -19,87 +22,57 @@ export const SearchPage: React.FC = () => {
   const { isUser, isInfoWriter, isAdmin, loading: authLoading } = useAuth();
   const navigate = useNavigate();
   const [searchData, setSearchData] = useState<SearchPageData | null>(null);
-  const [filteredArticles, setFilteredArticles] = useState<Article[]>([]);
-  const [loading, setLoading] = useState(true);
   const [selectedCategory, setSelectedCategory] = useState<string>("");
   const [selectedTag, setSelectedTag] = useState<string>("");
 
-  const loadSearchData = (): (() => void) => {
-    setLoading(true);
-
-    // Set up real-time listener for published articles (excluding archived)
-    const articlesQuery = query(
-      collection(firestore, "articles"),
-      where("status", "==", "published")
-    );
-
-    const unsubscribe = onSnapshot(articlesQuery, (snapshot) => {
-      try {
-        const publishedArticles: Article[] = [];
-
-        snapshot.forEach((doc) => {
-          const data = doc.data();
-          const article = {
-            id: doc.id,
-            ...data,
-            createdAt: data.createdAt?.toDate() || new Date(),
-            updatedAt: data.updatedAt?.toDate(),
-            publishedAt: data.publishedAt?.toDate(),
-          } as Article;
-          publishedArticles.push(article);
-        });
-
-        // Extract unique categories and tags
-        const allCategories = new Set<string>();
-        const allTags = new Set<string>();
-
-        publishedArticles.forEach((article) => {
-          article.categories.forEach((cat) => allCategories.add(cat));
-          article.tags.forEach((tag) => allTags.add(tag));
-        });
-
-        setSearchData({
-          articles: publishedArticles,
-          categories: Array.from(allCategories).sort(),
-          tags: Array.from(allTags).sort(),
-        });
-        setLoading(false);
-      } catch (error) {
-        console.error("Error loading articles:", error);
-        toast.error("Error loading articles");
-        setLoading(false);
-      }
-    });
-
-    return unsubscribe;
-  };
+  // Published articles, newest first. The category or tag filter runs in the
+  // query; Firestore can only filter on one of them at a time.
+  const {
+    articles,
+    loading,
+    loadingMore,
+    hasMore,
+    loadMore,
+  } = useInfiniteArticles(
+    {
+      status: "published",
+      orderByField: "publishedAt",
+      categories: selectedCategory ? [selectedCategory] : undefined,
+      tag: selectedTag || undefined,
+    },
+    12,
+    !authLoading
+  );
 
+  // Total published articles and the category and tag filters. The list
+  // itself is paginated, so these come from their own queries.
   useEffect(() => {
     if (authLoading) return; // Wait for auth to complete
 
-    const unsubscribe = loadSearchData();
-    return () => unsubscribe();
+    Promise.all([
+      getArticleCount({ status: "published" }),
+      getPublishedCategoriesAndTags(),
+    ])
+      .then(([totalArticles, { categories, tags }]) =>
+        setSearchData({ totalArticles, categories, tags })
+      )
+      .catch((error) => {
+        console.error("Error loading search data:", error);
+        toast.error("Error loading articles");
+        // Still show the article list, just without filters
+        setSearchData({ totalArticles: 0, categories: [], tags: [] });
+      });
   }, [authLoading]);
 
-  useEffect(() => {
-    if (!searchData) return;
-
-    let filtered = searchData.articles;
-
-    if (selectedCategory) {
-      filtered = filtered.filter((article) =>
-        article.categories.includes(selectedCategory)
-      );
-    }
-
-    if (selectedTag) {
-      filtered = filtered.filter((article) =>
-        article.tags.includes(selectedTag)
-      );
-    }
+  const selectCategory = (category: string) => {
+    setSelectedCategory(selectedCategory === category ? "" : category);
+    setSelectedTag("");
+  };
 
-    setFilteredArticles(filtered);
-  }, [searchData, selectedCategory, selectedTag]);
+  const selectTag = (tag: string) => {
+    setSelectedTag(selectedTag === tag ? "" : tag);
+    setSelectedCategory("");
+  };
 
   const clearFilters = () => {
     setSelectedCategory("");
@@ -107,7 +80,7 @@ export const SearchPage: React.FC = () => {
   };
 
   // Show loading state while auth or data is loading
-  if (loading || authLoading) {
+  if ((loading && !searchData) || authLoading) {
     return (
       <div className="flex items-center justify-center min-h-screen">
         <div className="text-center">
@@ -180,7 +153,7 @@ export const SearchPage: React.FC = () => {
                   Total Articles
                 </p>
                 <p className="text-2xl font-bold text-gray-900">
-                  {searchData.articles.length}
+                  {searchData.totalArticles}
                 </p>
               </div>
               <div className="bg-blue-100 p-3 rounded-xl">
@@ -234,11 +207,7 @@ export const SearchPage: React.FC = () => {
               {searchData.categories.slice(0, 10).map((category) => (
                 <button
                   key={category}
-                  onClick={() =>
-                    setSelectedCategory(
-                      selectedCategory === category ? "" : category
-                    )
-                  }
+                  onClick={() => selectCategory(category)}
                   className={`px-3 py-1 rounded-full text-sm font-medium transition-colors ${
                     selectedCategory === category
                       ? "bg-blue-600 text-white"
@@ -261,7 +230,7 @@ export const SearchPage: React.FC = () => {
               {searchData.tags.slice(0, 10).map((tag) => (
                 <button
                   key={tag}
-                  onClick={() => setSelectedTag(selectedTag === tag ? "" : tag)}
+                  onClick={() => selectTag(tag)}
                   className={`px-3 py-1 rounded-full text-sm font-medium transition-colors ${
                     selectedTag === tag
                       ? "bg-gray-700 text-white"
@@ -275,6 +244,10 @@ export const SearchPage: React.FC = () => {
           </div>
         </div>
 
+        <p className="mt-4 text-xs text-gray-500">
+          Pick either a category or a tag.
+        </p>
+
         {(selectedCategory || selectedTag) && (
           <div className="mt-4 pt-4 border-t border-gray-200">
             <div className="flex items-center justify-between">
@@ -303,16 +276,20 @@ export const SearchPage: React.FC = () => {
       </div>
 
       {/* Articles Grid */}
-      {filteredArticles.length === 0 ? (
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 text-blue-600 animate-spin" />
+        </div>
+      ) : articles.length === 0 && !hasMore ? (
         <div className="text-center py-12 bg-white/80 backdrop-blur-sm rounded-2xl border border-gray-200">
           <BookOpen className="h-12 w-12 text-gray-300 mx-auto mb-4" />
           <h3 className="text-lg font-medium text-gray-900 mb-2">
-            {searchData.articles.length === 0
+            {searchData.totalArticles === 0
               ? "No articles published yet"
               : "No articles match your filters"}
           </h3>
           <p className="text-gray-600">
-            {searchData.articles.length === 0
+            {searchData.totalArticles === 0
               ? "Check back later for new content."
               : "Try adjusting your filter criteria."}
           </p>
@@ -327,7 +304,7 @@ export const SearchPage: React.FC = () => {
         </div>
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {filteredArticles.map((article) => (
+          {articles.map((article) => (
             <ArticleCard
               key={article.id}
               article={article}
@@ -337,6 +314,14 @@ export const SearchPage: React.FC = () => {
           ))}
         </div>
       )}
+
+      {!loading && (
+        <InfiniteScrollTrigger
+          hasMore={hasMore}
+          loading={loadingMore}
+          onLoadMore={loadMore}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,403 @@
+import React, { useState, useEffect, useCallback } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { useAuth } from "../hooks/useAuth";
+import { usePlatformSettings } from "../hooks/usePlatformSettings";
+import {
+  getTrashedArticles,
+  getTrashPurgeDate,
+  restoreArticle,
+  hardDeleteArticle,
+  Article,
+} from "../lib/articles";
+import {
+  AlertTriangle,
+  ArrowLeft,
+  Calendar,
+  Clock,
+  Loader2,
+  RotateCcw,
+  Save,
+  Trash2,
+  User,
+  X,
+} from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import toast from "react-hot-toast";
+
+const STATUS_LABELS: Record<string, string> = {
+  draft: "draft",
+  published: "published",
+  scheduled: "scheduled",
+  in_review: "in review",
+  unpublished: "unpublished",
+  archive: "archived",
+};
+
+export const TrashPage: React.FC = () => {
+  const { userProfile, isAdmin } = useAuth();
+  const navigate = useNavigate();
+  const {
+    settings,
+    loading: settingsLoading,
+    updateSettings,
+  } = usePlatformSettings();
+
+  const [articles, setArticles] = useState<Article[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+  const [retentionDays, setRetentionDays] = useState("");
+  const [savingSettings, setSavingSettings] = useState(false);
+
+  // Permanent delete confirmation state
+  const [purgingArticle, setPurgingArticle] = useState<Article | null>(null);
+
+  // Admins see every trashed article, writers only their own
+  const authorId = isAdmin ? undefined : userProfile?.uid;
+
+  const loadTrash = useCallback(async () => {
+    if (!userProfile) return;
+
+    try {
+      setArticles(await getTrashedArticles(authorId));
+    } catch (error) {
+      console.error("Error loading trash:", error);
+      toast.error("Failed to load trash");
+    } finally {
+      setLoading(false);
+    }
+  }, [userProfile, authorId]);
+
+  useEffect(() => {
+    loadTrash();
+  }, [loadTrash]);
+
+  useEffect(() => {
+    if (!settingsLoading) {
+      setRetentionDays(String(settings.trashRetentionDays));
+    }
+  }, [settingsLoading, settings.trashRetentionDays]);
+
+  // Writers can't restore articles an admin removed
+  const canRestore = (article: Article) =>
+    isAdmin || article.deletedByUserId === userProfile?.uid;
+
+  // Articles removed before the trash existed have no purge date and are
+  // kept until someone deletes them
+  const purgeDate = (article: Article) =>
+    getTrashPurgeDate(article, settings.trashRetentionDays);
+
+  const deletedByLabel = (article: Article) => {
+    if (article.deletedByUserId && article.deletedByUserId === userProfile?.uid) {
+      return "you";
+    }
+    if (article.deletedBy === "admin") {
+      return article.deletedByName
+        ? `${article.deletedByName} (Admin)`
+        : "an administrator";
+    }
+    return article.deletedByName || article.authorName;
+  };
+
+  const handleRestore = async (article: Article) => {
+    setProcessingId(article.id);
+    try {
+      await restoreArticle(article.id);
+      setArticles((prev) => prev.filter((a) => a.id !== article.id));
+      toast.success(`"${article.title}" restored`);
+    } catch (error) {
+      console.error("Error restoring article:", error);
+      toast.error("Failed to restore article");
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const handlePermanentDelete = async () => {
+    if (!purgingArticle) return;
+
+    const article = purgingArticle;
+    setProcessingId(article.id);
+    try {
+      await hardDeleteArticle(article.id);
+      setArticles((prev) => prev.filter((a) => a.id !== article.id));
+      setPurgingArticle(null);
+      toast.success(`"${article.title}" permanently deleted`);
+    } catch (error) {
+      console.error("Error permanently deleting article:", error);
+      toast.error("Failed to delete article");
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const handleSaveRetention = async () => {
+    if (!userProfile) return;
+
+    const days = parseInt(retentionDays, 10);
+    if (!Number.isInteger(days) || days < 1 || days > 365) {
+      toast.error("Retention must be between 1 and 365 days");
+      return;
+    }
+
+    setSavingSettings(true);
+    try {
+      await updateSettings({ trashRetentionDays: days }, userProfile.uid);
+      toast.success(`Trashed articles are now kept for ${days} days`);
+    } catch (error) {
+      console.error("Error updating trash retention:", error);
+      toast.error("Failed to update trash retention");
+    } finally {
+      setSavingSettings(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div
+        className="min-h-screen py-8 px-4 sm:px-6 lg:px-8"
+        style={{ backgroundColor: "#EFEDFA" }}
+      >
+        <div className="max-w-7xl mx-auto">
+          <div className="flex items-center justify-center min-h-[400px]">
+            <div className="text-center">
+              <Loader2 className="h-8 w-8 animate-spin text-blue-600 mx-auto mb-4" />
+              <p className="text-gray-600">Loading trash...</p>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className="min-h-screen py-8 px-4 sm:px-6 lg:px-8"
+      style={{ backgroundColor: "#EFEDFA" }}
+    >
+      <div className="max-w-7xl mx-auto">
+        {/* Header */}
+        <div className="mb-8">
+          <button
+            onClick={() => navigate(isAdmin ? "/admin" : "/my-articles")}
+            className="flex items-center space-x-2 text-gray-600 hover:text-gray-900 transition-colors mb-4"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            <span>{isAdmin ? "Back to Admin Dashboard" : "Back to My Articles"}</span>
+          </button>
+
+          <h1 className="text-3xl font-bold text-gray-900">Trash</h1>
+          <p className="text-gray-600 mt-2">
+            {isAdmin ? "Deleted articles" : "Your deleted articles"} are kept
+            here for {settings.trashRetentionDays} days before they are
+            permanently deleted.
+          </p>
+        </div>
+
+        <div className="space-y-6">
+          {/* Retention Setting */}
+          {isAdmin && (
+            <div className="bg-white/90 backdrop-blur-sm rounded-2xl p-6 border border-gray-200 flex items-center justify-between">
+              <div className="flex items-start space-x-3">
+                <div className="bg-red-100 p-2 rounded-lg">
+                  <Clock className="h-5 w-5 text-red-600" />
+                </div>
+                <div>
+                  <h3 className="font-semibold text-gray-900">
+                    Retention period
+                  </h3>
+                  <p className="text-sm text-gray-600">
+                    Days an article stays in the trash before it is
+                    permanently deleted.
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-center space-x-2">
+                <input
+                  type="number"
+                  min={1}
+                  max={365}
+                  value={retentionDays}
+                  onChange={(e) => setRetentionDays(e.target.value)}
+                  disabled={settingsLoading || savingSettings}
+                  className="w-20 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm disabled:opacity-50"
+                />
+                <span className="text-sm text-gray-600">days</span>
+                <button
+                  onClick={handleSaveRetention}
+                  disabled={
+                    settingsLoading ||
+                    savingSettings ||
+                    retentionDays === String(settings.trashRetentionDays)
+                  }
+                  className="flex items-center space-x-1 px-3 py-2 bg-blue-600 text-white hover:bg-blue-700 rounded-lg transition-colors disabled:opacity-50"
+                >
+                  {savingSettings ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <Save className="h-4 w-4" />
+                  )}
+                  <span className="text-sm">Save</span>
+                </button>
+              </div>
+            </div>
+          )}
+
+          {/* Trashed Articles */}
+          {articles.length === 0 ? (
+            <div className="bg-white/90 backdrop-blur-sm rounded-2xl p-8 border border-gray-200 text-center">
+              <Trash2 className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+              <h3 className="text-lg font-medium text-gray-900 mb-2">
+                Trash is empty
+              </h3>
+              <p className="text-gray-600">
+                Deleted articles will appear here.
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {articles.map((article) => (
+                <div
+                  key={article.id}
+                  className="bg-white/90 backdrop-blur-sm rounded-2xl p-6 border border-gray-200"
+                >
+                  <div className="flex items-start justify-between">
+                    <div className="flex-1 min-w-0">
+                      <h3 className="text-lg font-semibold text-gray-900 mb-2">
+                        {article.title}
+                      </h3>
+
+                      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-gray-600 mb-3">
+                        {isAdmin && (
+                          <Link
+                            to={`/author/${article.authorId}`}
+                            className="flex items-center space-x-1 hover:text-blue-600 transition-colors"
+                          >
+                            <User className="h-4 w-4" />
+                            <span>{article.authorName}</span>
+                          </Link>
+                        )}
+                        <div className="flex items-center space-x-1">
+                          <Calendar className="h-4 w-4" />
+                          <span>
+                            Deleted by {deletedByLabel(article)}{" "}
+                            {article.deletedAt &&
+                              `${formatDistanceToNow(article.deletedAt)} ago`}
+                          </span>
+                        </div>
+                        {purgeDate(article) ? (
+                          <div className="flex items-center space-x-1 text-red-600">
+                            <Clock className="h-4 w-4" />
+                            <span>
+                              Permanently deleted in{" "}
+                              {formatDistanceToNow(purgeDate(article)!)}
+                            </span>
+                          </div>
+                        ) : (
+                          <div className="flex items-center space-x-1 text-gray-500">
+                            <Clock className="h-4 w-4" />
+                            <span>Kept until deleted permanently</span>
+                          </div>
+                        )}
+                      </div>
+
+                      {article.deleteReason && (
+                        <p className="text-sm text-gray-700">
+                          <span className="font-medium">Reason:</span>{" "}
+                          {article.deleteReason}
+                        </p>
+                      )}
+                    </div>
+
+                    {/* Actions */}
+                    <div className="flex items-center space-x-2 ml-4">
+                      <button
+                        onClick={() => handleRestore(article)}
+                        disabled={
+                          processingId === article.id || !canRestore(article)
+                        }
+                        title={
+                          canRestore(article)
+                            ? `Restore as ${
+                                STATUS_LABELS[
+                                  article.statusBeforeDeletion || "unpublished"
+                                ] || "unpublished"
+                              }`
+                            : "Removed by an administrator"
+                        }
+                        className="flex items-center space-x-1 px-3 py-2 bg-green-600 text-white hover:bg-green-700 rounded-lg transition-colors disabled:opacity-50"
+                      >
+                        {processingId === article.id ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          <RotateCcw className="h-4 w-4" />
+                        )}
+                        <span className="text-sm">Restore</span>
+                      </button>
+                      <button
+                        onClick={() => setPurgingArticle(article)}
+                        disabled={processingId === article.id}
+                        className="flex items-center space-x-1 px-3 py-2 bg-red-600 text-white hover:bg-red-700 rounded-lg transition-colors disabled:opacity-50"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                        <span className="text-sm">Delete Forever</span>
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Permanent Delete Modal */}
+        {purgingArticle && (
+          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+            <div className="bg-white rounded-2xl max-w-md w-full">
+              <div className="p-6">
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-xl font-bold text-gray-900 flex items-center">
+                    <AlertTriangle className="h-6 w-6 text-red-600 mr-3" />
+                    Delete Forever
+                  </h3>
+                  <button
+                    onClick={() => setPurgingArticle(null)}
+                    className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                  >
+                    <X className="h-5 w-5" />
+                  </button>
+                </div>
+
+                <p className="text-sm text-gray-600">
+                  "{purgingArticle.title}" and its comments, revisions and
+                  attachments will be permanently deleted. This action cannot
+                  be undone.
+                </p>
+
+                <div className="flex items-center justify-end space-x-3 mt-6">
+                  <button
+                    onClick={() => setPurgingArticle(null)}
+                    className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={handlePermanentDelete}
+                    disabled={processingId === purgingArticle.id}
+                    className="flex items-center space-x-2 px-4 py-2 bg-red-600 text-white hover:bg-red-700 rounded-lg transition-colors disabled:opacity-50"
+                  >
+                    {processingId === purgingArticle.id ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <Trash2 className="h-4 w-4" />
+                    )}
+                    <span>Delete Forever</span>
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
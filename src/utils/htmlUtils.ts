@@ -18,6 +18,36 @@ export const stripHtmlTags = (html: string): string => {
   return tempDiv.textContent || tempDiv.innerText || '';
 };
 
+/**
+ * Converts HTML to plain text while keeping block elements on separate lines
+ * @param html - HTML string to convert
+ * @returns Plain text with one line per block element
+ */
+export const htmlToPlainTextLines = (html: string): string => {
+  if (!html) return '';
+
+  const tempDiv = document.createElement('div');
+  tempDiv.innerHTML = html;
+
+  // Terminate every block-level element with a line break before reading text
+  tempDiv
+    .querySelectorAll('p, h1, h2, h3, h4, h5, h6, li, blockquote, pre, figcaption, tr, br')
+    .forEach((element) => {
+      element.appendChild(document.createTextNode('\n'));
+    });
+
+  // Keep image references visible in the text output
+  tempDiv.querySelectorAll('img').forEach((img) => {
+    img.replaceWith(document.createTextNode(`[image: ${img.getAttribute('src') || ''}]\n`));
+  });
+
+  return (tempDiv.textContent || '')
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0)
+    .join('\n');
+};
+
 /**
  * Extracts image URLs from HTML content using regex
  * @param content - HTML content string
@@ -0,0 +1,711 @@
+/**
+ * Conversion between the editor's TipTap HTML and Markdown with YAML front
+ * matter, used to move articles between InfoNest and git-based docs
+ */
+
+import { resolveCodeLanguage } from '../lib/tiptap/utils/codeLanguages';
+
+export interface MarkdownFrontMatter {
+  title?: string;
+  excerpt?: string;
+  tags?: string[];
+  categories?: string[];
+  coverImage?: string;
+}
+
+export interface MarkdownDocument {
+  frontMatter: MarkdownFrontMatter;
+  html: string; // Body converted to HTML the editor can load
+}
+
+/* ------------------------------------------------------------------ */
+/* HTML -> Markdown                                                    */
+/* ------------------------------------------------------------------ */
+
+const escapeMarkdown = (text: string): string =>
+  text.replace(/([\\`*_[\]$])/g, '\\$1');
+
+// Quote a YAML scalar; JSON strings are valid double-quoted YAML
+const yamlString = (value: string): string => JSON.stringify(value);
+
+const getCodeLanguage = (element: Element | null): string => {
+  const match = element?.className.match(/language-([\w+#-]+)/);
+  return match ? match[1] : '';
+};
+
+const imageToMarkdown = (img: Element): string => {
+  const alt = img.getAttribute('data-caption') || img.getAttribute('alt') || '';
+  const title = img.getAttribute('title');
+  const src = img.getAttribute('src') || '';
+  return `![${escapeMarkdown(alt)}](${src}${title ? ` ${yamlString(title)}` : ''})`;
+};
+
+const inlineToMarkdown = (node: Node): string => {
+  if (node.nodeType === Node.TEXT_NODE) {
+    return escapeMarkdown((node.textContent || '').replace(/\s+/g, ' '));
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) return '';
+
+  const element = node as Element;
+  const children = () => Array.from(element.childNodes).map(inlineToMarkdown).join('');
+
+  switch (element.tagName.toLowerCase()) {
+    case 'strong':
+    case 'b':
+      return `**${children()}**`;
+    case 'em':
+    case 'i':
+      return `*${children()}*`;
+    case 's':
+    case 'strike':
+    case 'del':
+      return `~~${children()}~~`;
+    case 'code':
+      return `\`${element.textContent || ''}\``;
+    case 'span':
+      if (element.hasAttribute('data-math-inline')) {
+        return `$${element.getAttribute('data-latex') || ''}$`;
+      }
+      return children();
+    case 'sup':
+      if (element.hasAttribute('data-footnote-index')) {
+        return `[^${element.getAttribute('data-footnote-index')}]`;
+      }
+      return children();
+    case 'a':
+      return `[${children()}](${element.getAttribute('href') || ''})`;
+    case 'img':
+      return imageToMarkdown(element);
+    case 'br':
+      return '  \n';
+    default:
+      return children();
+  }
+};
+
+const indentLines = (text: string, prefix: string): string =>
+  text
+    .split('\n')
+    .map((line) => (line ? prefix + line : line))
+    .join('\n');
+
+const listToMarkdown = (list: Element, ordered: boolean): string => {
+  const start = parseInt(list.getAttribute('start') || '1', 10);
+  // Checklists use the GFM task list syntax: - [x] Done
+  const isTaskList = list.getAttribute('data-type') === 'taskList';
+
+  return Array.from(list.children)
+    .filter((child) => child.tagName.toLowerCase() === 'li')
+    .map((item, index) => {
+      const marker = ordered ? `${start + index}. ` : '- ';
+      const checkbox = isTaskList
+        ? `[${item.getAttribute('data-checked') === 'true' ? 'x' : ' '}] `
+        : '';
+      const body = blocksToMarkdown(item, true) || inlineToMarkdown(item).trim();
+      const [firstLine, ...rest] = body.split('\n');
+      const continuation = indentLines(rest.join('\n'), ' '.repeat(marker.length));
+      return marker + checkbox + firstLine + (rest.length > 0 ? '\n' + continuation : '');
+    })
+    .join('\n');
+};
+
+// GFM tables hold one line per row, so cell content is flattened
+const tableToMarkdown = (table: Element): string => {
+  const rows = Array.from(table.querySelectorAll('tr')).map((row) =>
+    Array.from(row.children).map((cell) =>
+      Array.from(cell.childNodes)
+        .map(inlineToMarkdown)
+        .join(' ')
+        .replace(/\s*\n\s*/g, ' ')
+        .replace(/\|/g, '\\|')
+        .trim()
+    )
+  );
+  if (rows.length === 0) return '';
+
+  const columns = Math.max(...rows.map((row) => row.length));
+  const toLine = (cells: string[]) =>
+    `| ${Array.from({ length: columns }, (_, i) => cells[i] || '').join(' | ')} |`;
+
+  // Markdown tables always have a header row; use an empty one if needed
+  const hasHeader = table.querySelector('tr')?.querySelector('th') !== null;
+  const [header, ...body] = hasHeader ? rows : [[], ...rows];
+
+  return [toLine(header), toLine(Array(columns).fill('---')), ...body.map(toLine)].join('\n');
+};
+
+const blockToMarkdown = (element: Element): string => {
+  const tag = element.tagName.toLowerCase();
+
+  if (/^h[1-6]$/.test(tag)) {
+    return `${'#'.repeat(Number(tag[1]))} ${inlineToMarkdown(element).trim()}`;
+  }
+
+  switch (tag) {
+    case 'p':
+      return inlineToMarkdown(element).trim();
+    case 'ul':
+      return listToMarkdown(element, false);
+    case 'ol':
+      return listToMarkdown(element, true);
+    case 'blockquote':
+      return indentLines(blocksToMarkdown(element), '> ').replace(/^$/gm, '>');
+    case 'div':
+      if (element.hasAttribute('data-mermaid')) {
+        return `\`\`\`mermaid\n${element.getAttribute('data-source') || ''}\n\`\`\``;
+      }
+      if (element.hasAttribute('data-image-gallery')) {
+        // Markdown has no galleries; keep the images one after another
+        return Array.from(element.querySelectorAll('figure'))
+          .map((figure) => {
+            const img = figure.querySelector('img');
+            const caption = figure.querySelector('figcaption')?.textContent?.trim();
+            return `![${escapeMarkdown(caption || img?.getAttribute('alt') || '')}](${
+              img?.getAttribute('src') || ''
+            })`;
+          })
+          .join('\n\n');
+      }
+      if (element.hasAttribute('data-article-embed')) {
+        // Embeds are live references; Markdown keeps a link to the source
+        const sectionId = element.getAttribute('data-section-id');
+        const href = `#/article/${element.getAttribute('data-article-id') || ''}${
+          sectionId ? `?section=${sectionId}` : ''
+        }`;
+        return `[Embedded article](${href})`;
+      }
+      if (element.hasAttribute('data-math-block')) {
+        return `$$\n${element.getAttribute('data-latex') || ''}\n$$`;
+      }
+      if (element.hasAttribute('data-callout')) {
+        // Callouts use the GitHub alert syntax: > [!NOTE] Optional title
+        const type = (element.getAttribute('data-callout-type') || 'note').toUpperCase();
+        const title = element.getAttribute('data-callout-title');
+        const marker = `[!${type}]${title ? ` ${title}` : ''}`;
+        return indentLines(`${marker}\n${blocksToMarkdown(element)}`, '> ').replace(/^$/gm, '>');
+      }
+      return blocksToMarkdown(element) || inlineToMarkdown(element).trim();
+    case 'pre': {
+      const code = element.querySelector('code');
+      const text = (code || element).textContent || '';
+      const fence = text.includes('```') ? '~~~' : '```';
+      return `${fence}${getCodeLanguage(code)}\n${text.replace(/\n$/, '')}\n${fence}`;
+    }
+    case 'hr':
+      return '---';
+    case 'table':
+      return tableToMarkdown(element);
+    case 'img':
+      return imageToMarkdown(element);
+    default:
+      return blocksToMarkdown(element) || inlineToMarkdown(element).trim();
+  }
+};
+
+const BLOCK_TAGS = new Set([
+  'p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'ul', 'ol', 'blockquote', 'pre',
+  'hr', 'img', 'table', 'div', 'figure', 'section',
+]);
+
+// Convert the block children of an element. List items hold their own text
+// directly when the list is tight, so their inline content is kept in order.
+const blocksToMarkdown = (parent: Element, allowInline = false): string => {
+  const blocks: string[] = [];
+  let inline = '';
+
+  const flushInline = () => {
+    if (inline.trim()) blocks.push(inline.trim());
+    inline = '';
+  };
+
+  parent.childNodes.forEach((child) => {
+    if (
+      child.nodeType === Node.ELEMENT_NODE &&
+      BLOCK_TAGS.has((child as Element).tagName.toLowerCase())
+    ) {
+      flushInline();
+      const markdown = blockToMarkdown(child as Element);
+      if (markdown) blocks.push(markdown);
+    } else if (allowInline) {
+      inline += inlineToMarkdown(child);
+    }
+  });
+  flushInline();
+
+  // Tight lists keep their items on consecutive lines
+  return blocks.join(parent.tagName.toLowerCase() === 'li' ? '\n' : '\n\n');
+};
+
+/**
+ * Converts editor HTML to Markdown
+ * @param html - Article content as stored in Article.content
+ * @returns Markdown body
+ */
+export const htmlToMarkdown = (html: string): string => {
+  if (!html) return '';
+
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+
+  // Footnotes become [^n] references with their definitions at the end
+  const notes = Array.from(doc.body.querySelectorAll('sup[data-footnote]')).map(
+    (reference, index) => {
+      reference.setAttribute('data-footnote-index', String(index + 1));
+      return `[^${index + 1}]: ${(reference.getAttribute('data-note') || '').replace(/\s+/g, ' ')}`;
+    }
+  );
+
+  const markdown = blocksToMarkdown(doc.body, true).trim();
+  return (notes.length > 0 ? `${markdown}\n\n${notes.join('\n')}` : markdown) + '\n';
+};
+
+/**
+ * Converts an article to a Markdown document with YAML front matter
+ * @param article - Article fields to export
+ * @returns Markdown file contents
+ */
+export const articleToMarkdown = (article: {
+  title: string;
+  excerpt?: string;
+  tags?: string[];
+  categories?: string[];
+  coverImage?: string;
+  content: string;
+}): string => {
+  const lines = ['---', `title: ${yamlString(article.title)}`];
+
+  if (article.excerpt) {
+    lines.push(`excerpt: ${yamlString(article.excerpt)}`);
+  }
+  (['tags', 'categories'] as const).forEach((key) => {
+    const values = article[key] || [];
+    if (values.length > 0) {
+      lines.push(`${key}:`, ...values.map((value) => `  - ${yamlString(value)}`));
+    }
+  });
+  if (article.coverImage) {
+    lines.push(`coverImage: ${yamlString(article.coverImage)}`);
+  }
+  lines.push('---', '');
+
+  return lines.join('\n') + '\n' + htmlToMarkdown(article.content);
+};
+
+/* ------------------------------------------------------------------ */
+/* Markdown -> HTML                                                    */
+/* ------------------------------------------------------------------ */
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// Only keep link and image targets that are safe to render
+const safeUrl = (url: string): string =>
+  /^(https?:|mailto:|\/|#|\.)/i.test(url) || !/^[a-z][\w+.-]*:/i.test(url)
+    ? url
+    : '';
+
+const imageHtml = (alt: string, src: string, title?: string): string => {
+  const attributes = [`src="${escapeHtml(safeUrl(src))}"`];
+  if (alt) {
+    attributes.push(`alt="${escapeHtml(alt)}"`, `data-caption="${escapeHtml(alt)}"`);
+  }
+  if (title) {
+    attributes.push(`title="${escapeHtml(title)}"`);
+  }
+  return `<img ${attributes.join(' ')}>`;
+};
+
+const IMAGE_PATTERN = /!\[([^\]]*)\]\(\s*<?([^\s)>]+)>?(?:\s+"([^"]*)")?\s*\)/g;
+// $x^2$ but not prices like $5 and $10 or escaped \$ signs
+const INLINE_MATH_PATTERN = /(?<![\\$])\$(?![\s$])((?:\\.|[^$\\\n])+?)(?<!\s)\$(?!\d)/g;
+// [^label] references; resolved against the definitions in markdownToHtml
+const FOOTNOTE_REFERENCE_PATTERN = /\[\^([^\]\s]+)\](?!:)/g;
+const LINK_PATTERN = /\[([^\]]+)\]\(\s*<?([^\s)>]+)>?(?:\s+"[^"]*")?\s*\)/g;
+
+const inlineToHtml = (text: string): string => {
+  // Keep code spans and escaped characters away from the other rules
+  const placeholders: string[] = [];
+  const hold = (html: string) => `\uE000${placeholders.push(html) - 1}\uE000`;
+
+  let html = text
+    .replace(/(`+)([\s\S]*?[^`])\1(?!`)/g, (_, _ticks, code: string) =>
+      hold(`<code>${escapeHtml(code.trim())}</code>`)
+    )
+    .replace(INLINE_MATH_PATTERN, (_, latex: string) =>
+      hold(`<span data-math-inline data-latex="${escapeHtml(latex)}">${escapeHtml(latex)}</span>`)
+    )
+    .replace(/\\([\\`*_{}[\]()#+\-.!~>|$])/g, (_, char: string) => hold(escapeHtml(char)))
+    .replace(FOOTNOTE_REFERENCE_PATTERN, (_, label: string) => hold(`\uE001${label}\uE001`))
+    .replace(IMAGE_PATTERN, (_, alt: string, src: string, title?: string) =>
+      hold(imageHtml(alt, src, title))
+    )
+    .replace(/<(https?:\/\/[^\s>]+)>/g, (_, url: string) =>
+      hold(`<a href="${escapeHtml(url)}">${escapeHtml(url)}</a>`)
+    );
+
+  // The anchor tags are held so emphasis never matches inside the href, while
+  // the label can still be formatted. Underscores only emphasize at word
+  // boundaries, so snake_case words and URLs keep them.
+  html = escapeHtml(html)
+    .replace(LINK_PATTERN, (_, label: string, href: string) =>
+      `${hold(`<a href="${safeUrl(href)}">`)}${label}${hold('</a>')}`
+    )
+    .replace(/\*\*(?=\S)([\s\S]*?\S)\*\*/g, '<strong>$1</strong>')
+    .replace(/(?<![\p{L}\p{N}_])__(?=\S)([\s\S]*?\S)__(?![\p{L}\p{N}_])/gu, '<strong>$1</strong>')
+    .replace(/\*(?=\S)([\s\S]*?\S)\*/g, '<em>$1</em>')
+    .replace(/(?<![\p{L}\p{N}_])_(?=\S)([\s\S]*?\S)_(?![\p{L}\p{N}_])/gu, '<em>$1</em>')
+    .replace(/~~(?=\S)([\s\S]*?\S)~~/g, '<s>$1</s>')
+    .replace(/( {2,}|\\)\n/g, '<br>')
+    .replace(/\n/g, ' ');
+
+  // Held anchors can contain held characters, e.g. an escaped "_" in a URL
+  const restore = (value: string): string =>
+    value.replace(/\uE000(\d+)\uE000/g, (_, index: string) => restore(placeholders[Number(index)]));
+  return restore(html);
+};
+
+const FOOTNOTE_DEFINITION_PATTERN = /^ {0,3}\[\^([^\]\s]+)\]:\s*(.*)$/;
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})\s*([\w+#-]*)/;
+const HEADING_PATTERN = /^ {0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const RULE_PATTERN = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const LIST_ITEM_PATTERN = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const TASK_ITEM_PATTERN = /^\[([ xX])\]\s+(.*)$/;
+const BLOCK_IMAGE_PATTERN = /^\s*!\[[^\]]*\]\([^)]*\)\s*$/;
+const TABLE_ROW_PATTERN = /^\s*\|.*\|\s*$/;
+const TABLE_DELIMITER_PATTERN = /^\s*\|?(\s*:?-+:?\s*\|)+\s*(:?-+:?\s*)?$/;
+
+const splitTableRow = (line: string): string[] =>
+  line
+    .trim()
+    .replace(/^\|/, '')
+    .replace(/\|$/, '')
+    .split(/(?<!\\)\|/)
+    .map((cell) => cell.trim());
+
+const indentWidth = (line: string): number =>
+  line.replace(/\t/g, '    ').match(/^ */)?.[0].length || 0;
+
+const startsBlock = (line: string): boolean =>
+  FENCE_PATTERN.test(line) ||
+  HEADING_PATTERN.test(line) ||
+  RULE_PATTERN.test(line) ||
+  LIST_ITEM_PATTERN.test(line) ||
+  TABLE_ROW_PATTERN.test(line) ||
+  /^\s*\$\$/.test(line) ||
+  /^\s*>/.test(line);
+
+const blocksToHtml = (lines: string[]): string => {
+  const html: string[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    // Block formula between $$ lines, or on a single $$ ... $$ line
+    const mathBlock = line.match(/^\s*\$\$(.*?)(\$\$)?\s*$/);
+    if (mathBlock) {
+      const latex: string[] = [];
+      if (mathBlock[2]) {
+        latex.push(mathBlock[1]);
+        i++;
+      } else {
+        if (mathBlock[1].trim()) latex.push(mathBlock[1]);
+        i++;
+        while (i < lines.length && !/^\s*\$\$\s*$/.test(lines[i])) {
+          latex.push(lines[i]);
+          i++;
+        }
+        i++; // Closing $$
+      }
+      const source = escapeHtml(latex.join('\n').trim());
+      html.push(`<div data-math-block data-latex="${source}">${source}</div>`);
+      continue;
+    }
+
+    // Fenced code block, keeping its language for syntax highlighting
+    const fence = line.match(FENCE_PATTERN);
+    if (fence) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++; // Closing fence
+
+      // Mermaid fences become diagram blocks
+      if (fence[2].toLowerCase() === 'mermaid') {
+        const source = escapeHtml(code.join('\n'));
+        html.push(`<div data-mermaid data-source="${source}">${source}</div>`);
+        continue;
+      }
+
+      // Aliases such as "ts" are stored as the language the editor offers
+      const language = fence[2]
+        ? ` class="language-${escapeHtml(resolveCodeLanguage(fence[2]))}"`
+        : '';
+      html.push(`<pre><code${language}>${escapeHtml(code.join('\n'))}</code></pre>`);
+      continue;
+    }
+
+    const heading = line.match(HEADING_PATTERN);
+    if (heading) {
+      const level = heading[1].length;
+      html.push(`<h${level}>${inlineToHtml(heading[2])}</h${level}>`);
+      i++;
+      continue;
+    }
+
+    if (RULE_PATTERN.test(line)) {
+      html.push('<hr>');
+      i++;
+      continue;
+    }
+
+    // GFM table: a header row followed by a delimiter row
+    if (
+      TABLE_ROW_PATTERN.test(line) &&
+      i + 1 < lines.length &&
+      TABLE_DELIMITER_PATTERN.test(lines[i + 1])
+    ) {
+      const header = splitTableRow(line);
+      const rows: string[][] = [];
+      i += 2;
+      while (i < lines.length && TABLE_ROW_PATTERN.test(lines[i])) {
+        rows.push(splitTableRow(lines[i]));
+        i++;
+      }
+
+      const toCells = (cells: string[], tag: 'th' | 'td') =>
+        header
+          .map((_, index) => `<${tag}><p>${inlineToHtml(cells[index] || '')}</p></${tag}>`)
+          .join('');
+      const headerRow = header.some(Boolean) ? `<tr>${toCells(header, 'th')}</tr>` : '';
+      html.push(
+        `<table><tbody>${headerRow}${rows
+          .map((row) => `<tr>${toCells(row, 'td')}</tr>`)
+          .join('')}</tbody></table>`
+      );
+      continue;
+    }
+
+    // Images on their own line become image blocks
+    if (BLOCK_IMAGE_PATTERN.test(line)) {
+      html.push(inlineToHtml(line.trim()));
+      i++;
+      continue;
+    }
+
+    if (/^\s*>/.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && /^\s*>/.test(lines[i])) {
+        quoted.push(lines[i].replace(/^\s*> ?/, ''));
+        i++;
+      }
+
+      // GitHub alerts become callouts; CAUTION and IMPORTANT map to the
+      // closest callout type
+      const alert = quoted[0].match(/^\s*\[!(NOTE|TIP|WARNING|DANGER|CAUTION|IMPORTANT)\]\s*(.*)$/i);
+      if (alert) {
+        const aliases: Record<string, string> = { caution: 'danger', important: 'warning' };
+        const type = aliases[alert[1].toLowerCase()] || alert[1].toLowerCase();
+        const title = alert[2].trim() ? ` data-callout-title="${escapeHtml(alert[2].trim())}"` : '';
+        const body = blocksToHtml(quoted.slice(1)) || '<p></p>';
+        html.push(`<div data-callout data-callout-type="${type}"${title}>${body}</div>`);
+        continue;
+      }
+
+      html.push(`<blockquote>${blocksToHtml(quoted)}</blockquote>`);
+      continue;
+    }
+
+    const listItem = line.match(LIST_ITEM_PATTERN);
+    if (listItem) {
+      const baseIndent = indentWidth(line);
+      const ordered = /\d/.test(listItem[2]);
+      const items: string[][] = [];
+
+      while (i < lines.length) {
+        const current = lines[i];
+        const itemMatch = current.match(LIST_ITEM_PATTERN);
+
+        if (
+          itemMatch &&
+          indentWidth(current) === baseIndent &&
+          /\d/.test(itemMatch[2]) === ordered
+        ) {
+          items.push([itemMatch[3]]);
+          i++;
+        } else if (
+          current.trim() &&
+          (indentWidth(current) > baseIndent || !startsBlock(current))
+        ) {
+          // Nested content or a lazy continuation of the current item
+          items[items.length - 1].push(current.slice(Math.min(indentWidth(current), baseIndent + 2)));
+          i++;
+        } else if (
+          !current.trim() &&
+          i + 1 < lines.length &&
+          indentWidth(lines[i + 1]) > baseIndent
+        ) {
+          items[items.length - 1].push('');
+          i++;
+        } else {
+          break;
+        }
+      }
+
+      const isTaskList = !ordered && items.every((item) => TASK_ITEM_PATTERN.test(item[0]));
+      if (isTaskList) {
+        html.push(
+          `<ul data-type="taskList">${items
+            .map(([firstLine, ...rest]) => {
+              const [, mark, text] = firstLine.match(TASK_ITEM_PATTERN) || [];
+              const checked = mark.toLowerCase() === 'x';
+              return `<li data-type="taskItem" data-checked="${checked}">${blocksToHtml([
+                text,
+                ...rest,
+              ])}</li>`;
+            })
+            .join('')}</ul>`
+        );
+        continue;
+      }
+
+      const start = ordered ? parseInt(listItem[2], 10) : 1;
+      const tag = ordered ? 'ol' : 'ul';
+      const startAttribute = ordered && start !== 1 ? ` start="${start}"` : '';
+      html.push(
+        `<${tag}${startAttribute}>${items
+          .map((item) => `<li>${blocksToHtml(item)}</li>`)
+          .join('')}</${tag}>`
+      );
+      continue;
+    }
+
+    // Paragraph: consecutive lines up to a blank line or another block
+    const paragraph: string[] = [line.trim()];
+    i++;
+    while (i < lines.length && lines[i].trim() && !startsBlock(lines[i])) {
+      paragraph.push(lines[i].replace(/^\s+/, ''));
+      i++;
+    }
+    html.push(`<p>${inlineToHtml(paragraph.join('\n'))}</p>`);
+  }
+
+  return html.join('');
+};
+
+/**
+ * Converts Markdown to HTML the editor can load
+ * @param markdown - Markdown body without front matter
+ * @returns HTML using the editor's node types
+ */
+export const markdownToHtml = (markdown: string): string => {
+  const notes = new Map<string, string>();
+  let inFence = false;
+
+  // Pull out [^label]: definitions, leaving code fences untouched
+  const lines = markdown
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .filter((line) => {
+      if (FENCE_PATTERN.test(line)) inFence = !inFence;
+      const definition = !inFence && line.match(FOOTNOTE_DEFINITION_PATTERN);
+      if (!definition) return true;
+      notes.set(definition[1], definition[2].trim());
+      return false;
+    });
+
+  return blocksToHtml(lines).replace(/\uE001([^\uE001]+)\uE001/g, (_, label: string) =>
+    notes.has(label)
+      ? `<sup data-footnote data-note="${escapeHtml(notes.get(label) || '')}"></sup>`
+      : escapeHtml(`[^${label}]`)
+  );
+};
+
+const parseYamlScalar = (value: string): string => {
+  const trimmed = value.trim();
+  if (trimmed.startsWith('"')) {
+    try {
+      return JSON.parse(trimmed);
+    } catch (error) {
+      console.error('Invalid quoted front matter value:', error);
+    }
+  }
+  if (trimmed.startsWith("'") && trimmed.endsWith("'")) {
+    return trimmed.slice(1, -1).replace(/''/g, "'");
+  }
+  return trimmed;
+};
+
+// Parse the small YAML subset used for front matter: scalars, inline
+// [a, b] lists and indented "- item" lists
+const parseFrontMatter = (yaml: string): MarkdownFrontMatter => {
+  const data: Record<string, string | string[]> = {};
+  let listKey: string | null = null;
+
+  yaml.split('\n').forEach((line) => {
+    const item = line.match(/^\s*-\s+(.*)$/);
+    if (item && listKey) {
+      (data[listKey] as string[]).push(parseYamlScalar(item[1]));
+      return;
+    }
+
+    const entry = line.match(/^([\w-]+):\s*(.*)$/);
+    if (!entry) return;
+
+    const [, key, value] = entry;
+    if (!value.trim()) {
+      data[key] = [];
+      listKey = key;
+    } else if (value.trim().startsWith('[')) {
+      data[key] = value
+        .trim()
+        .slice(1, -1)
+        .split(',')
+        .map(parseYamlScalar)
+        .filter(Boolean);
+      listKey = null;
+    } else {
+      data[key] = parseYamlScalar(value);
+      listKey = null;
+    }
+  });
+
+  const asString = (value: string | string[] | undefined) =>
+    typeof value === 'string' ? value : undefined;
+  const asList = (value: string | string[] | undefined) =>
+    Array.isArray(value) ? value : typeof value === 'string' && value ? [value] : undefined;
+
+  return {
+    title: asString(data.title),
+    excerpt: asString(data.excerpt ?? data.description),
+    tags: asList(data.tags),
+    categories: asList(data.categories ?? data.category),
+    coverImage: asString(data.coverImage ?? data.cover_image ?? data.image),
+  };
+};
+
+/**
+ * Parses a Markdown file with optional YAML front matter
+ * @param markdown - Markdown file contents
+ * @returns Front matter fields and the body as editor HTML
+ */
+export const parseMarkdownDocument = (markdown: string): MarkdownDocument => {
+  const normalized = markdown.replace(/\r\n?/g, '\n').replace(/^\uFEFF/, '');
+  const frontMatter = normalized.match(/^---\n([\s\S]*?)\n---\n?/);
+
+  return {
+    frontMatter: frontMatter ? parseFrontMatter(frontMatter[1]) : {},
+    html: markdownToHtml(frontMatter ? normalized.slice(frontMatter[0].length) : normalized),
+  };
+};
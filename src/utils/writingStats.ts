@@ -0,0 +1,192 @@
+/**
+ * Writing statistics for article content: counts, reading time, heading
+ * structure, readability and warnings about overly long text
+ */
+
+import { parseHtmlContent } from './htmlUtils';
+
+export const WORDS_PER_MINUTE = 200;
+export const SECONDS_PER_IMAGE = 12;
+export const LONG_PARAGRAPH_WORDS = 150;
+export const LONG_SENTENCE_WORDS = 30;
+
+export interface WritingIssue {
+  type: 'long-paragraph' | 'long-sentence' | 'skipped-heading';
+  message: string;
+  excerpt: string;
+}
+
+export interface ReadabilityScore {
+  score: number; // Flesch reading ease, 0 (very hard) to 100 (very easy)
+  label: string;
+}
+
+export interface WritingStats {
+  words: number;
+  characters: number;
+  charactersWithoutSpaces: number;
+  sentences: number;
+  paragraphs: number;
+  images: number;
+  readingTime: number; // Minutes
+  readability: ReadabilityScore | null;
+  headings: { level: number; text: string }[];
+  issues: WritingIssue[];
+}
+
+// Leaf text blocks; list items, quotes, callouts and table cells all wrap
+// their text in paragraphs
+const TEXT_BLOCK_SELECTOR = 'p, h1, h2, h3, h4, h5, h6, pre, figcaption';
+// Sources that readers see rendered rather than read word by word
+const NON_PROSE_SELECTOR = '[data-mermaid], [data-math-block], [data-math-inline]';
+
+const WORD_PATTERN = /[\p{L}\p{N}]+(?:['’-][\p{L}\p{N}]+)*/gu;
+
+const READABILITY_LABELS: [number, string][] = [
+  [90, 'Very easy'],
+  [80, 'Easy'],
+  [70, 'Fairly easy'],
+  [60, 'Plain English'],
+  [50, 'Fairly difficult'],
+  [30, 'Difficult'],
+  [0, 'Very difficult'],
+];
+
+const countWords = (text: string): number => text.match(WORD_PATTERN)?.length || 0;
+
+const splitSentences = (text: string): string[] =>
+  text
+    .split(/(?<=[.!?…])["'”’)]*\s+/)
+    .map((sentence) => sentence.trim())
+    .filter((sentence) => countWords(sentence) > 0);
+
+// English syllable estimate; good enough for a readability indicator
+const countSyllables = (word: string): number => {
+  const letters = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (!letters) return 1;
+  if (letters.length <= 3) return 1;
+
+  const groups = letters.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, '').match(/[aeiouy]+/g);
+  return Math.max(1, groups?.length || 0);
+};
+
+const excerptOf = (text: string, words = 8): string => {
+  const parts = text.trim().split(/\s+/);
+  return parts.length > words ? `${parts.slice(0, words).join(' ')}…` : parts.join(' ');
+};
+
+const getReadability = (sentences: string[]): ReadabilityScore | null => {
+  const words = sentences.flatMap((sentence) => sentence.match(WORD_PATTERN) || []);
+  // Too little text for a meaningful score
+  if (words.length < 30 || sentences.length === 0) return null;
+
+  const syllables = words.reduce((total, word) => total + countSyllables(word), 0);
+  const score =
+    206.835 - 1.015 * (words.length / sentences.length) - 84.6 * (syllables / words.length);
+  const rounded = Math.round(Math.min(100, Math.max(0, score)));
+
+  return {
+    score: rounded,
+    label: READABILITY_LABELS.find(([minimum]) => rounded >= minimum)?.[1] || 'Very difficult',
+  };
+};
+
+/**
+ * Estimates reading time from a word count and the number of images
+ * @param words - Number of words
+ * @param images - Number of images
+ * @returns Whole minutes, at least 1 for any content
+ */
+export const calculateReadingTime = (words: number, images = 0): number => {
+  if (words === 0 && images === 0) return 0;
+  return Math.max(1, Math.ceil(words / WORDS_PER_MINUTE + (images * SECONDS_PER_IMAGE) / 60));
+};
+
+/**
+ * Computes writing statistics for editor HTML
+ * @param html - Article content as stored in Article.content
+ * @returns Counts, reading time, heading outline, readability and issues
+ */
+export const getWritingStats = (html: string): WritingStats => {
+  const { body } = parseHtmlContent(html || '');
+  body.querySelectorAll(NON_PROSE_SELECTOR).forEach((element) => element.remove());
+
+  const blocks = Array.from(body.querySelectorAll(TEXT_BLOCK_SELECTOR));
+  const blockTexts = blocks.map((block) => block.textContent || '');
+  const allText = blockTexts.join('\n');
+
+  const proseSentences: string[] = [];
+  const issues: WritingIssue[] = [];
+  let paragraphs = 0;
+
+  blocks.forEach((block, index) => {
+    // Table cells are data rather than prose
+    if (block.tagName !== 'P' || block.closest('table')) return;
+
+    const text = blockTexts[index].trim();
+    if (!text) return;
+    paragraphs++;
+
+    const paragraphWords = countWords(text);
+    if (paragraphWords > LONG_PARAGRAPH_WORDS) {
+      issues.push({
+        type: 'long-paragraph',
+        message: `Paragraph has ${paragraphWords} words; consider splitting it`,
+        excerpt: excerptOf(text),
+      });
+    }
+
+    splitSentences(text).forEach((sentence) => {
+      proseSentences.push(sentence);
+      const sentenceWords = countWords(sentence);
+      if (sentenceWords > LONG_SENTENCE_WORDS) {
+        issues.push({
+          type: 'long-sentence',
+          message: `Sentence has ${sentenceWords} words`,
+          excerpt: excerptOf(sentence),
+        });
+      }
+    });
+  });
+
+  const headings = Array.from(body.querySelectorAll('h1, h2, h3, h4, h5, h6'))
+    .map((heading) => ({
+      level: Number(heading.tagName[1]),
+      text: heading.textContent?.trim() || '',
+    }))
+    .filter((heading) => heading.text);
+
+  headings.forEach((heading, index) => {
+    const previousLevel = index > 0 ? headings[index - 1].level : 1;
+    if (heading.level > previousLevel + 1) {
+      issues.push({
+        type: 'skipped-heading',
+        message: `Heading jumps from H${previousLevel} to H${heading.level}`,
+        excerpt: heading.text,
+      });
+    }
+  });
+
+  const words = countWords(allText);
+  const images = body.querySelectorAll('img').length;
+
+  return {
+    words,
+    characters: allText.replace(/\n/g, '').length,
+    charactersWithoutSpaces: allText.replace(/\s/g, '').length,
+    sentences: proseSentences.length,
+    paragraphs,
+    images,
+    readingTime: calculateReadingTime(words, images),
+    readability: getReadability(proseSentences),
+    headings,
+    issues,
+  };
+};
+
+/**
+ * Estimates the reading time of article content
+ * @param html - Article content as stored in Article.content
+ * @returns Whole minutes, 0 for empty content
+ */
+export const estimateReadingTime = (html: string): number => getWritingStats(html).readingTime;